@@ -415,6 +415,116 @@ fun Application.configureServer() {
                 call.respond(HttpStatusCode.OK, mapOf("status" to "acknowledged"))
             }
             
+            // A file of the loaded repository (absolute or repo-relative path), for the code viewer
+            get("/files/content") {
+                val path = call.request.queryParameters["path"]
+                if (path.isNullOrBlank()) {
+                    call.respond(HttpStatusCode.BadRequest, ErrorResponse("BAD_REQUEST", "Missing path"))
+                    return@get
+                }
+                
+                val file = resolveRepoFile(loadedRepoPath(controller.state.value), path)
+                if (file == null || !file.isFile) {
+                    call.respond(HttpStatusCode.NotFound, ErrorResponse("NOT_FOUND", "No file at $path"))
+                    return@get
+                }
+                
+                val bytes = withContext(Dispatchers.IO) { file.readBytes() }
+                call.respond(HttpStatusCode.OK, fileContentResponse(path, bytes))
+            }
+            
+            // Entries of a folder of the loaded repository, folders first, for the file explorer
+            get("/files/list") {
+                val path = call.request.queryParameters["path"]
+                if (path.isNullOrBlank()) {
+                    call.respond(HttpStatusCode.BadRequest, ErrorResponse("BAD_REQUEST", "Missing path"))
+                    return@get
+                }
+                
+                val dir = resolveRepoFile(loadedRepoPath(controller.state.value), path)
+                if (dir == null || !dir.isDirectory) {
+                    call.respond(HttpStatusCode.NotFound, ErrorResponse("NOT_FOUND", "No directory at $path"))
+                    return@get
+                }
+                
+                val entries = (dir.listFiles() ?: emptyArray())
+                    .map { entry ->
+                        DirectoryEntry(
+                            name = entry.name,
+                            path = entry.path,
+                            type = if (entry.isDirectory) "directory" else "file",
+                            size = if (entry.isDirectory) null else entry.length()
+                        )
+                    }
+                    .sortedWith(compareBy<DirectoryEntry> { it.type }.thenBy { it.name })
+                call.respond(HttpStatusCode.OK, DirectoryListingResponse(path = path, entries = entries))
+            }
+            
+            // A file as committed at a revision (default HEAD), for the code viewer's diff
+            get("/git/file") {
+                val path = call.request.queryParameters["path"]
+                val revision = call.request.queryParameters["revision"]?.takeIf { it.isNotBlank() } ?: "HEAD"
+                if (path.isNullOrBlank() || revision.startsWith("-")) {
+                    call.respond(HttpStatusCode.BadRequest, ErrorResponse("BAD_REQUEST", "Missing path or invalid revision"))
+                    return@get
+                }
+                
+                val root = loadedRepoPath(controller.state.value)
+                val file = resolveRepoFile(root, path)
+                if (root == null || file == null) {
+                    call.respond(HttpStatusCode.NotFound, ErrorResponse("NOT_FOUND", "No file at $path"))
+                    return@get
+                }
+                if (!File(root, ".git").exists()) {
+                    call.respond(HttpStatusCode.NotFound, ErrorResponse("NOT_A_REPOSITORY", "Repository is not under git"))
+                    return@get
+                }
+                
+                val relative = file.relativeTo(File(root).canonicalFile).invariantSeparatorsPath
+                val content = withContext(Dispatchers.IO) {
+                    val process = ProcessBuilder("git", "-C", root, "show", "$revision:$relative")
+                        .redirectError(ProcessBuilder.Redirect.DISCARD)
+                        .start()
+                    val bytes = process.inputStream.readBytes()
+                    if (process.waitFor() == 0) bytes else null
+                }
+                if (content == null) {
+                    call.respond(HttpStatusCode.NotFound, ErrorResponse("NOT_FOUND", "$path is not tracked at $revision"))
+                    return@get
+                }
+                
+                call.respond(HttpStatusCode.OK, fileContentResponse(path, content))
+            }
+            
+            // Apply text edits to files of the loaded repository (quick fixes and their undo)
+            post("/files/edits") {
+                val request = call.receive<ApplyEditsRequest>()
+                if (request.edits.isEmpty()) {
+                    call.respond(HttpStatusCode.BadRequest, ErrorResponse("BAD_REQUEST", "Missing edits"))
+                    return@post
+                }
+                
+                val root = loadedRepoPath(controller.state.value)
+                val byFile = linkedMapOf<File, MutableList<com.kmpforge.debugforge.diagnostics.TextEdit>>()
+                for (edit in request.edits) {
+                    val file = resolveRepoFile(root, edit.filePath)
+                    if (file == null || !file.isFile) {
+                        call.respond(HttpStatusCode.NotFound, ErrorResponse("NOT_FOUND", "No file at ${edit.filePath}"))
+                        return@post
+                    }
+                    byFile.getOrPut(file) { mutableListOf() }.add(edit)
+                }
+                
+                for ((file, edits) in byFile) {
+                    file.writeText(applyTextEdits(file.readText(), edits))
+                }
+                
+                call.respond(HttpStatusCode.OK, ApplyEditsResponse(
+                    success = true,
+                    appliedFiles = byFile.keys.map { it.path }
+                ))
+            }
+            
             // Clear error
             post("/error/clear") {
                 controller.clearError()
@@ -690,6 +800,38 @@ data class StartPreviewRequest(val platform: String)
 @Serializable
 data class FileChangedRequest(val path: String)
 
+@Serializable
+data class FileContentResponse(
+    val path: String,
+    val size: Long,
+    val binary: Boolean,
+    val truncated: Boolean,
+    val content: String?
+)
+
+@Serializable
+data class DirectoryEntry(
+    val name: String,
+    val path: String,
+    val type: String,
+    val size: Long?
+)
+
+@Serializable
+data class DirectoryListingResponse(
+    val path: String,
+    val entries: List<DirectoryEntry>
+)
+
+@Serializable
+data class ApplyEditsRequest(val edits: List<com.kmpforge.debugforge.diagnostics.TextEdit>)
+
+@Serializable
+data class ApplyEditsResponse(
+    val success: Boolean,
+    val appliedFiles: List<String>
+)
+
 @Serializable
 data class DiagnosticFilterParams(
     val severities: List<String>,
@@ -725,6 +867,78 @@ data class AIAnalyzeRequest(
     val context: String = "Kotlin project"
 )
 
+// ============================================================================
+// REPOSITORY FILES
+// ============================================================================
+
+/** Longest text the file routes serve whole */
+const val MAX_FILE_CHARS = 1024 * 1024
+
+/**
+ * Root of the repository the controller has loaded, or null while none is ready.
+ */
+fun loadedRepoPath(state: com.kmpforge.debugforge.state.DebugForgeState): String? =
+    (state.repoStatus as? com.kmpforge.debugforge.state.RepoStatus.Ready)?.repoPath
+
+/**
+ * Resolves a client path (absolute, or relative to the repository) to a file
+ * inside the loaded repository. Returns null when no repository is loaded or
+ * the path points outside it, so the file routes never serve other files.
+ */
+fun resolveRepoFile(root: String?, path: String): File? {
+    if (root == null || path.isBlank()) return null
+    val base = File(root).canonicalFile
+    val requested = File(path).let { if (it.isAbsolute) it else File(base, path) }.canonicalFile
+    return if (requested == base || requested.path.startsWith(base.path + File.separator)) requested else null
+}
+
+/**
+ * A file as the file routes serve it. NUL bytes mark a binary file, whose
+ * content is left out; text beyond MAX_FILE_CHARS is cut off.
+ */
+fun fileContentResponse(path: String, bytes: ByteArray): FileContentResponse {
+    if (bytes.contains(0.toByte())) {
+        return FileContentResponse(path = path, size = bytes.size.toLong(), binary = true, truncated = false, content = null)
+    }
+    val text = bytes.decodeToString()
+    val truncated = text.length > MAX_FILE_CHARS
+    return FileContentResponse(
+        path = path,
+        size = bytes.size.toLong(),
+        binary = false,
+        truncated = truncated,
+        content = if (truncated) text.take(MAX_FILE_CHARS) else text
+    )
+}
+
+/**
+ * Applies edits to one file's content. Positions are 1-based with an exclusive
+ * end column, as in diagnostic locations; later edits go first so earlier
+ * offsets stay valid.
+ */
+fun applyTextEdits(content: String, edits: List<com.kmpforge.debugforge.diagnostics.TextEdit>): String {
+    fun offsetOf(line: Int, column: Int): Int {
+        var offset = 0
+        for (l in 1 until line) {
+            val next = content.indexOf('\n', offset)
+            if (next < 0) return content.length
+            offset = next + 1
+        }
+        val lineEnd = content.indexOf('\n', offset).let { if (it < 0) content.length else it }
+        return minOf(offset + maxOf(column - 1, 0), lineEnd)
+    }
+    
+    val ranges = edits
+        .map { Triple(offsetOf(it.range.startLine, it.range.startColumn), offsetOf(it.range.endLine, it.range.endColumn), it.newText) }
+        .sortedWith(compareByDescending<Triple<Int, Int, String>> { it.first }.thenByDescending { it.second })
+    
+    val result = StringBuilder(content)
+    for ((start, end, text) in ranges) {
+        result.replace(start, maxOf(start, end), text)
+    }
+    return result.toString()
+}
+
 /**
  * Embedded server wrapper for desktop application.
  * Provides a simple interface to start/stop the server programmatically.
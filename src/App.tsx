@@ -1,14 +1,40 @@
 import { Toaster } from "@/components/ui/toaster";
-import { Toaster as Sonner } from "@/components/ui/sonner";
+import { Toaster as Sonner, toast } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { QueryCache, QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { RepoIntake } from "@/components/screens/RepoIntake";
 import { DebugWorkspace } from "@/components/screens/DebugWorkspace";
 import { MainApp } from "@/components/screens/MainApp";
+import { ConnectionSettings } from "@/components/screens/ConnectionSettings";
+import { ReplayBanner } from "@/components/layout/ReplayBanner";
+import { onBackendChange } from "@/store/connectionStore";
+import { onReplayChange } from "@/store/sessionStore";
+import { ContractMismatchError, onContractWarning } from "@/services/schemas";
 import NotFound from "./pages/NotFound";
 
-const queryClient = new QueryClient();
+const queryClient = new QueryClient({
+  // DebugForgeApi already retries idempotent requests that failed transiently
+  defaultOptions: { queries: { retry: false } },
+  queryCache: new QueryCache({
+    onError: (error) => {
+      if (error instanceof ContractMismatchError) {
+        toast.error("Backend contract mismatch", { id: error.message, description: error.message });
+      }
+    },
+  }),
+});
+
+onContractWarning(({ endpoint, skipped, total, firstError }) => {
+  toast.warning(`Skipped ${skipped} of ${total} items from ${endpoint}`, {
+    id: `${endpoint}:${firstError.path}`,
+    description: firstError.message,
+  });
+});
+
+// Responses from the previous backend are meaningless after a switch
+onBackendChange(() => queryClient.resetQueries());
+onReplayChange(() => queryClient.resetQueries());
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
@@ -16,9 +42,11 @@ const App = () => (
       <Toaster />
       <Sonner />
       <BrowserRouter>
+        <ReplayBanner />
         <Routes>
           <Route path="/" element={<RepoIntake />} />
           <Route path="/workspace" element={<MainApp />} />
+          <Route path="/settings" element={<ConnectionSettings />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
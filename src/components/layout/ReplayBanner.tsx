@@ -0,0 +1,35 @@
+import { useNavigate } from "react-router-dom";
+import { PlayCircle } from "lucide-react";
+import { useSessionStore } from "@/store/sessionStore";
+import { useDebugStore } from "@/store/debugStore";
+
+// Shown on every screen while data comes from a recording instead of a backend
+export function ReplayBanner() {
+  const navigate = useNavigate();
+  const { replay, stopReplay } = useSessionStore();
+  const resetWorkspace = useDebugStore((state) => state.reset);
+
+  if (!replay) return null;
+
+  const exit = () => {
+    stopReplay();
+    resetWorkspace();
+    navigate("/");
+  };
+
+  return (
+    <div className="fixed inset-x-0 bottom-0 z-40 px-4 py-1.5 bg-ai-muted border-t border-ai/30 flex items-center gap-3 text-xs text-ai">
+      <PlayCircle className="w-4 h-4 shrink-0" />
+      <span className="font-medium uppercase tracking-wider">Replay</span>
+      <span className="truncate">
+        Recorded {new Date(replay.recordedAt).toLocaleString()}
+        {replay.repository && ` · ${replay.repository.owner}/${replay.repository.name}`}
+        {replay.backend && <span className="font-mono opacity-70"> · {replay.backend}</span>}
+        {" "}— not live findings
+      </span>
+      <button onClick={exit} className="ml-auto px-2 py-0.5 rounded border border-ai/40 hover:bg-ai/10">
+        Exit replay
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+import { useRef } from "react";
+import { Flag } from "lucide-react";
+import { downloadJson } from "@/lib/utils";
+import { toast } from "@/components/ui/sonner";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useDebugStore } from "@/store/debugStore";
+import { useBaselineStore } from "@/store/baselineStore";
+import { useDiagnosticsViewStore } from "@/store/diagnosticsViewStore";
+import { useRepositoryBaseline, useWorkspaceDiagnostics } from "@/hooks/useWorkspaceDiagnostics";
+import { createBaseline, parseBaselineFile, toBaselineFile } from "@/lib/baselines";
+
+// Fixed findings listed in the menu; the export has them all
+const FIXED_SHOWN = 5;
+
+// Baseline summary for the diagnostics header, with the actions to manage it
+export function BaselineMenu() {
+  const repository = useDebugStore((s) => s.repository);
+  const { all, baseline: comparison } = useWorkspaceDiagnostics();
+  const { repoKey, baseline } = useRepositoryBaseline();
+  const { setBaseline, clearBaseline } = useBaselineStore();
+  const { filters, toggleFacetValue } = useDiagnosticsViewStore();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const newOnly = filters.baseline.includes("new");
+
+  const snapshot = () => {
+    setBaseline(repoKey, createBaseline(all));
+    toast.success(`Baseline set with ${all.length} diagnostic${all.length === 1 ? "" : "s"}`);
+  };
+
+  const importFile = async (file: File) => {
+    try {
+      const { createdAt, entries } = parseBaselineFile(await file.text());
+      setBaseline(repoKey, { createdAt, entries });
+      toast.success(`Imported baseline with ${entries.length} diagnostic${entries.length === 1 ? "" : "s"}`);
+    } catch (e) {
+      toast.error("Could not import baseline", { description: e instanceof Error ? e.message : String(e) });
+    }
+  };
+
+  // Filtering by a baseline that is gone would hide everything
+  const clear = () => {
+    clearBaseline(repoKey);
+    filters.baseline.forEach((status) => toggleFacetValue("baseline", status));
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger
+          className="flex items-center gap-1 px-1.5 py-0.5 rounded text-xs font-normal text-muted-foreground hover:bg-accent"
+          title={comparison ? "Compared with the baseline" : "Set a baseline"}
+        >
+          <Flag className="w-3.5 h-3.5" />
+          {comparison && (
+            <>
+              <span className={comparison.counts.new > 0 ? "text-error" : undefined}>+{comparison.counts.new}</span>
+              <span className={comparison.counts.fixed > 0 ? "text-success" : undefined}>-{comparison.counts.fixed}</span>
+            </>
+          )}
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-64">
+          <DropdownMenuLabel className="text-xs">
+            {baseline ? `Baseline of ${new Date(baseline.createdAt).toLocaleString()}` : "No baseline"}
+          </DropdownMenuLabel>
+          {comparison && (
+            <div className="px-2 pb-1.5 text-xs text-muted-foreground space-y-0.5">
+              <div>
+                <span className="text-error font-mono">{comparison.counts.new}</span> new ·{" "}
+                <span className="font-mono">{comparison.counts.unchanged}</span> unchanged ·{" "}
+                <span className="text-success font-mono">{comparison.counts.fixed}</span> fixed
+              </div>
+              {comparison.fixed.slice(0, FIXED_SHOWN).map((entry) => (
+                <div key={`${entry.fingerprint}:${entry.line}`} className="truncate" title={entry.message}>
+                  ✓ {entry.file.split("/").pop()}:{entry.line} {entry.message}
+                </div>
+              ))}
+              {comparison.fixed.length > FIXED_SHOWN && <div>and {comparison.fixed.length - FIXED_SHOWN} more fixed</div>}
+            </div>
+          )}
+          {comparison && (
+            <DropdownMenuCheckboxItem
+              className="text-xs"
+              checked={newOnly}
+              onCheckedChange={() => toggleFacetValue("baseline", "new")}
+            >
+              Only new since baseline
+            </DropdownMenuCheckboxItem>
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem className="text-xs" disabled={all.length === 0 && !baseline} onSelect={snapshot}>
+            {baseline ? "Replace with current diagnostics" : "Set baseline from current diagnostics"}
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            className="text-xs"
+            disabled={!baseline}
+            onSelect={() =>
+              baseline &&
+              downloadJson(
+                `debugforge-baseline-${repository?.name ?? "default"}.json`,
+                toBaselineFile(repository?.url ?? null, baseline)
+              )
+            }
+          >
+            Export baseline
+          </DropdownMenuItem>
+          <DropdownMenuItem className="text-xs" onSelect={() => fileInput.current?.click()}>
+            Import baseline…
+          </DropdownMenuItem>
+          <DropdownMenuItem className="text-xs" disabled={!baseline} onSelect={clear}>
+            Clear baseline
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <input
+        ref={fileInput}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = "";
+          if (file) void importFile(file);
+        }}
+      />
+    </>
+  );
+}
@@ -0,0 +1,467 @@
+import { useEffect, useMemo, useRef, useState, type ReactNode } from "react";
+import { AlertCircle, AlertTriangle, Info, Loader2, Sparkles, ToggleLeft, Undo2, Wrench, X } from "lucide-react";
+import { toast } from "@/components/ui/sonner";
+import { cn } from "@/lib/utils";
+import { Panel } from "@/components/layout/Panel";
+import { CodeTokens } from "@/components/ui/code-tokens";
+import { HoverCard, HoverCardContent, HoverCardTrigger } from "@/components/ui/hover-card";
+import { useDebugStore } from "@/store/debugStore";
+import { useAnalyzeWithAI, useFileContent } from "@/hooks/useApi";
+import { useWorkspaceDiagnostics } from "@/hooks/useWorkspaceDiagnostics";
+import { useTokenizedLines } from "@/hooks/useTokenizedLines";
+import { aiSuggestionsFor, type LineRange } from "@/lib/aiAnalysis";
+import { compareAnnotations, decorateLine, worstAnnotation, type AnnotationType } from "@/lib/annotations";
+import { categoryInfo, severityInfo } from "@/lib/diagnosticCategories";
+import { languageForPath, languageInfo } from "@/lib/languages";
+import { tokenClassName } from "@/lib/syntaxHighlight";
+import type { CodeAnnotation, Diagnostic, SourceFile } from "@/types/debug";
+import { apiErrorTitle, DebugForgeApiError } from "@/services/errors";
+import { useUndoLastFix } from "@/hooks/useQuickFix";
+import { useFileDiff } from "@/hooks/useFileDiff";
+import { QuickFixButton } from "./QuickFixDialog";
+import { RelatedLocations } from "./RelatedLocations";
+
+// Files longer than this show their first lines until the user asks for all
+const LINE_CAP = 5000;
+
+// Longest range indexed per annotation; beyond it only the first lines get squiggles
+const MAX_ANNOTATION_LINES = 500;
+
+const ANNOTATION_STYLES: Record<AnnotationType, { icon: typeof AlertCircle; color: string; box: string }> = {
+  error: { icon: AlertCircle, color: "text-error", box: "bg-error-muted/30 border-error text-error" },
+  warning: { icon: AlertTriangle, color: "text-warning", box: "bg-warning-muted/30 border-warning text-warning" },
+  "ai-suggestion": { icon: Sparkles, color: "text-ai", box: "bg-ai-muted/30 border-ai text-ai" },
+  info: { icon: Info, color: "text-info", box: "bg-info-muted/30 border-info text-info" },
+};
+
+function annotationType(severity: Diagnostic["severity"]): AnnotationType {
+  return severity === "error" || severity === "warning" ? severity : "info";
+}
+
+function toAnnotation(diagnostic: Diagnostic): CodeAnnotation {
+  const { line, column, endLine, endColumn } = diagnostic.location;
+  return {
+    line,
+    column: column > 0 ? column : undefined,
+    endLine: endLine >= line ? endLine : line,
+    endColumn: endColumn > 0 ? endColumn : undefined,
+    type: annotationType(diagnostic.severity),
+    message: diagnostic.title,
+    diagnosticId: diagnostic.id,
+  };
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Lines the working tree no longer has, shown where they used to be
+function RemovedLines({ lines }: { lines: string[] }) {
+  return (
+    <>
+      {lines.map((line, i) => (
+        <div key={i} className="code-line code-line-removed flex opacity-80">
+          <span className="code-line-number">-</span>
+          <span className="w-8 shrink-0" />
+          <pre className="flex-1 whitespace-pre text-muted-foreground">{line || " "}</pre>
+        </div>
+      ))}
+    </>
+  );
+}
+
+function CodeViewerMessage({ children }: { children: ReactNode }) {
+  return <div className="flex-1 flex items-center justify-center p-6 text-xs text-muted-foreground text-center">{children}</div>;
+}
+
+function AnnotationIcon({ type, className }: { type: AnnotationType; className?: string }) {
+  const { icon: Icon, color } = ANNOTATION_STYLES[type];
+  return <Icon className={cn("w-3.5 h-3.5 shrink-0", color, className)} />;
+}
+
+function DiagnosticDetail({ diagnostic }: { diagnostic: Diagnostic }) {
+  const severity = severityInfo(diagnostic.severity);
+  const { line, column } = diagnostic.location;
+  return (
+    <div className="space-y-1.5">
+      <div className="flex items-start gap-1.5">
+        <severity.icon className={cn("w-3.5 h-3.5 shrink-0 mt-0.5", severity.color)} />
+        <span className="text-xs font-medium">{diagnostic.title}</span>
+      </div>
+      <div className="text-[10px] text-muted-foreground">
+        {categoryInfo(diagnostic.category).label} · {diagnostic.source} · Ln {line}
+        {column > 0 && `, Col ${column}`}
+      </div>
+      {diagnostic.description && <p className="text-xs text-muted-foreground">{diagnostic.description}</p>}
+      {diagnostic.relatedLocations.length > 0 && (
+        <div>
+          <div className="text-[10px] text-muted-foreground mb-0.5">Related locations</div>
+          <RelatedLocations diagnostic={diagnostic} includePrimary={false} />
+        </div>
+      )}
+      {diagnostic.fixes.length > 0 && (
+        <ul className="space-y-0.5">
+          {diagnostic.fixes.map((fix, i) => (
+            <li key={i} className="flex items-center gap-1.5 text-xs">
+              <Wrench className="w-3 h-3 shrink-0 text-success" />
+              <span className="truncate">{fix.title}</span>
+              {fix.preferred && <span className="text-[10px] text-muted-foreground">preferred</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+// Everything known about the annotations under the pointer, worst first
+function AnnotationHoverCard({
+  annotations,
+  diagnostics,
+  children,
+}: {
+  annotations: CodeAnnotation[];
+  diagnostics: Map<string, Diagnostic>;
+  children: ReactNode;
+}) {
+  return (
+    <HoverCard openDelay={200} closeDelay={100}>
+      <HoverCardTrigger asChild>{children}</HoverCardTrigger>
+      <HoverCardContent align="start" className="w-80 p-3 space-y-3 max-h-80 overflow-auto">
+        {[...annotations].sort(compareAnnotations).map((annotation, i) => {
+          const diagnostic = annotation.diagnosticId ? diagnostics.get(annotation.diagnosticId) : undefined;
+          return diagnostic ? (
+            <DiagnosticDetail key={diagnostic.id} diagnostic={diagnostic} />
+          ) : (
+            <div key={i} className="flex items-start gap-1.5 text-xs">
+              <AnnotationIcon type={annotation.type} className="mt-0.5" />
+              {annotation.message}
+            </div>
+          );
+        })}
+      </HoverCardContent>
+    </HoverCard>
+  );
+}
+
+export function CodeViewer() {
+  const {
+    openLocation,
+    showDiff,
+    toggleDiff,
+    repository,
+    addAISuggestions,
+    setActiveView,
+    selectDiagnostic,
+    appliedFixes,
+  } = useDebugStore();
+  const undoLastFix = useUndoLastFix();
+  const lastFix = appliedFixes[appliedFixes.length - 1];
+  const path = openLocation?.path ?? null;
+  const { data: content, isLoading, error } = useFileContent(path);
+  const { items: diagnostics } = useWorkspaceDiagnostics();
+  const analyze = useAnalyzeWithAI();
+  const [selection, setSelection] = useState<{ anchor: number; focus: number } | null>(null);
+  const [showSetupHint, setShowSetupHint] = useState(false);
+  const [showAll, setShowAll] = useState(false);
+  const codeRef = useRef<HTMLDivElement>(null);
+
+  const fileDiagnostics = useMemo(() => diagnostics.filter((d) => d.location.file === path), [diagnostics, path]);
+  const diagnosticsById = useMemo(() => new Map(fileDiagnostics.map((d) => [d.id, d])), [fileDiagnostics]);
+  const file: SourceFile | null = useMemo(() => {
+    if (!path || typeof content?.content !== "string") return null;
+    return {
+      path,
+      language: languageForPath(path).id,
+      content: content.content,
+      annotations: fileDiagnostics.map(toAnnotation),
+    };
+  }, [path, content, fileDiagnostics]);
+  // A cut-off file would diff as if its tail were deleted
+  const { diff, unavailable: diffUnavailable } = useFileDiff(path, file && !content?.truncated ? file.content : null, showDiff);
+  const displayPath = fileDiagnostics[0]?.location.relativePath || path;
+
+  // Annotations covering each line, for lines that have any
+  const annotationsByLine = useMemo(() => {
+    const byLine = new Map<number, CodeAnnotation[]>();
+    for (const annotation of file?.annotations ?? []) {
+      const last = Math.min(annotation.endLine ?? annotation.line, annotation.line + MAX_ANNOTATION_LINES);
+      for (let line = annotation.line; line <= last; line++) {
+        const list = byLine.get(line);
+        if (list) list.push(annotation);
+        else byLine.set(line, [annotation]);
+      }
+    }
+    return byLine;
+  }, [file]);
+
+  // Split on content only, so refetched diagnostics do not re-lex the file
+  const text = file?.content;
+  const lines = useMemo(() => text?.split("\n") ?? [], [text]);
+  const lexed = useTokenizedLines(lines, file ? languageInfo(file.language).lexer : null);
+  // A target beyond the cap would be hidden, so show everything then
+  const capped = !showAll && lines.length > LINE_CAP && (openLocation?.startLine ?? 0) <= LINE_CAP;
+  const shownLines = capped ? lines.slice(0, LINE_CAP) : lines;
+
+  const range: LineRange = selection
+    ? { startLine: Math.min(selection.anchor, selection.focus), endLine: Math.max(selection.anchor, selection.focus) }
+    : { startLine: 1, endLine: lines.length };
+  const inSelection = (line: number) => selection !== null && line >= range.startLine && line <= range.endLine;
+  const inTarget = (line: number) =>
+    openLocation?.startLine !== undefined &&
+    line >= openLocation.startLine &&
+    line <= (openLocation.endLine ?? openLocation.startLine);
+
+  useEffect(() => {
+    setSelection(null);
+    setShowAll(false);
+  }, [path]);
+
+  // Bring the target lines into view once the file has rendered
+  useEffect(() => {
+    if (!file || openLocation?.startLine === undefined) return;
+    codeRef.current
+      ?.querySelector(`[data-line="${openLocation.startLine}"]`)
+      ?.scrollIntoView({ block: "center" });
+  }, [file, openLocation]);
+
+  // Click a line number to select it, shift-click to extend, click again to clear
+  const selectLine = (line: number, extend: boolean) => {
+    if (extend && selection) setSelection({ ...selection, focus: line });
+    else if (selection && selection.anchor === line && selection.focus === line) setSelection(null);
+    else setSelection({ anchor: line, focus: line });
+  };
+
+  const runAnalysis = () => {
+    if (!file) return;
+    setShowSetupHint(false);
+    analyze.mutate(
+      {
+        code: lines.slice(range.startLine - 1, range.endLine).join("\n"),
+        fileName: file.path.split("/").pop() || file.path,
+        context: `${repository?.name ?? "Kotlin Multiplatform"} project, ${displayPath} lines ${range.startLine}-${range.endLine}`,
+      },
+      {
+        onSuccess: (analysis) => {
+          const suggestions = aiSuggestionsFor(analysis, file, range);
+          addAISuggestions(suggestions);
+          if (suggestions.length === 0) {
+            toast("AI found no issues", { description: analysis.summary || undefined });
+            return;
+          }
+          toast.success(`${suggestions.length} AI suggestion${suggestions.length === 1 ? "" : "s"}`, {
+            description: analysis.summary || undefined,
+            action: { label: "Review", onClick: () => setActiveView("refactor") },
+          });
+        },
+        onError: (e) => {
+          if (e instanceof DebugForgeApiError && e.code === "AI_NOT_CONFIGURED") {
+            setShowSetupHint(true);
+          } else {
+            toast.error(apiErrorTitle(e), { description: e.message });
+          }
+        },
+      }
+    );
+  };
+
+  return (
+    <Panel
+      title={path?.split("/").pop() || "Source"}
+      noPadding
+      actions={
+        <div className="flex items-center gap-1">
+          {lastFix && (
+            <button
+              onClick={() => void undoLastFix()}
+              className="flex items-center gap-1.5 px-2 py-1 rounded text-xs hover:bg-accent transition-colors"
+              title={`Undo "${lastFix.title}"`}
+            >
+              <Undo2 className="w-3.5 h-3.5" />
+              Undo fix
+            </button>
+          )}
+          <button
+            onClick={runAnalysis}
+            disabled={!file || analyze.isPending}
+            className="flex items-center gap-1.5 px-2 py-1 rounded text-xs text-ai hover:bg-ai-muted transition-colors disabled:opacity-60"
+            title="Select lines by clicking line numbers (shift-click to extend)"
+          >
+            {analyze.isPending ? (
+              <Loader2 className="w-3.5 h-3.5 animate-spin" />
+            ) : (
+              <Sparkles className="w-3.5 h-3.5" />
+            )}
+            {selection ? `Analyze lines ${range.startLine}-${range.endLine}` : "Analyze with AI"}
+          </button>
+          <button
+            onClick={toggleDiff}
+            title="Mark lines changed since git HEAD, or since the last scan when the backend has no git access"
+            className={cn(
+              "flex items-center gap-1.5 px-2 py-1 rounded text-xs transition-colors",
+              showDiff ? "bg-ai-muted text-ai" : "hover:bg-accent"
+            )}
+          >
+            <ToggleLeft className="w-3.5 h-3.5" />
+            Diff
+          </button>
+        </div>
+      }
+    >
+      {path && (
+        <div className="text-xs text-muted-foreground px-3 py-1.5 border-b border-border bg-muted/50 font-mono truncate" title={path}>
+          {displayPath}
+          {content && <span className="ml-2">· {formatSize(content.size)}</span>}
+          {file && <span className="ml-2">· {languageInfo(file.language).label}</span>}
+          {showDiff && diff && (
+            <span className="ml-2">
+              · vs {diff.base === "head" ? "HEAD" : "last scan"} <span className="text-success">+{diff.added}</span>{" "}
+              <span className="text-error">-{diff.removed}</span>
+            </span>
+          )}
+          {showDiff && diffUnavailable && (
+            <span className="ml-2" title="The backend cannot serve this file from git and there is no earlier copy to compare with">
+              · diff unavailable
+            </span>
+          )}
+        </div>
+      )}
+      {showSetupHint && (
+        <div className="flex items-start gap-2 px-3 py-2 text-xs bg-ai-muted/30 border-b border-ai/30">
+          <Sparkles className="w-3.5 h-3.5 text-ai shrink-0 mt-0.5" />
+          <div className="flex-1">
+            <span className="font-medium text-foreground">AI analysis is not configured.</span>{" "}
+            <span className="text-muted-foreground">
+              Set <code className="font-mono">GROQ_API_KEY</code> in the environment of the backend server and restart it.
+              A free key is available from console.groq.com.
+            </span>
+          </div>
+          <button onClick={() => setShowSetupHint(false)} className="text-muted-foreground hover:text-foreground">
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      )}
+      {content?.truncated && (
+        <div className="px-3 py-1.5 text-xs bg-warning-muted/30 border-b border-warning/30 text-warning">
+          File is too large to load completely; showing the beginning only.
+        </div>
+      )}
+
+      {!path && <CodeViewerMessage>Select a diagnostic or module to view its source</CodeViewerMessage>}
+      {path && isLoading && (
+        <CodeViewerMessage>
+          <Loader2 className="w-4 h-4 animate-spin" />
+        </CodeViewerMessage>
+      )}
+      {path && error && (
+        <CodeViewerMessage>
+          <span className="text-error">{apiErrorTitle(error)}:</span>&nbsp;{error.message}
+        </CodeViewerMessage>
+      )}
+      {content?.binary && (
+        <CodeViewerMessage>Binary file ({formatSize(content.size)}) cannot be displayed</CodeViewerMessage>
+      )}
+
+      {file && (
+        <div ref={codeRef} className="code-block overflow-auto">
+          {shownLines.map((line, index) => {
+            const lineNum = index + 1;
+            const covering = annotationsByLine.get(lineNum) ?? [];
+            const starting = covering.filter((a) => a.line === lineNum).sort(compareAnnotations);
+            const tokens = lexed?.[index]?.tokens ?? [];
+            const marker = worstAnnotation(starting);
+            // Worst diagnostic starting here that has fixes; starting is sorted worst first
+            const fixable = starting
+              .map((a) => a.diagnosticId && diagnosticsById.get(a.diagnosticId))
+              .find((d) => d && d.fixes.length > 0);
+
+            const change = diff?.changes.changed.get(lineNum);
+            const removed = diff?.changes.removed.get(lineNum);
+
+            return (
+              <div key={lineNum} className="group" data-line={lineNum}>
+                {removed && <RemovedLines lines={removed} />}
+                <div
+                  className={cn(
+                    "code-line flex",
+                    change && `gutter-${change}`,
+                    inTarget(lineNum) && "code-line-highlight",
+                    inSelection(lineNum) && "bg-ai-muted/40"
+                  )}
+                >
+                  <span
+                    className="code-line-number cursor-pointer select-none hover:text-foreground"
+                    onClick={(e) => selectLine(lineNum, e.shiftKey)}
+                  >
+                    {lineNum}
+                  </span>
+                  <span className="w-4 shrink-0 flex items-center">
+                    {marker && (
+                      <AnnotationHoverCard annotations={starting} diagnostics={diagnosticsById}>
+                        <span className="cursor-help">
+                          <AnnotationIcon type={marker.type} />
+                        </span>
+                      </AnnotationHoverCard>
+                    )}
+                  </span>
+                  <span className="w-4 shrink-0 flex items-center">
+                    {fixable && <QuickFixButton diagnostic={fixable} />}
+                  </span>
+                  <pre className="flex-1 whitespace-pre">
+                    {!line ? (
+                      " "
+                    ) : covering.length > 0 ? (
+                      decorateLine(tokens, line, lineNum, covering).map((piece, k) =>
+                        piece.squiggle ? (
+                          <AnnotationHoverCard key={k} annotations={piece.annotations} diagnostics={diagnosticsById}>
+                            <span className={cn("squiggle", `squiggle-${piece.squiggle}`, tokenClassName(piece.type))}>
+                              {piece.text}
+                            </span>
+                          </AnnotationHoverCard>
+                        ) : (
+                          <span key={k} className={tokenClassName(piece.type)}>
+                            {piece.text}
+                          </span>
+                        )
+                      )
+                    ) : lexed ? (
+                      <CodeTokens tokens={tokens} />
+                    ) : (
+                      line
+                    )}
+                  </pre>
+                </div>
+                {starting.map((annotation, i) => (
+                  <button
+                    key={annotation.diagnosticId ?? i}
+                    onClick={() => annotation.diagnosticId && selectDiagnostic(annotation.diagnosticId)}
+                    className={cn(
+                      "ml-20 w-[calc(100%-5rem)] flex items-center gap-1.5 px-3 py-1 text-xs text-left border-l-2 -mt-px",
+                      ANNOTATION_STYLES[annotation.type].box
+                    )}
+                  >
+                    <AnnotationIcon type={annotation.type} />
+                    <span className="truncate">{annotation.message}</span>
+                  </button>
+                ))}
+              </div>
+            );
+          })}
+          {!capped && diff?.changes.removed.has(lines.length + 1) && (
+            <RemovedLines lines={diff.changes.removed.get(lines.length + 1)!} />
+          )}
+          {capped && (
+            <button
+              onClick={() => setShowAll(true)}
+              className="w-full py-2 text-xs text-primary hover:bg-accent border-t border-border"
+            >
+              Show all {lines.length.toLocaleString()} lines
+            </button>
+          )}
+        </div>
+      )}
+    </Panel>
+  );
+}
@@ -0,0 +1,284 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Check, Loader2, Plus, Trash2, AlertCircle, Server } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { StatusBadge } from "@/components/ui/status-badge";
+import { cn } from "@/lib/utils";
+import { DebugForgeApi } from "@/services/api";
+import {
+  useConnectionStore,
+  activeProfile,
+  deriveWsUrl,
+  profileEndpoint,
+  type ConnectionProfile,
+} from "@/store/connectionStore";
+
+function ProfileForm({
+  profile,
+  isActive,
+  canRemove,
+  onSave,
+  onActivate,
+  onRemove,
+}: {
+  profile: ConnectionProfile;
+  isActive: boolean;
+  canRemove: boolean;
+  onSave: (profile: ConnectionProfile) => void;
+  onActivate: () => void;
+  onRemove: () => void;
+}) {
+  const [draft, setDraft] = useState(profile);
+  const [testStatus, setTestStatus] = useState<"idle" | "testing" | "ok" | "failed">("idle");
+  const [testMessage, setTestMessage] = useState<string | null>(null);
+
+  const dirty = JSON.stringify(draft) !== JSON.stringify(profile);
+  const valid = draft.name.trim() !== "" && /^https?:\/\//.test(draft.baseUrl) && /^wss?:\/\//.test(draft.wsUrl);
+
+  const update = (patch: Partial<ConnectionProfile>) => {
+    setDraft((d) => ({ ...d, ...patch }));
+    setTestStatus("idle");
+  };
+
+  const testConnection = async () => {
+    setTestStatus("testing");
+    setTestMessage(null);
+    const endpoint = profileEndpoint(draft);
+    try {
+      const health = await new DebugForgeApi(endpoint.baseUrl, endpoint.headers).health();
+      setTestStatus("ok");
+      setTestMessage(`Backend ${health.version} is ${health.status}`);
+    } catch (err) {
+      setTestStatus("failed");
+      setTestMessage(err instanceof Error ? err.message : "Backend unreachable");
+    }
+  };
+
+  return (
+    <div className="panel p-4 space-y-4">
+      <div className="space-y-2">
+        <label className="text-xs font-medium text-muted-foreground uppercase tracking-wider">Name</label>
+        <Input
+          value={draft.name}
+          onChange={(e) => update({ name: e.target.value })}
+          className="bg-muted border-border text-sm"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-xs font-medium text-muted-foreground uppercase tracking-wider">Base URL</label>
+        <Input
+          value={draft.baseUrl}
+          onChange={(e) => update({ baseUrl: e.target.value })}
+          onBlur={() => {
+            if (!draft.wsUrl) update({ wsUrl: deriveWsUrl(draft.baseUrl) });
+          }}
+          placeholder="http://127.0.0.1:18999"
+          className="bg-muted border-border font-mono text-sm"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-xs font-medium text-muted-foreground uppercase tracking-wider">WebSocket URL</label>
+        <div className="flex gap-2">
+          <Input
+            value={draft.wsUrl}
+            onChange={(e) => update({ wsUrl: e.target.value })}
+            placeholder="ws://127.0.0.1:18999/ws"
+            className="bg-muted border-border font-mono text-sm"
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-10"
+            onClick={() => update({ wsUrl: deriveWsUrl(draft.baseUrl) })}
+          >
+            From base
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
+          Auth header (optional)
+        </label>
+        <div className="flex gap-2">
+          <Input
+            value={draft.authHeader?.name ?? ""}
+            onChange={(e) =>
+              update({
+                authHeader: e.target.value || draft.authHeader?.value
+                  ? { name: e.target.value, value: draft.authHeader?.value ?? "" }
+                  : null,
+              })
+            }
+            placeholder="Authorization"
+            className="w-40 bg-muted border-border font-mono text-sm"
+          />
+          <Input
+            type="password"
+            value={draft.authHeader?.value ?? ""}
+            onChange={(e) =>
+              update({
+                authHeader: e.target.value || draft.authHeader?.name
+                  ? { name: draft.authHeader?.name ?? "", value: e.target.value }
+                  : null,
+              })
+            }
+            placeholder="Bearer …"
+            className="flex-1 bg-muted border-border font-mono text-sm"
+          />
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Sent with REST requests. Browsers cannot attach headers to WebSocket connections. The value is only
+          kept until this tab closes, so enter it again in a new one.
+        </p>
+      </div>
+
+      {testMessage && (
+        <p className={cn("text-xs", testStatus === "ok" ? "text-success" : "text-error")}>{testMessage}</p>
+      )}
+
+      <div className="flex items-center gap-2">
+        <Button size="sm" onClick={() => onSave(draft)} disabled={!dirty || !valid}>
+          Save
+        </Button>
+        <Button size="sm" variant="outline" onClick={testConnection} disabled={!valid || testStatus === "testing"}>
+          {testStatus === "testing" && <Loader2 className="w-3.5 h-3.5 mr-1.5 animate-spin" />}
+          {testStatus === "ok" && <Check className="w-3.5 h-3.5 mr-1.5 text-success" />}
+          {testStatus === "failed" && <AlertCircle className="w-3.5 h-3.5 mr-1.5 text-error" />}
+          Test connection
+        </Button>
+        {!isActive && (
+          <Button size="sm" variant="outline" onClick={onActivate} disabled={dirty}>
+            Use this profile
+          </Button>
+        )}
+        {canRemove && (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={onRemove}
+            className="ml-auto border-error/50 text-error hover:bg-error-muted"
+          >
+            <Trash2 className="w-3.5 h-3.5 mr-1.5" />
+            Delete
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export function ConnectionSettings() {
+  const navigate = useNavigate();
+  const store = useConnectionStore();
+  const { profiles, override, saveProfile, removeProfile, activateProfile, clearOverride } = store;
+  const current = activeProfile(store);
+  const [selectedId, setSelectedId] = useState(current.id === "query" ? profiles[0].id : current.id);
+  const selected = profiles.find((p) => p.id === selectedId) ?? profiles[0];
+
+  const addProfile = () => {
+    const profile: ConnectionProfile = {
+      id: `profile-${Date.now().toString(36)}`,
+      name: "New profile",
+      baseUrl: "http://127.0.0.1:18999",
+      wsUrl: "ws://127.0.0.1:18999/ws",
+      authHeader: null,
+    };
+    saveProfile(profile);
+    setSelectedId(profile.id);
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      {/* Header */}
+      <header className="border-b border-border px-6 py-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="w-8 h-8 bg-primary/20 rounded flex items-center justify-center">
+              <span className="text-primary font-mono font-bold text-sm">K</span>
+            </div>
+            <span className="font-semibold text-foreground">DebugForge</span>
+            <span className="text-xs text-muted-foreground font-mono">v0.9.0-beta</span>
+          </div>
+          <button
+            onClick={() => navigate(-1)}
+            className="text-xs text-muted-foreground hover:text-foreground"
+          >
+            ← Back
+          </button>
+        </div>
+      </header>
+
+      <main className="flex-1 flex justify-center p-8">
+        <div className="w-full max-w-3xl space-y-6">
+          <div className="space-y-2">
+            <h1 className="text-2xl font-semibold text-foreground">Backend Connection</h1>
+            <p className="text-sm text-muted-foreground">
+              Profiles are saved in this browser. Open any page with <code className="font-mono">?backend=</code>{" "}
+              and a profile name or base URL to override the active profile for this session.
+            </p>
+          </div>
+
+          {override && (
+            <div className="p-3 bg-warning-muted border border-warning/30 rounded-md flex items-center justify-between">
+              <p className="text-sm text-warning">
+                Using <span className="font-mono">{override.baseUrl}</span> from the URL query.
+              </p>
+              <Button size="sm" variant="outline" onClick={clearOverride}>
+                Use saved profile
+              </Button>
+            </div>
+          )}
+
+          <div className="flex gap-4">
+            <div className="w-56 shrink-0 space-y-1">
+              {profiles.map((profile) => (
+                <button
+                  key={profile.id}
+                  onClick={() => setSelectedId(profile.id)}
+                  className={cn(
+                    "w-full flex items-center gap-2 px-3 py-2 rounded text-sm text-left transition-colors hover:bg-accent",
+                    profile.id === selected.id && "bg-accent text-accent-foreground"
+                  )}
+                >
+                  <Server className="w-4 h-4 shrink-0 text-muted-foreground" />
+                  <span className="truncate">{profile.name}</span>
+                  {profile.id === current.id && (
+                    <StatusBadge variant="success" size="sm" className="ml-auto">
+                      active
+                    </StatusBadge>
+                  )}
+                </button>
+              ))}
+              <button
+                onClick={addProfile}
+                className="w-full flex items-center gap-2 px-3 py-2 rounded text-sm text-muted-foreground hover:text-foreground hover:bg-accent"
+              >
+                <Plus className="w-4 h-4" />
+                Add profile
+              </button>
+            </div>
+
+            <div className="flex-1">
+              <ProfileForm
+                key={selected.id}
+                profile={selected}
+                isActive={selected.id === current.id}
+                canRemove={profiles.length > 1}
+                onSave={saveProfile}
+                onActivate={() => activateProfile(selected.id)}
+                onRemove={() => {
+                  removeProfile(selected.id);
+                  setSelectedId(profiles.find((p) => p.id !== selected.id)?.id ?? profiles[0].id);
+                }}
+              />
+            </div>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -1,270 +1,116 @@
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { 
-  ChevronRight, 
-  ChevronDown, 
-  Folder,
   Copy,
-  FileCode, 
-  AlertCircle, 
-  AlertTriangle,
-  CheckCircle2,
+  Eye,
+  EyeOff,
   Layers,
-  ToggleLeft,
-  RefreshCw
+  Loader2,
+  RefreshCw,
+  Circle,
+  Square,
+  X
 } from "lucide-react";
-import { cn } from "@/lib/utils";
+import { toast } from "@/components/ui/sonner";
+import { cn, downloadJson } from "@/lib/utils";
 import { Panel } from "@/components/layout/Panel";
 import { StatusBadge } from "@/components/ui/status-badge";
 import { useDebugStore } from "@/store/debugStore";
-import { useDiagnostics, useModules, useRefreshRepo, useMetrics } from "@/hooks/useApi";
-import { mockModules, mockDiagnostics, mockSuggestions, mockSourceFile, mockScanResult } from "@/data/mockData";
-import type { Module, Diagnostic } from "@/types/debug";
+import { useSessionStore } from "@/store/sessionStore";
+import { useLiveUpdates } from "@/hooks/useLiveSocket";
+import { useScanProgress } from "@/hooks/useScanProgress";
+import { useFolderWatch } from "@/hooks/useFolderWatch";
+import { useCheckedInSuppressions } from "@/hooks/useWorkspaceDiagnostics";
+import type { LiveConnectionState } from "@/services/liveSocket";
+import { DiagnosticsPanel } from "./DiagnosticsPanel";
+import { ModuleExplorer } from "./ModuleExplorer";
+import { CodeViewer } from "./CodeViewer";
+import { QuickFixDialog } from "./QuickFixDialog";
+import { SuppressDialog } from "./Suppressions";
+import { ScanOverlay } from "./ScanOverlay";
 
-function ModuleTreeItem({ 
-  module, 
-  depth = 0,
-  selectedId,
-  onSelect 
-}: { 
-  module: Module; 
-  depth?: number;
-  selectedId: string | null;
-  onSelect: (id: string) => void;
-}) {
-  const [expanded, setExpanded] = useState(depth === 0);
-  const hasChildren = module.children && module.children.length > 0;
-  const isSelected = module.id === selectedId;
+function LiveIndicator({ state }: { state: LiveConnectionState }) {
+  const variant = state === "open" ? "success" : state === "closed" ? "error" : "warning";
+  const label = {
+    idle: "Offline",
+    connecting: "Connecting",
+    open: "Live",
+    reconnecting: "Reconnecting",
+    closed: "Offline",
+  }[state];
 
   return (
-    <div>
-      <button
-        onClick={() => {
-          onSelect(module.id);
-          if (hasChildren) setExpanded(!expanded);
-        }}
-        className={cn(
-          "w-full flex items-center gap-1.5 px-2 py-1.5 text-sm rounded transition-colors",
-          "hover:bg-accent",
-          isSelected && "bg-accent text-accent-foreground"
-        )}
-        style={{ paddingLeft: `${depth * 12 + 8}px` }}
-      >
-        {hasChildren ? (
-          expanded ? (
-            <ChevronDown className="w-3.5 h-3.5 shrink-0 text-muted-foreground" />
-          ) : (
-            <ChevronRight className="w-3.5 h-3.5 shrink-0 text-muted-foreground" />
-          )
-        ) : (
-          <span className="w-3.5" />
-        )}
-        
-        {hasChildren ? (
-          <Folder className="w-4 h-4 shrink-0 text-warning" />
-        ) : (
-          <FileCode className="w-4 h-4 shrink-0 text-info" />
-        )}
-        
-        <span className="font-mono truncate">{module.name}</span>
-        
-        <div className="ml-auto flex items-center gap-1.5">
-          {/* Shared code indicator */}
-          <div 
-            className="w-12 h-1.5 rounded-full bg-muted overflow-hidden"
-            title={`${module.sharedCodePercent}% shared`}
-          >
-            <div 
-              className={cn(
-                "h-full rounded-full",
-                module.sharedCodePercent > 80 ? "bg-success" :
-                module.sharedCodePercent > 50 ? "bg-warning" : "bg-error"
-              )}
-              style={{ width: `${module.sharedCodePercent}%` }}
-            />
-          </div>
-          
-          {module.hasErrors && (
-            <AlertCircle className="w-3.5 h-3.5 text-error" />
-          )}
-          {module.hasWarnings && !module.hasErrors && (
-            <AlertTriangle className="w-3.5 h-3.5 text-warning" />
-          )}
-        </div>
-      </button>
-      
-      {hasChildren && expanded && (
-        <div>
-          {module.children!.map((child) => (
-            <ModuleTreeItem 
-              key={child.id} 
-              module={child} 
-              depth={depth + 1}
-              selectedId={selectedId}
-              onSelect={onSelect}
-            />
-          ))}
-        </div>
-      )}
-    </div>
+    <StatusBadge variant={variant} size="sm" dot title="Live updates from the backend">
+      {label}
+    </StatusBadge>
   );
 }
 
-function CodeViewer() {
-  const { currentFile, showDiff, toggleDiff } = useDebugStore();
-  const file = currentFile || mockSourceFile;
-  
-  const lines = file.content.split("\n");
-  
+// Capture this session's API responses into a replayable bundle
+function RecordButton() {
+  const { mode, startRecording, stopRecording } = useSessionStore();
+  const repository = useDebugStore((state) => state.repository);
+  const [saving, setSaving] = useState(false);
+  const recording = mode === "recording";
+
+  const stop = async () => {
+    setSaving(true);
+    try {
+      const bundle = await stopRecording(repository);
+      if (!bundle) return;
+      const name = repository ? `${repository.owner}-${repository.name}` : "session";
+      downloadJson(`debugforge-${name}-${new Date(bundle.recordedAt).toISOString().slice(0, 10)}.json`, bundle);
+      toast.success(`Saved recording with ${Object.keys(bundle.responses).length} responses`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
   return (
-    <Panel 
-      title={file.path.split("/").pop() || "Source"} 
-      noPadding
-      actions={
-        <button
-          onClick={toggleDiff}
-          className={cn(
-            "flex items-center gap-1.5 px-2 py-1 rounded text-xs transition-colors",
-            showDiff ? "bg-ai-muted text-ai" : "hover:bg-accent"
-          )}
-        >
-          <ToggleLeft className="w-3.5 h-3.5" />
-          Diff
-        </button>
-      }
+    <button
+      onClick={recording ? stop : startRecording}
+      disabled={saving}
+      title={recording ? "Stop recording and download the session" : "Record API responses for replay"}
+      className={cn(
+        "flex items-center gap-1.5 px-2 py-1 rounded text-xs transition-colors",
+        recording ? "bg-error-muted text-error" : "text-muted-foreground hover:text-foreground hover:bg-accent"
+      )}
     >
-      <div className="text-xs text-muted-foreground px-3 py-1.5 border-b border-border bg-muted/50 font-mono">
-        {file.path}
-      </div>
-      <div className="code-block overflow-auto">
-        {lines.map((line, index) => {
-          const lineNum = index + 1;
-          const annotation = file.annotations.find((a) => a.line === lineNum);
-          
-          return (
-            <div key={lineNum} className="group">
-              <div 
-                className={cn(
-                  "code-line flex",
-                  annotation?.type === "error" && "code-line-removed",
-                  annotation?.type === "ai-suggestion" && "code-line-highlight"
-                )}
-              >
-                <span className="code-line-number">{lineNum}</span>
-                <pre className="flex-1 whitespace-pre">{line || " "}</pre>
-              </div>
-              {annotation && (
-                <div 
-                  className={cn(
-                    "ml-16 px-3 py-1.5 text-xs border-l-2 -mt-px",
-                    annotation.type === "error" 
-                      ? "bg-error-muted/30 border-error text-error" 
-                      : "bg-ai-muted/30 border-ai text-ai"
-                  )}
-                >
-                  {annotation.message}
-                </div>
-              )}
-            </div>
-          );
-        })}
-      </div>
-    </Panel>
+      {recording ? <Square className="w-3 h-3" /> : <Circle className="w-3 h-3" />}
+      {recording ? "Stop & save" : "Record"}
+    </button>
   );
 }
 
-function DiagnosticsPanel() {
-  const { diagnostics: storeDiagnostics, selectedDiagnosticId, selectDiagnostic } = useDebugStore();
-  const { data: apiDiagnostics, isLoading, refetch } = useDiagnostics();
-  const refreshRepo = useRefreshRepo();
-  
-  // Use API diagnostics if available, otherwise fall back to store or mock
-  const items = apiDiagnostics && apiDiagnostics.length > 0 
-    ? apiDiagnostics.map(d => ({
-        id: d.id,
-        severity: d.severity.toLowerCase() as "error" | "warning" | "info",
-        category: (d.category || "platform-api") as Diagnostic["category"],
-        title: d.message,
-        description: d.explanation || d.message,
-        location: {
-          file: d.location.filePath,
-          line: d.location.startLine,
-          column: d.location.startColumn,
-        },
-        platforms: ["android", "ios", "desktop", "web"] as const,
-      }))
-    : storeDiagnostics.length > 0 
-      ? storeDiagnostics 
-      : mockDiagnostics;
-  
-  const severityIcon = (severity: Diagnostic["severity"]) => {
-    switch (severity) {
-      case "error":
-        return <AlertCircle className="w-4 h-4 text-error shrink-0" />;
-      case "warning":
-        return <AlertTriangle className="w-4 h-4 text-warning shrink-0" />;
-      default:
-        return <CheckCircle2 className="w-4 h-4 text-info shrink-0" />;
-    }
-  };
-
-  const categoryLabel = (category: Diagnostic["category"]) => {
-    const labels: Record<Diagnostic["category"], string> = {
-      coroutine: "Coroutine",
-      wasm: "Wasm",
-      "platform-api": "Platform API",
-      memory: "Memory",
-      threading: "Threading",
-    };
-    return labels[category];
-  };
+// Report edits made outside DebugForge so diagnostics follow them
+function WatchButton() {
+  const { available, watching, source, reanalyzing, start, stop } = useFolderWatch();
+  if (!available) return null;
 
   return (
-    <Panel title="Diagnostics" noPadding>
-      <div className="divide-y divide-border">
-        {items.map((diag) => (
-          <button
-            key={diag.id}
-            onClick={() => selectDiagnostic(diag.id)}
-            className={cn(
-              "w-full diagnostic-item text-left",
-              selectedDiagnosticId === diag.id && "bg-accent/50"
-            )}
-          >
-            {severityIcon(diag.severity)}
-            <div className="flex-1 min-w-0">
-              <div className="flex items-center gap-2 mb-1">
-                <span className="font-medium text-sm truncate">{diag.title}</span>
-                <StatusBadge 
-                  variant={diag.severity === "error" ? "error" : diag.severity === "warning" ? "warning" : "info"}
-                  size="sm"
-                >
-                  {categoryLabel(diag.category)}
-                </StatusBadge>
-              </div>
-              <p className="text-xs text-muted-foreground line-clamp-2">
-                {diag.description}
-              </p>
-              <div className="flex items-center gap-2 mt-1.5">
-                <span className="text-xs font-mono text-muted-foreground truncate">
-                  {diag.location.file.split("/").pop()}:{diag.location.line}
-                </span>
-                <div className="flex gap-1">
-                  {diag.platforms.map((p) => (
-                    <span key={p} className="text-[10px] opacity-60">
-                      {p === "android" && "🤖"}
-                      {p === "ios" && "🍎"}
-                      {p === "desktop" && "🖥️"}
-                      {p === "web" && "🌐"}
-                    </span>
-                  ))}
-                </div>
-              </div>
-            </div>
-          </button>
-        ))}
-      </div>
-    </Panel>
+    <>
+      {reanalyzing.length > 0 && (
+        <span className="flex items-center gap-1 px-1 text-xs text-muted-foreground" title={reanalyzing.join("\n")}>
+          <Loader2 className="w-3 h-3 animate-spin" />
+          Re-analyzing {reanalyzing.length} file{reanalyzing.length === 1 ? "" : "s"}
+        </span>
+      )}
+      <button
+        onClick={watching ? stop : () => void start()}
+        title={
+          watching
+            ? `Watching ${source === "folder" ? "the picked folder" : "through the dev server"}; click to stop`
+            : "Re-analyze files as they are edited on disk"
+        }
+        className={cn(
+          "flex items-center gap-1.5 px-2 py-1 rounded text-xs transition-colors",
+          watching ? "bg-primary/15 text-primary" : "text-muted-foreground hover:text-foreground hover:bg-accent"
+        )}
+      >
+        {watching ? <Eye className="w-3 h-3" /> : <EyeOff className="w-3 h-3" />}
+        {watching ? "Watching" : "Watch"}
+      </button>
+    </>
   );
 }
 
@@ -272,32 +118,16 @@ export function DebugWorkspace() {
   const navigate = useNavigate();
   const { 
     repository, 
-    modules, 
-    selectedModuleId, 
-    selectModule,
     isScanning,
-    scanProgress,
-    setScanProgress,
-    setScanResult,
+    scanError,
+    clearScanError,
     setActiveView,
     activeView
   } = useDebugStore();
-
-  // Simulate scan progress
-  useEffect(() => {
-    if (isScanning && scanProgress < 100) {
-      const timer = setTimeout(() => {
-        const next = Math.min(scanProgress + Math.random() * 15, 100);
-        setScanProgress(next);
-        if (next >= 100) {
-          setScanResult(mockScanResult);
-        }
-      }, 200);
-      return () => clearTimeout(timer);
-    }
-  }, [isScanning, scanProgress, setScanProgress, setScanResult]);
-
-  const displayModules = modules.length > 0 ? modules : mockModules;
+  const liveState = useLiveUpdates();
+  const replaying = useSessionStore((state) => state.mode === "replay");
+  useScanProgress();
+  useCheckedInSuppressions();
 
   return (
     <div className="h-screen flex flex-col bg-background">
@@ -328,6 +158,17 @@ export function DebugWorkspace() {
         </div>
         
         <div className="flex items-center gap-1">
+          {replaying ? (
+            <StatusBadge variant="ai" size="sm" dot title="Data comes from a recorded session">
+              Replay
+            </StatusBadge>
+          ) : (
+            <>
+              <LiveIndicator state={liveState} />
+              <WatchButton />
+              <RecordButton />
+            </>
+          )}
           {["workspace", "refactor"].map((view) => (
             <button
               key={view}
@@ -346,19 +187,14 @@ export function DebugWorkspace() {
       </header>
 
       {/* Scanning overlay */}
-      {isScanning && (
-        <div className="absolute inset-0 bg-background/80 backdrop-blur-sm z-50 flex items-center justify-center">
-          <div className="text-center space-y-4">
-            <div className="relative w-48 h-1 bg-muted rounded-full overflow-hidden">
-              <div 
-                className="absolute inset-y-0 left-0 bg-primary transition-all duration-200"
-                style={{ width: `${scanProgress}%` }}
-              />
-            </div>
-            <p className="text-sm text-muted-foreground">
-              Analyzing repository... {Math.round(scanProgress)}%
-            </p>
-          </div>
+      {isScanning && <ScanOverlay />}
+
+      {scanError && (
+        <div className="px-4 py-2 bg-error-muted border-b border-error flex items-center justify-between shrink-0">
+          <p className="text-sm text-error">Scan failed: {scanError}</p>
+          <button onClick={clearScanError} className="text-error hover:opacity-80" aria-label="Dismiss">
+            <X className="w-4 h-4" />
+          </button>
         </div>
       )}
 
@@ -367,16 +203,7 @@ export function DebugWorkspace() {
         {/* Left: Module Tree */}
         <div className="w-64 border-r border-border flex flex-col shrink-0">
           <Panel title="Modules" className="flex-1 rounded-none border-0">
-            <div className="space-y-0.5">
-              {displayModules.map((module) => (
-                <ModuleTreeItem 
-                  key={module.id} 
-                  module={module}
-                  selectedId={selectedModuleId}
-                  onSelect={selectModule}
-                />
-              ))}
-            </div>
+            <ModuleExplorer />
             
             {/* Legend */}
             <div className="mt-6 pt-4 border-t border-border space-y-2">
@@ -409,6 +236,9 @@ export function DebugWorkspace() {
           <DiagnosticsPanel />
         </div>
       </div>
+
+      <QuickFixDialog />
+      <SuppressDialog />
     </div>
   );
 }
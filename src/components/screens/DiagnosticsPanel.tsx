@@ -0,0 +1,545 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { ArrowUpDown, Bookmark, ChevronDown, ChevronRight, EyeOff, Filter, Search, X } from "lucide-react";
+import { cn, downloadJson } from "@/lib/utils";
+import { Panel } from "@/components/layout/Panel";
+import { StatusBadge } from "@/components/ui/status-badge";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { toast } from "@/components/ui/sonner";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useDebugStore } from "@/store/debugStore";
+import { useDiagnosticsViewStore } from "@/store/diagnosticsViewStore";
+import { useLiveDiagnosticsStore } from "@/store/liveDiagnosticsStore";
+import { useDiagnosticsViewUrl } from "@/hooks/useDiagnosticsViewUrl";
+import { useWorkspaceDiagnostics } from "@/hooks/useWorkspaceDiagnostics";
+import { useLocationNavigation } from "@/hooks/useLocationNavigation";
+import { QuickFixButton } from "./QuickFixDialog";
+import { RelatedLocations } from "./RelatedLocations";
+import { SuppressButton, SuppressionsView } from "./Suppressions";
+import { BaselineMenu } from "./BaselineMenu";
+import { categoryInfo, severityInfo } from "@/lib/diagnosticCategories";
+import {
+  activeFilterCount,
+  facetCounts,
+  filterDiagnostics,
+  groupDiagnostics,
+  sortDiagnostics,
+  type DiagnosticGroup,
+  type FacetKey,
+  type GroupBy,
+  type SortBy,
+} from "@/lib/diagnosticFilters";
+import { parseViewsFile, toViewsFile } from "@/lib/diagnosticViews";
+import type { Diagnostic, DiagnosticSeverity } from "@/types/debug";
+import { ContractMismatchError } from "@/services/schemas";
+
+const FACETS: { key: FacetKey; label: string }[] = [
+  { key: "severities", label: "Severity" },
+  { key: "categories", label: "Category" },
+  { key: "modules", label: "Module" },
+  { key: "sourceSets", label: "Source set" },
+  { key: "sources", label: "Analyzer" },
+  { key: "tags", label: "Tag" },
+  { key: "baseline", label: "Baseline" },
+];
+
+const GROUP_OPTIONS: { value: GroupBy; label: string }[] = [
+  { value: "none", label: "No grouping" },
+  { value: "file", label: "File" },
+  { value: "module", label: "Module" },
+  { value: "category", label: "Category" },
+  { value: "severity", label: "Severity" },
+];
+
+const SORT_OPTIONS: { value: SortBy; label: string }[] = [
+  { value: "severity", label: "Severity" },
+  { value: "location", label: "File and line" },
+  { value: "newest", label: "Newest first" },
+];
+
+// How a facet value reads in menus and chips
+function facetValueLabel(key: FacetKey, value: string): string {
+  if (key === "severities") return severityInfo(value as DiagnosticSeverity).label;
+  if (key === "categories") return categoryInfo(value).label;
+  if (key === "baseline") return value === "new" ? "New since baseline" : "In baseline";
+  return value;
+}
+
+function CategoryBadge({ category }: { category: Diagnostic["category"] }) {
+  const { icon: Icon, label, badge, explanation } = categoryInfo(category);
+  return (
+    <StatusBadge size="sm" className={cn("shrink-0", badge)} title={explanation}>
+      <Icon className="w-3 h-3" />
+      {label}
+    </StatusBadge>
+  );
+}
+
+function SeverityIcon({ severity }: { severity: Diagnostic["severity"] }) {
+  const { icon: Icon, color, label } = severityInfo(severity);
+  return <Icon className={cn("w-4 h-4 shrink-0", color)} aria-label={label} />;
+}
+
+function DiagnosticRow({
+  diagnostic,
+  selected,
+  onSelect,
+}: {
+  diagnostic: Diagnostic;
+  selected: boolean;
+  onSelect: () => void;
+}) {
+  const entering = useLiveDiagnosticsStore((s) => s.entering.includes(diagnostic.id));
+  const leaving = useLiveDiagnosticsStore((s) => s.leaving.includes(diagnostic.id));
+  return (
+    <div className={cn("relative group", entering && "diagnostic-entering", leaving && "diagnostic-leaving")}>
+      <button
+        onClick={onSelect}
+        className={cn("w-full diagnostic-item text-left pr-12", selected && "bg-accent/50")}
+      >
+        <SeverityIcon severity={diagnostic.severity} />
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2 mb-1">
+            <span className="font-medium text-sm truncate">{diagnostic.title}</span>
+            {diagnostic.baselineStatus === "new" && (
+              <span className="shrink-0 text-[10px] uppercase tracking-wider text-error" title="Not in the baseline">
+                New
+              </span>
+            )}
+            <CategoryBadge category={diagnostic.category} />
+          </div>
+          <p className="text-xs text-muted-foreground line-clamp-2">
+            {diagnostic.description}
+          </p>
+          <div className="flex items-center gap-2 mt-1.5">
+            <span className="text-xs font-mono text-muted-foreground truncate">
+              {diagnostic.location.file.split("/").pop()}:{diagnostic.location.line}
+            </span>
+            <div className="flex gap-1">
+              {diagnostic.platforms.map((p) => (
+                <span key={p} className="text-[10px] opacity-60">
+                  {p === "android" && "🤖"}
+                  {p === "ios" && "🍎"}
+                  {p === "desktop" && "🖥️"}
+                  {p === "web" && "🌐"}
+                </span>
+              ))}
+            </div>
+          </div>
+        </div>
+      </button>
+      <div className="absolute top-2.5 right-2.5 flex items-center gap-1.5">
+        <SuppressButton diagnostic={diagnostic} className="opacity-0 group-hover:opacity-100 focus:opacity-100" />
+        {diagnostic.fixes.length > 0 && <QuickFixButton diagnostic={diagnostic} />}
+      </div>
+      {selected && diagnostic.relatedLocations.length > 0 && (
+        <div className="px-3 pb-2 bg-accent/50">
+          <div className="flex items-center justify-between mb-1 text-[10px] uppercase tracking-wider text-muted-foreground">
+            <span>Locations</span>
+            <span className="normal-case tracking-normal">
+              <kbd className="font-mono">[</kbd> <kbd className="font-mono">]</kbd> to step
+            </span>
+          </div>
+          <RelatedLocations diagnostic={diagnostic} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+function GroupHeader({ group, collapsed, onToggle }: { group: DiagnosticGroup; collapsed: boolean; onToggle: () => void }) {
+  return (
+    <button
+      onClick={onToggle}
+      className="sticky top-0 z-10 w-full flex items-center gap-1.5 px-3 py-1.5 text-xs bg-muted/80 backdrop-blur border-b border-border hover:bg-accent"
+    >
+      {collapsed ? (
+        <ChevronRight className="w-3.5 h-3.5 shrink-0 text-muted-foreground" />
+      ) : (
+        <ChevronDown className="w-3.5 h-3.5 shrink-0 text-muted-foreground" />
+      )}
+      <span className="font-medium truncate" title={group.label}>{group.label}</span>
+      <span className="text-muted-foreground">{group.items.length}</span>
+      <span className="ml-auto flex items-center gap-1.5 shrink-0">
+        {(Object.keys(group.counts) as DiagnosticSeverity[])
+          .filter((severity) => group.counts[severity] > 0)
+          .map((severity) => (
+            <span key={severity} className={cn("font-mono", severityInfo(severity).color)}>
+              {group.counts[severity]}
+              {severity[0].toUpperCase()}
+            </span>
+          ))}
+      </span>
+    </button>
+  );
+}
+
+function ViewsMenu() {
+  const { savedViews, applyView, saveView, deleteView, importViews } = useDiagnosticsViewStore();
+  const repository = useDebugStore((state) => state.repository);
+  const [saving, setSaving] = useState(false);
+  const [name, setName] = useState("");
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  // Views are kept per repository; without one they share a default slot
+  const repoKey = repository?.url ?? "default";
+  const views = savedViews[repoKey] ?? [];
+
+  const save = () => {
+    const view = saveView(repoKey, name.trim());
+    toast.success(`Saved view "${view.name}"`);
+    setSaving(false);
+    setName("");
+  };
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast.success("Link to this view copied");
+    } catch {
+      toast.error("Could not copy the link", { description: window.location.href });
+    }
+  };
+
+  const importFile = async (file: File) => {
+    try {
+      const imported = parseViewsFile(await file.text());
+      importViews(repoKey, imported.views);
+      toast.success(`Imported ${imported.views.length} view${imported.views.length === 1 ? "" : "s"}`);
+    } catch (e) {
+      toast.error("Could not import views", { description: e instanceof Error ? e.message : String(e) });
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger
+          className="flex items-center h-7 px-2 rounded border border-border text-xs hover:bg-accent"
+          title="Saved views"
+        >
+          <Bookmark className="w-3.5 h-3.5" />
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-56">
+          <DropdownMenuLabel className="text-xs">Saved views</DropdownMenuLabel>
+          {views.length === 0 && (
+            <p className="px-2 py-1.5 text-xs text-muted-foreground">No saved views for this repository</p>
+          )}
+          {views.map((view) => (
+            <DropdownMenuItem key={view.id} className="text-xs" onSelect={() => applyView(view)}>
+              <span className="truncate">{view.name}</span>
+              <button
+                className="ml-auto text-muted-foreground hover:text-foreground"
+                aria-label={`Delete view ${view.name}`}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  deleteView(repoKey, view.id);
+                }}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem className="text-xs" onSelect={() => setSaving(true)}>
+            Save current view…
+          </DropdownMenuItem>
+          <DropdownMenuItem className="text-xs" onSelect={copyLink}>
+            Copy link to current view
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            className="text-xs"
+            disabled={views.length === 0}
+            onSelect={() =>
+              downloadJson(
+                `debugforge-views-${repository?.name ?? "default"}.json`,
+                toViewsFile(repository?.url ?? null, views)
+              )
+            }
+          >
+            Export views
+          </DropdownMenuItem>
+          <DropdownMenuItem className="text-xs" onSelect={() => fileInput.current?.click()}>
+            Import views…
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <input
+        ref={fileInput}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = "";
+          if (file) importFile(file);
+        }}
+      />
+
+      <Dialog open={saving} onOpenChange={setSaving}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Save view</DialogTitle>
+          </DialogHeader>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (name.trim()) save();
+            }}
+          >
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Wasm errors in :shared"
+              autoFocus
+            />
+            <p className="mt-2 text-xs text-muted-foreground">
+              Saves the current filters, search, grouping and sort. A view with the same name is replaced.
+            </p>
+            <DialogFooter className="mt-4">
+              <Button type="button" variant="outline" size="sm" onClick={() => setSaving(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" size="sm" disabled={!name.trim()}>
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
+
+function FilterBar({ items }: { items: Diagnostic[] }) {
+  const { filters, groupBy, sortBy, toggleFacetValue, clearFacet, setSearch, clearFilters, setGroupBy, setSortBy } =
+    useDiagnosticsViewStore();
+  const active = activeFilterCount(filters);
+  const chips = FACETS.flatMap(({ key }) => filters[key].map((value) => ({ key, value })));
+
+  return (
+    <div className="border-b border-border px-2 py-2 space-y-2">
+      <div className="flex items-center gap-1.5">
+        <div className="relative flex-1">
+          <Search className="absolute left-2 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-muted-foreground" />
+          <Input
+            value={filters.search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search messages"
+            className="h-7 pl-7 text-xs"
+          />
+        </div>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger
+            className={cn(
+              "flex items-center gap-1 h-7 px-2 rounded border border-border text-xs hover:bg-accent",
+              active > 0 && "border-primary/50 text-primary"
+            )}
+          >
+            <Filter className="w-3.5 h-3.5" />
+            {active > 0 && active}
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="w-48">
+            {FACETS.map(({ key, label }) => {
+              const values = facetCounts(items, filters, key);
+              return (
+                <DropdownMenuSub key={key}>
+                  <DropdownMenuSubTrigger className="text-xs" disabled={values.length === 0}>
+                    {label}
+                    {filters[key].length > 0 && (
+                      <span className="ml-auto text-muted-foreground">{filters[key].length}</span>
+                    )}
+                  </DropdownMenuSubTrigger>
+                  <DropdownMenuSubContent className="max-h-72 overflow-auto">
+                    {values.map(({ value, count }) => (
+                      <DropdownMenuCheckboxItem
+                        key={value}
+                        className="text-xs"
+                        checked={(filters[key] as string[]).includes(value)}
+                        onCheckedChange={() => toggleFacetValue(key, value)}
+                        onSelect={(e) => e.preventDefault()}
+                      >
+                        <span className="truncate">{facetValueLabel(key, value)}</span>
+                        <span className="ml-auto pl-3 text-muted-foreground">{count}</span>
+                      </DropdownMenuCheckboxItem>
+                    ))}
+                    {filters[key].length > 0 && (
+                      <>
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem className="text-xs" onSelect={() => clearFacet(key)}>
+                          Clear {label.toLowerCase()}
+                        </DropdownMenuItem>
+                      </>
+                    )}
+                  </DropdownMenuSubContent>
+                </DropdownMenuSub>
+              );
+            })}
+            {active > 0 && (
+              <>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem className="text-xs" onSelect={clearFilters}>
+                  Clear all filters
+                </DropdownMenuItem>
+              </>
+            )}
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger className="flex items-center h-7 px-2 rounded border border-border text-xs hover:bg-accent">
+            <ArrowUpDown className="w-3.5 h-3.5" />
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="w-44">
+            <DropdownMenuLabel className="text-xs">Group by</DropdownMenuLabel>
+            <DropdownMenuRadioGroup value={groupBy} onValueChange={(value) => setGroupBy(value as GroupBy)}>
+              {GROUP_OPTIONS.map((option) => (
+                <DropdownMenuRadioItem key={option.value} value={option.value} className="text-xs">
+                  {option.label}
+                </DropdownMenuRadioItem>
+              ))}
+            </DropdownMenuRadioGroup>
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel className="text-xs">Sort by</DropdownMenuLabel>
+            <DropdownMenuRadioGroup value={sortBy} onValueChange={(value) => setSortBy(value as SortBy)}>
+              {SORT_OPTIONS.map((option) => (
+                <DropdownMenuRadioItem key={option.value} value={option.value} className="text-xs">
+                  {option.label}
+                </DropdownMenuRadioItem>
+              ))}
+            </DropdownMenuRadioGroup>
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <ViewsMenu />
+      </div>
+
+      {chips.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {chips.map(({ key, value }) => (
+            <button
+              key={`${key}:${value}`}
+              onClick={() => toggleFacetValue(key, value)}
+              className="flex items-center gap-1 px-1.5 py-0.5 rounded bg-accent text-[10px] hover:bg-accent/70"
+            >
+              {facetValueLabel(key, value)}
+              <X className="w-3 h-3" />
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function DiagnosticsPanel() {
+  const { selectedDiagnosticId, selectDiagnostic, openFile } = useDebugStore();
+  const { filters, groupBy, sortBy, collapsedGroups, toggleGroup } = useDiagnosticsViewStore();
+  const { items, suppressed, isLoading, error } = useWorkspaceDiagnostics();
+  const [showSuppressed, setShowSuppressed] = useState(false);
+  const openedId = useRef<string | null>(null);
+  useDiagnosticsViewUrl();
+  useLocationNavigation(items.find((d) => d.id === selectedDiagnosticId));
+  const visible = useMemo(() => sortDiagnostics(filterDiagnostics(items, filters), sortBy), [items, filters, sortBy]);
+  const groups = useMemo(() => groupDiagnostics(visible, groupBy), [visible, groupBy]);
+
+  // Show the selected diagnostic's code, also when it came from a link and
+  // only once per selection so refetches don't scroll the viewer back
+  useEffect(() => {
+    if (!selectedDiagnosticId || openedId.current === selectedDiagnosticId) return;
+    const selected = items.find((d) => d.id === selectedDiagnosticId);
+    if (!selected) return;
+    openedId.current = selected.id;
+    const { file, line, endLine } = selected.location;
+    openFile({ path: file, startLine: line, endLine });
+  }, [selectedDiagnosticId, items, openFile]);
+
+  return (
+    <Panel
+      title="Diagnostics"
+      noPadding
+      actions={
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-muted-foreground font-normal">
+            {visible.length === items.length ? items.length : `${visible.length} of ${items.length}`}
+          </span>
+          <BaselineMenu />
+          <button
+            onClick={() => setShowSuppressed(!showSuppressed)}
+            className={cn(
+              "flex items-center gap-1 px-1.5 py-0.5 rounded text-xs font-normal transition-colors",
+              showSuppressed ? "bg-accent text-foreground" : "text-muted-foreground hover:bg-accent"
+            )}
+            title={showSuppressed ? "Back to diagnostics" : "Suppressed diagnostics"}
+          >
+            <EyeOff className="w-3.5 h-3.5" />
+            {suppressed.length}
+          </button>
+        </div>
+      }
+    >
+      {showSuppressed ? (
+        <SuppressionsView />
+      ) : (
+        <>
+          {error instanceof ContractMismatchError && (
+            <div className="px-3 py-2 text-xs bg-error-muted/30 border-b border-error/30 text-error">
+              Backend contract mismatch in <span className="font-mono">{error.endpoint}</span> at{" "}
+              <span className="font-mono">{error.path}</span>: {error.issues[0]?.message}
+            </div>
+          )}
+          {items.length > 0 && <FilterBar items={items} />}
+          {items.length === 0 && (
+            <p className="px-3 py-6 text-xs text-center text-muted-foreground">
+              {isLoading ? "Loading diagnostics…" : "No diagnostics found"}
+            </p>
+          )}
+          {items.length > 0 && visible.length === 0 && (
+            <p className="px-3 py-6 text-xs text-center text-muted-foreground">
+              No diagnostics match the current filters
+            </p>
+          )}
+          {groups.map((group) => {
+            const collapsed = collapsedGroups.includes(group.key);
+            return (
+              <div key={group.key}>
+                {groupBy !== "none" && (
+                  <GroupHeader group={group} collapsed={collapsed} onToggle={() => toggleGroup(group.key)} />
+                )}
+                {!collapsed && (
+                  <div className="divide-y divide-border">
+                    {group.items.map((diag) => (
+                      <DiagnosticRow
+                        key={diag.id}
+                        diagnostic={diag}
+                        selected={selectedDiagnosticId === diag.id}
+                        onSelect={() => selectDiagnostic(diag.id)}
+                      />
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </>
+      )}
+    </Panel>
+  );
+}
@@ -49,12 +49,20 @@ export function MainApp() {
 function ViewSwitcherNav() {
   const navigate = useNavigate();
   return (
-    <button 
-      onClick={() => navigate("/")}
-      className="text-xs text-muted-foreground hover:text-foreground"
-    >
-      ← Back
-    </button>
+    <div className="flex items-center gap-3">
+      <button 
+        onClick={() => navigate("/settings")}
+        className="text-xs text-muted-foreground hover:text-foreground"
+      >
+        Settings
+      </button>
+      <button 
+        onClick={() => navigate("/")}
+        className="text-xs text-muted-foreground hover:text-foreground"
+      >
+        ← Back
+      </button>
+    </div>
   );
 }
 
@@ -0,0 +1,301 @@
+import { useMemo, useState } from "react";
+import { Boxes, ChevronDown, ChevronRight, FileCode, Folder, FolderOpen, Loader2, Package } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useDebugStore } from "@/store/debugStore";
+import { useDirectory, useMetrics } from "@/hooks/useApi";
+import { useWorkspaceDiagnostics } from "@/hooks/useWorkspaceDiagnostics";
+import { severityInfo } from "@/lib/diagnosticCategories";
+import { compareSourceSets, entriesFromDiagnostics, summarizeByPath, type PathSummary } from "@/lib/fileTree";
+import { withSharedCodeMetrics } from "@/lib/adapters";
+import { buildModuleTree, subtreeIds } from "@/lib/moduleTree";
+import type { DirectoryEntry } from "@/services/api";
+import type { Diagnostic, Module } from "@/types/debug";
+
+/**
+ * Left pane: modules nested by Gradle path, each expanding into its nested
+ * modules, build files and source sets, which expand into the files on disk.
+ * Shared-code figures and diagnostic counts include nested modules.
+ */
+
+interface TreeContext {
+  diagnostics: Diagnostic[];
+  summaries: Map<string, PathSummary>;
+  openPath: string | null;
+  onOpen: (path: string) => void;
+}
+
+const indent = (depth: number) => ({ paddingLeft: `${depth * 12 + 8}px` });
+
+function SummaryBadge({ summary }: { summary?: PathSummary }) {
+  if (!summary) return null;
+  const severity = severityInfo(summary.worst);
+  const Icon = severity.icon;
+  return (
+    <span
+      className={cn("flex items-center gap-0.5 text-[10px] tabular-nums", severity.color)}
+      title={`${summary.count} diagnostic${summary.count === 1 ? "" : "s"}, worst: ${severity.label.toLowerCase()}`}
+    >
+      <Icon className="w-3 h-3" />
+      {summary.count}
+    </span>
+  );
+}
+
+// A directory level from the backend, or what diagnostics reveal of it if listing fails
+function useEntries(path: string | null, diagnostics: Diagnostic[]) {
+  const { data, isLoading, error } = useDirectory(path);
+  const entries = useMemo(
+    () => data?.entries ?? (error && path ? entriesFromDiagnostics(path, diagnostics) : []),
+    [data, error, path, diagnostics]
+  );
+  return { entries, isLoading, listed: !!data };
+}
+
+function EntryNode({ entry, depth, context }: { entry: DirectoryEntry; depth: number; context: TreeContext }) {
+  const [expanded, setExpanded] = useState(false);
+  const summary = context.summaries.get(entry.path);
+
+  if (entry.type === "file") {
+    return (
+      <button
+        onClick={() => context.onOpen(entry.path)}
+        className={cn(
+          "w-full flex items-center gap-1.5 px-2 py-1 text-xs rounded transition-colors hover:bg-accent",
+          context.openPath === entry.path && "bg-accent text-accent-foreground"
+        )}
+        style={indent(depth)}
+        title={entry.path}
+      >
+        <span className="w-3.5 shrink-0" />
+        <FileCode className="w-3.5 h-3.5 shrink-0 text-info" />
+        <span className="font-mono truncate">{entry.name}</span>
+        <span className="ml-auto">
+          <SummaryBadge summary={summary} />
+        </span>
+      </button>
+    );
+  }
+
+  return (
+    <div>
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center gap-1.5 px-2 py-1 text-xs rounded transition-colors hover:bg-accent"
+        style={indent(depth)}
+        title={entry.path}
+      >
+        {expanded ? (
+          <ChevronDown className="w-3.5 h-3.5 shrink-0 text-muted-foreground" />
+        ) : (
+          <ChevronRight className="w-3.5 h-3.5 shrink-0 text-muted-foreground" />
+        )}
+        {expanded ? (
+          <FolderOpen className="w-3.5 h-3.5 shrink-0 text-warning" />
+        ) : (
+          <Folder className="w-3.5 h-3.5 shrink-0 text-warning" />
+        )}
+        <span className="font-mono truncate">{entry.name}</span>
+        <span className="ml-auto">
+          <SummaryBadge summary={summary} />
+        </span>
+      </button>
+      {expanded && <DirectoryChildren path={entry.path} depth={depth + 1} context={context} />}
+    </div>
+  );
+}
+
+function DirectoryChildren({ path, depth, context }: { path: string; depth: number; context: TreeContext }) {
+  const { entries, isLoading } = useEntries(path, context.diagnostics);
+
+  if (isLoading) {
+    return (
+      <div className="py-1" style={indent(depth)}>
+        <Loader2 className="w-3 h-3 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+  if (entries.length === 0) {
+    return (
+      <p className="py-1 text-[10px] text-muted-foreground" style={indent(depth)}>
+        Empty
+      </p>
+    );
+  }
+  return (
+    <>
+      {entries.map((entry) => (
+        <EntryNode key={entry.path} entry={entry} depth={depth} context={context} />
+      ))}
+    </>
+  );
+}
+
+// Build files at the module root, then one folder per source set under src/
+function ModuleContents({ module, depth, context }: { module: Module; depth: number; context: TreeContext }) {
+  const root = useEntries(module.path, context.diagnostics);
+  const sources = useEntries(`${module.path}/src`, context.diagnostics);
+  const buildFiles = root.entries.filter((e) => e.type === "file");
+  const sourceSets = sources.entries.filter((e) => e.type === "directory").sort((a, b) => compareSourceSets(a.name, b.name));
+
+  if (root.isLoading || sources.isLoading) {
+    return (
+      <div className="py-1" style={indent(depth)}>
+        <Loader2 className="w-3 h-3 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+  return (
+    <>
+      {buildFiles.map((entry) => (
+        <EntryNode key={entry.path} entry={entry} depth={depth} context={context} />
+      ))}
+      {sourceSets.map((entry) => (
+        <EntryNode key={entry.path} entry={entry} depth={depth} context={context} />
+      ))}
+      {!root.listed && !sources.listed && (
+        <p className="py-1 text-[10px] text-muted-foreground" style={indent(depth)}>
+          Only files with diagnostics are shown; the backend cannot list directories
+        </p>
+      )}
+    </>
+  );
+}
+
+function ModuleNode({
+  module,
+  depth = 0,
+  context,
+}: {
+  module: Module;
+  depth?: number;
+  context: TreeContext;
+}) {
+  const { selectedModuleId, selectModule } = useDebugStore();
+  const [expanded, setExpanded] = useState(false);
+  const isSelected = module.id === selectedModuleId;
+  const isGroup = module.type === "group";
+  const summary = useMemo(() => {
+    const ids = subtreeIds(module);
+    const inside = context.diagnostics.filter((d) => ids.has(d.location.moduleId));
+    if (inside.length === 0) return undefined;
+    const worst = inside.reduce((w, d) => (severityInfo(d.severity).rank < severityInfo(w).rank ? d.severity : w), inside[0].severity);
+    return { count: inside.length, worst };
+  }, [context.diagnostics, module]);
+  const { expectCount, actualCount } = module;
+
+  return (
+    <div>
+      <button
+        onClick={() => {
+          selectModule(module.id);
+          setExpanded(!expanded);
+        }}
+        className={cn(
+          "w-full flex items-center gap-1.5 px-2 py-1.5 text-sm rounded transition-colors",
+          "hover:bg-accent",
+          isSelected && "bg-accent text-accent-foreground"
+        )}
+        style={indent(depth)}
+        title={module.path}
+      >
+        {expanded ? (
+          <ChevronDown className="w-3.5 h-3.5 shrink-0 text-muted-foreground" />
+        ) : (
+          <ChevronRight className="w-3.5 h-3.5 shrink-0 text-muted-foreground" />
+        )}
+        {isGroup ? (
+          <Boxes className="w-4 h-4 shrink-0 text-muted-foreground" />
+        ) : (
+          <Package className="w-4 h-4 shrink-0 text-primary" />
+        )}
+        <span className="font-mono truncate">{module.name}</span>
+
+        <div className="ml-auto flex items-center gap-1.5">
+          {/* An actual per target is expected, so fewer actuals than expects means some are missing */}
+          {expectCount !== null && actualCount !== null && expectCount + actualCount > 0 && (
+            <span
+              className={cn("text-[10px] font-mono tabular-nums", actualCount < expectCount ? "text-warning" : "text-muted-foreground")}
+              title={`${expectCount} expect declaration${expectCount === 1 ? "" : "s"}, ${actualCount} actual implementation${actualCount === 1 ? "" : "s"}`}
+            >
+              {expectCount}/{actualCount}
+            </span>
+          )}
+          {/* Shared code indicator */}
+          {module.sharedCodePercent !== null && (
+            <div
+              className="w-12 h-1.5 rounded-full bg-muted overflow-hidden"
+              title={
+                `${module.sharedCodePercent}% shared` +
+                (module.totalLines !== null ? `, ${module.sharedLines} of ${module.totalLines} lines` : "") +
+                (module.children?.length ? " with nested modules" : "")
+              }
+            >
+              <div
+                className={cn(
+                  "h-full rounded-full",
+                  module.sharedCodePercent > 80 ? "bg-success" :
+                  module.sharedCodePercent > 50 ? "bg-warning" : "bg-error"
+                )}
+                style={{ width: `${module.sharedCodePercent}%` }}
+              />
+            </div>
+          )}
+          <SummaryBadge summary={summary} />
+        </div>
+      </button>
+
+      {expanded && (
+        <div>
+          {module.children?.map((child) => (
+            <ModuleNode key={child.id} module={child} depth={depth + 1} context={context} />
+          ))}
+          {!isGroup && <ModuleContents module={module} depth={depth + 1} context={context} />}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Repository-wide shared code and expect/actual totals
+function MetricsSummary() {
+  const { data: metrics } = useMetrics();
+  if (!metrics || metrics.totalLinesOfCode === 0) return null;
+
+  return (
+    <p
+      className="px-2 pb-1.5 text-[10px] text-muted-foreground"
+      title={`${metrics.sharedLinesOfCode} of ${metrics.totalLinesOfCode} lines of Kotlin are in common source sets`}
+    >
+      {Math.round(metrics.sharedCodePercentage)}% shared · {metrics.expectDeclarations} expect /{" "}
+      {metrics.actualImplementations} actual
+    </p>
+  );
+}
+
+export function ModuleExplorer() {
+  const { modules, openLocation, openFile } = useDebugStore();
+  const { items: diagnostics } = useWorkspaceDiagnostics();
+  // Fresh metrics from the backend over the ones from the last scan
+  const { data: metrics } = useMetrics();
+  const tree = useMemo(
+    () => buildModuleTree(withSharedCodeMetrics(modules, metrics ?? null), diagnostics),
+    [modules, metrics, diagnostics]
+  );
+  const summaries = useMemo(() => summarizeByPath(diagnostics), [diagnostics]);
+  const context: TreeContext = {
+    diagnostics,
+    summaries,
+    openPath: openLocation?.path ?? null,
+    onOpen: (path) => openFile({ path }),
+  };
+
+  return (
+    <div className="space-y-0.5">
+      {modules.length === 0 && <p className="px-2 py-1.5 text-xs text-muted-foreground">No modules loaded</p>}
+      <MetricsSummary />
+      {tree.map((module) => (
+        <ModuleNode key={module.id} module={module} context={context} />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+import { useEffect, useMemo, useState } from "react";
+import { FileCode, Lightbulb, Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { CodeTokens } from "@/components/ui/code-tokens";
+import { toast } from "@/components/ui/sonner";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useDebugStore } from "@/store/debugStore";
+import { useWorkspaceDiagnostics } from "@/hooks/useWorkspaceDiagnostics";
+import { useFixPreview, useQuickFix, useUndoLastFix, type FixPreviewFile } from "@/hooks/useQuickFix";
+import { useTokenizedLines } from "@/hooks/useTokenizedLines";
+import { diffHunks } from "@/lib/lineDiff";
+import { languageForPath } from "@/lib/languages";
+import { apiErrorTitle } from "@/services/errors";
+import type { Diagnostic } from "@/types/debug";
+
+// Preferred fixes first, then by confidence
+function sortedFixes(diagnostic: Diagnostic | undefined) {
+  return [...(diagnostic?.fixes ?? [])].sort(
+    (a, b) => Number(b.preferred) - Number(a.preferred) || b.confidence - a.confidence
+  );
+}
+
+// Repository root, from a diagnostic whose absolute and relative paths are both known
+function repoRoot(diagnostic: Diagnostic | undefined): string {
+  const { file = "", relativePath = "" } = diagnostic?.location ?? {};
+  return relativePath && file.endsWith(relativePath) ? file.slice(0, file.length - relativePath.length) : "";
+}
+
+// Lightbulb that opens the quick fixes of a diagnostic
+export function QuickFixButton({ diagnostic, className }: { diagnostic: Diagnostic; className?: string }) {
+  const openQuickFix = useDebugStore((s) => s.openQuickFix);
+  const count = diagnostic.fixes.length;
+  return (
+    <button
+      onClick={(e) => {
+        e.stopPropagation();
+        openQuickFix(diagnostic.id);
+      }}
+      className={cn("text-warning hover:text-warning/80", className)}
+      title={`${count} quick fix${count === 1 ? "" : "es"}`}
+    >
+      <Lightbulb className="w-3.5 h-3.5" />
+    </button>
+  );
+}
+
+function FilePatch({ file, label }: { file: FixPreviewFile; label: string }) {
+  const { lexer } = languageForPath(file.path);
+  const beforeLines = useMemo(() => file.before.split("\n"), [file.before]);
+  const afterLines = useMemo(() => file.after.split("\n"), [file.after]);
+  const beforeLexed = useTokenizedLines(beforeLines, lexer);
+  const afterLexed = useTokenizedLines(afterLines, lexer);
+  const hunks = useMemo(() => diffHunks(file.before, file.after), [file.before, file.after]);
+
+  return (
+    <div className="code-block overflow-hidden">
+      <div className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-mono bg-muted/50 border-b border-border">
+        <FileCode className="w-3.5 h-3.5 text-muted-foreground" />
+        <span className="truncate" title={file.path}>{label}</span>
+      </div>
+      {hunks.length === 0 && <div className="px-3 py-2 text-xs text-muted-foreground">No changes</div>}
+      {hunks.map((hunk) => (
+        <div key={`${hunk.oldStart}:${hunk.newStart}`} className="text-xs font-mono">
+          <div className="px-3 py-0.5 text-muted-foreground bg-muted/30">
+            @@ -{hunk.oldStart},{hunk.oldCount} +{hunk.newStart},{hunk.newCount} @@
+          </div>
+          {hunk.lines.map((line, i) => {
+            const tokens =
+              line.type === "remove" ? beforeLexed?.[line.oldLine! - 1]?.tokens : afterLexed?.[line.newLine! - 1]?.tokens;
+            return (
+              <div
+                key={i}
+                className={cn(
+                  "code-line flex px-3 py-0.5",
+                  line.type === "add" && "code-line-added",
+                  line.type === "remove" && "code-line-removed"
+                )}
+              >
+                <span className="code-line-number">{line.type === "remove" ? line.oldLine : line.newLine}</span>
+                <span className="w-4 shrink-0 text-muted-foreground">
+                  {line.type === "add" ? "+" : line.type === "remove" ? "-" : " "}
+                </span>
+                <pre className="flex-1 whitespace-pre">{tokens ? <CodeTokens tokens={tokens} /> : line.content || " "}</pre>
+              </div>
+            );
+          })}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function QuickFixDialog() {
+  const { quickFixDiagnosticId, openQuickFix } = useDebugStore();
+  const { items } = useWorkspaceDiagnostics();
+  const diagnostic = items.find((d) => d.id === quickFixDiagnosticId);
+  const fixes = useMemo(() => sortedFixes(diagnostic), [diagnostic]);
+  const [selected, setSelected] = useState(0);
+  const fix = fixes[selected] ?? null;
+  const preview = useFixPreview(fix);
+  const quickFix = useQuickFix();
+  const undoLastFix = useUndoLastFix();
+  const root = repoRoot(diagnostic);
+
+  // The preferred fix is first, so each newly opened diagnostic starts there
+  useEffect(() => setSelected(0), [quickFixDiagnosticId]);
+
+  const apply = () => {
+    if (!diagnostic || !fix) return;
+    quickFix.apply(diagnostic.id, fix).then(
+      (files) => {
+        openQuickFix(null);
+        toast.success(`Applied "${fix.title}"`, {
+          description: `${files.length} file${files.length === 1 ? "" : "s"} changed`,
+          action: { label: "Undo", onClick: () => void undoLastFix() },
+        });
+      },
+      (e) => toast.error(apiErrorTitle(e), { description: e instanceof Error ? e.message : String(e) })
+    );
+  };
+
+  return (
+    <Dialog open={quickFixDiagnosticId !== null} onOpenChange={(open) => !open && openQuickFix(null)}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Lightbulb className="w-4 h-4 text-warning" />
+            Quick fix
+          </DialogTitle>
+          <DialogDescription>{diagnostic?.title ?? "This diagnostic is no longer reported."}</DialogDescription>
+        </DialogHeader>
+
+        {fixes.length > 0 && (
+          <div className="space-y-1">
+            {fixes.map((f, i) => (
+              <button
+                key={i}
+                onClick={() => setSelected(i)}
+                className={cn(
+                  "w-full flex items-start gap-2 px-3 py-2 rounded border text-left text-sm",
+                  i === selected ? "border-primary bg-accent/50" : "border-border hover:bg-accent/30"
+                )}
+              >
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium truncate">{f.title}</span>
+                    {f.preferred && <span className="text-[10px] uppercase tracking-wider text-success">Preferred</span>}
+                  </div>
+                  {f.description && <p className="text-xs text-muted-foreground">{f.description}</p>}
+                </div>
+                <span className="text-xs font-mono text-muted-foreground shrink-0">{Math.round(f.confidence * 100)}%</span>
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className="max-h-[50vh] overflow-auto space-y-2">
+          {preview.isLoading && (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+            </div>
+          )}
+          {preview.error && (
+            <p className="text-xs text-error">
+              {apiErrorTitle(preview.error)}: {preview.error.message}
+            </p>
+          )}
+          {preview.files.map((file) => (
+            <FilePatch
+              key={file.path}
+              file={file}
+              label={root && file.path.startsWith(root) ? file.path.slice(root.length) : file.path}
+            />
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" size="sm" onClick={() => openQuickFix(null)}>
+            Cancel
+          </Button>
+          <Button
+            size="sm"
+            onClick={apply}
+            disabled={!fix || preview.isLoading || !!preview.error || quickFix.isApplying}
+          >
+            {quickFix.isApplying && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+            Apply{preview.files.length > 1 ? ` to ${preview.files.length} files` : ""}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,17 +1,34 @@
-import { useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { api } from "@/services/api";
 import { Check, X, Pencil, ChevronDown, ChevronUp, Sparkles } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Panel } from "@/components/layout/Panel";
 import { StatusBadge } from "@/components/ui/status-badge";
 import { Button } from "@/components/ui/button";
+import { CodeTokens } from "@/components/ui/code-tokens";
 import { useDebugStore } from "@/store/debugStore";
-import { mockSuggestions } from "@/data/mockData";
+import { useRefactors } from "@/hooks/useApi";
+import { useTokenizedLines } from "@/hooks/useTokenizedLines";
+import { languageForPath } from "@/lib/languages";
+import { toSuggestion } from "@/lib/adapters";
 import type { AIRefactorSuggestion } from "@/types/debug";
 
-function DiffView({ before, after, showFull }: { before: string; after: string; showFull: boolean }) {
-  const beforeLines = before.split("\n");
-  const afterLines = after.split("\n");
+function DiffView({
+  before,
+  after,
+  path,
+  showFull,
+}: {
+  before: string;
+  after: string;
+  path: string;
+  showFull: boolean;
+}) {
+  const { lexer } = languageForPath(path);
+  const beforeLines = useMemo(() => before.split("\n"), [before]);
+  const afterLines = useMemo(() => after.split("\n"), [after]);
+  const beforeLexed = useTokenizedLines(beforeLines, lexer);
+  const afterLexed = useTokenizedLines(afterLines, lexer);
 
   return (
     <div className="grid grid-cols-2 gap-2 text-xs font-mono">
@@ -24,7 +41,7 @@ function DiffView({ before, after, showFull }: { before: string; after: string;
           {(showFull ? beforeLines : beforeLines.slice(0, 6)).map((line, i) => (
             <div key={i} className="code-line code-line-removed px-3 py-0.5">
               <span className="code-line-number text-error/50">{i + 1}</span>
-              <pre className="whitespace-pre">{line}</pre>
+              <pre className="whitespace-pre">{beforeLexed ? <CodeTokens tokens={beforeLexed[i].tokens} /> : line}</pre>
             </div>
           ))}
           {!showFull && beforeLines.length > 6 && (
@@ -44,7 +61,7 @@ function DiffView({ before, after, showFull }: { before: string; after: string;
           {(showFull ? afterLines : afterLines.slice(0, 6)).map((line, i) => (
             <div key={i} className="code-line code-line-added px-3 py-0.5">
               <span className="code-line-number text-success/50">{i + 1}</span>
-              <pre className="whitespace-pre">{line}</pre>
+              <pre className="whitespace-pre">{afterLexed ? <CodeTokens tokens={afterLexed[i].tokens} /> : line}</pre>
             </div>
           ))}
           {!showFull && afterLines.length > 6 && (
@@ -120,6 +137,11 @@ function SuggestionCard({ suggestion }: { suggestion: AIRefactorSuggestion }) {
             <StatusBadge variant="ai" size="sm">
               {Math.round(suggestion.confidence * 100)}% confident
             </StatusBadge>
+            {suggestion.origin === "ai" && (
+              <StatusBadge variant="info" size="sm">
+                On-demand AI
+              </StatusBadge>
+            )}
             {suggestion.status !== "pending" && (
               <StatusBadge 
                 variant={
@@ -155,6 +177,7 @@ function SuggestionCard({ suggestion }: { suggestion: AIRefactorSuggestion }) {
             <DiffView 
               before={suggestion.before} 
               after={suggestion.after}
+              path={suggestion.location?.file ?? ""}
               showFull={showFullDiff}
             />
             <button
@@ -277,8 +300,12 @@ function SuggestionCard({ suggestion }: { suggestion: AIRefactorSuggestion }) {
 }
 
 export function RefactorPanel() {
-  const { suggestions } = useDebugStore();
-  const items = suggestions.length > 0 ? suggestions : mockSuggestions;
+  const { suggestions: items, setSuggestions } = useDebugStore();
+  const { data: refactors, isLoading } = useRefactors();
+
+  useEffect(() => {
+    if (refactors) setSuggestions(refactors.map(toSuggestion));
+  }, [refactors, setSuggestions]);
 
   const pending = items.filter((s) => s.status === "pending").length;
   const applied = items.filter((s) => s.status === "applied").length;
@@ -299,6 +326,11 @@ export function RefactorPanel() {
       </div>
 
       <div className="flex-1 overflow-auto space-y-3">
+        {items.length === 0 && (
+          <p className="py-12 text-sm text-center text-muted-foreground">
+            {isLoading ? "Loading suggestions…" : "No refactor suggestions for this repository"}
+          </p>
+        )}
         {items.map((suggestion) => (
           <SuggestionCard key={suggestion.id} suggestion={suggestion} />
         ))}
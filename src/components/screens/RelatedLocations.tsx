@@ -0,0 +1,92 @@
+import { useMemo, useState } from "react";
+import { ChevronDown, ChevronRight, CornerDownRight, Crosshair } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { CodeTokens } from "@/components/ui/code-tokens";
+import { useDebugStore } from "@/store/debugStore";
+import { useFileContent } from "@/hooks/useApi";
+import { useTokenizedLines } from "@/hooks/useTokenizedLines";
+import { diagnosticLocations, locationLabel, openLocationIndex, toFileLocation } from "@/lib/diagnosticLocations";
+import { languageForPath } from "@/lib/languages";
+import type { Diagnostic, SourceLocation } from "@/types/debug";
+
+// Lines quoted in a peek when the backend sent no snippet
+const PEEK_LINES = 5;
+
+// The snippet the backend quoted, else the covered lines of the file itself
+function LocationPeek({ location }: { location: SourceLocation }) {
+  const { data: content, isLoading } = useFileContent(location.snippet === undefined ? location.file : null);
+  const lines = useMemo(() => {
+    if (location.snippet !== undefined) return location.snippet.split("\n");
+    const end = Math.min(Math.max(location.endLine, location.line), location.line + PEEK_LINES - 1);
+    return content?.content?.split("\n").slice(location.line - 1, end) ?? [];
+  }, [location, content]);
+  const lexed = useTokenizedLines(lines, languageForPath(location.file).lexer);
+
+  if (isLoading) return <div className="px-2 py-1 text-[10px] text-muted-foreground">Loading…</div>;
+  if (lines.length === 0) return <div className="px-2 py-1 text-[10px] text-muted-foreground">No preview available</div>;
+  return (
+    <div className="code-block overflow-x-auto text-[11px] font-mono py-1">
+      {lines.map((line, i) => (
+        <div key={i} className="flex px-2">
+          <span className="w-8 shrink-0 pr-2 text-right text-muted-foreground select-none">{location.line + i}</span>
+          <pre className="whitespace-pre">{lexed ? <CodeTokens tokens={lexed[i].tokens} /> : line || " "}</pre>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function LocationRow({ location, primary, active }: { location: SourceLocation; primary: boolean; active: boolean }) {
+  const openFile = useDebugStore((s) => s.openFile);
+  const [peeking, setPeeking] = useState(false);
+  const Icon = primary ? Crosshair : CornerDownRight;
+
+  return (
+    <li>
+      <div className={cn("flex items-center gap-1 rounded text-xs", active && "bg-accent")}>
+        <button
+          onClick={() => setPeeking(!peeking)}
+          className="p-0.5 text-muted-foreground hover:text-foreground"
+          aria-label={peeking ? "Hide preview" : "Peek"}
+          title={peeking ? "Hide preview" : "Peek"}
+        >
+          {peeking ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+        </button>
+        <button
+          onClick={() => openFile(toFileLocation(location))}
+          className="flex-1 min-w-0 flex items-center gap-1.5 py-0.5 pr-1 text-left hover:text-foreground"
+          title={location.relativePath || location.file}
+        >
+          <Icon className="w-3 h-3 shrink-0 text-muted-foreground" />
+          <span className="font-mono truncate">
+            {location.file.split("/").pop()}:{location.line}
+          </span>
+          <span className="ml-auto shrink-0 text-[10px] text-muted-foreground">{locationLabel(location)}</span>
+        </button>
+      </div>
+      {peeking && (
+        <div className="ml-5 mt-0.5 mb-1">
+          <LocationPeek location={location} />
+        </div>
+      )}
+    </li>
+  );
+}
+
+// A diagnostic's location and its related ones, each openable and peekable;
+// `[` and `]` step through them (see useLocationNavigation)
+export function RelatedLocations({ diagnostic, includePrimary = true }: { diagnostic: Diagnostic; includePrimary?: boolean }) {
+  const openLocation = useDebugStore((s) => s.openLocation);
+  const locations = diagnosticLocations(diagnostic);
+  const active = openLocationIndex(locations, openLocation);
+
+  return (
+    <ul className="space-y-0.5">
+      {locations.map((location, i) =>
+        i === 0 && !includePrimary ? null : (
+          <LocationRow key={i} location={location} primary={i === 0} active={i === active} />
+        )
+      )}
+    </ul>
+  );
+}
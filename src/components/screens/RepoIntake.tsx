@@ -1,13 +1,20 @@
 import { useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
-import { GitBranch, Github, Loader2, ChevronDown, Check, AlertCircle, FolderOpen } from "lucide-react";
+import { GitBranch, Github, Loader2, ChevronDown, Check, AlertCircle, FolderOpen, PlayCircle, Settings } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { cn } from "@/lib/utils";
+import { toScanResult } from "@/lib/adapters";
 import { useDebugStore } from "@/store/debugStore";
+import { useConnectionStore, activeProfile } from "@/store/connectionStore";
+import { useSessionStore } from "@/store/sessionStore";
 import { useHealth, useCloneRepo, useLoadRepo } from "@/hooks/useApi";
+import { useScanProgress } from "@/hooks/useScanProgress";
 import { api } from "@/services/api";
+import { DebugForgeApiError, apiErrorTitle } from "@/services/errors";
+import { parseSessionBundle } from "@/services/session";
 import type { Platform, Repository } from "@/types/debug";
+import { ScanOverlay } from "./ScanOverlay";
 
 // Multiplatform toggles removed for minimal product
 
@@ -16,12 +23,15 @@ const BRANCHES = ["main", "develop", "feature/compose-updates", "release/1.2.0"]
 
 export function RepoIntake() {
   const navigate = useNavigate();
-  const { setRepository, startScan, setScanResult } = useDebugStore();
+  const { setRepository, isScanning, startScan, failScan, clearScanError, setScanResult } = useDebugStore();
+  const { startReplay, stopReplay } = useSessionStore();
   
   // API hooks
   const { data: health, isLoading: healthLoading } = useHealth();
+  const profile = useConnectionStore(activeProfile);
   const cloneRepo = useCloneRepo();
   const loadRepo = useLoadRepo();
+  useScanProgress();
   
   const [repoUrl, setRepoUrl] = useState("");
   const [localPath, setLocalPath] = useState("");
@@ -33,6 +43,7 @@ export function RepoIntake() {
   const [isValid, setIsValid] = useState<boolean | null>(null);
   const [showBranchDropdown, setShowBranchDropdown] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [errorTitle, setErrorTitle] = useState<string | null>(null);
   const [repoMetadata, setRepoMetadata] = useState<{
     name: string;
     owner: string;
@@ -90,14 +101,30 @@ export function RepoIntake() {
 
   // Platform toggle removed for minimal product
 
+  // Fetch diagnostics and modules into the workspace
+  const loadScanResult = async (signal?: AbortSignal) => {
+    const [diagnostics, modules, refactors, metrics] = await Promise.all([
+      api.getDiagnostics(undefined, { signal }),
+      api.getModules({ signal }),
+      api.getRefactors({ signal }),
+      // Without metrics the module tree just has no shared-code figures, so a failure there is not fatal
+      api.getMetrics({ signal }).catch(() => null),
+    ]);
+    // Cancelled while the requests were in flight
+    if (signal?.aborted) return;
+    
+    setScanResult(toScanResult({ modules, diagnostics, refactors, metrics }));
+  };
+
   const handleScan = async () => {
     setError(null);
+    setErrorTitle(null);
     
     try {
       if (inputMode === 'local' && localPath) {
         // Load local repository
-        startScan();
-        const result = await loadRepo.mutateAsync(localPath);
+        const signal = startScan();
+        const result = await loadRepo.mutateAsync({ path: localPath, signal });
         
         const repo: Repository = {
           url: localPath,
@@ -105,59 +132,24 @@ export function RepoIntake() {
           owner: "local",
           branch: result.gitInfo?.branch || "main",
           targets,
+          path: localPath,
         };
         setRepository(repo);
         
-        // Fetch diagnostics and modules
-        const [diagnostics, modules] = await Promise.all([
-          api.getDiagnostics(),
-          api.getModules(),
-        ]);
-        
-        setScanResult({
-          modules: modules.map(m => ({
-            id: m.id,
-            name: m.name,
-            path: m.path,
-            sharedCodePercent: 80,
-            expectCount: 0,
-            actualCount: 0,
-            coverage: 85,
-          })),
-          diagnostics: diagnostics.map(d => ({
-            id: d.id,
-            severity: d.severity.toLowerCase() as "error" | "warning" | "info",
-            category: d.category as any,
-            title: d.message,
-            description: d.explanation || d.message,
-            location: {
-              file: d.location.filePath,
-              line: d.location.startLine,
-              column: d.location.startColumn,
-            },
-            platforms: targets,
-          })),
-          suggestions: [],
-          stats: {
-            totalFiles: modules.length * 10,
-            sharedFiles: modules.length * 8,
-            platformSpecificFiles: modules.length * 2,
-            errorsCount: diagnostics.filter(d => d.severity === 'ERROR').length,
-            warningsCount: diagnostics.filter(d => d.severity === 'WARNING').length,
-            suggestionsCount: 0,
-          },
-        });
+        await loadScanResult(signal);
+        if (signal.aborted) return;
         
         navigate("/workspace");
       } else if (inputMode === 'github' && repoMetadata) {
         // Clone GitHub repository
         const targetPath = `./repos/${repoMetadata.owner}/${repoMetadata.name}`;
         
-        startScan();
-        await cloneRepo.mutateAsync({
+        const signal = startScan();
+        const result = await cloneRepo.mutateAsync({
           url: repoUrl,
           targetPath,
           branch,
+          signal,
         });
         
         const repo: Repository = {
@@ -168,13 +160,42 @@ export function RepoIntake() {
           targets,
           stars: repoMetadata.stars,
           lastCommit: repoMetadata.lastCommit,
+          path: result.path || targetPath,
         };
         
         setRepository(repo);
+        
+        await loadScanResult(signal);
+        if (signal.aborted) return;
+        
         navigate("/workspace");
       }
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to load repository");
+      // Cancelled from the scan overlay, which already reset the scan
+      if (err instanceof DebugForgeApiError && err.code === "ABORTED") return;
+      const message = err instanceof Error ? err.message : "Failed to load repository";
+      failScan(message);
+      setErrorTitle(err instanceof DebugForgeApiError ? apiErrorTitle(err) : null);
+      setError(message);
+    }
+  };
+
+  // Open an exported session and browse it without a backend
+  const replayRecording = async (file: File) => {
+    setError(null);
+    setErrorTitle(null);
+    clearScanError();
+
+    try {
+      const bundle = parseSessionBundle(await file.text());
+      startReplay(bundle);
+      if (bundle.repository) setRepository(bundle.repository);
+      await loadScanResult();
+      navigate("/workspace");
+    } catch (err) {
+      stopReplay();
+      setErrorTitle(err instanceof DebugForgeApiError ? apiErrorTitle(err) : "Could not replay recording");
+      setError(err instanceof Error ? err.message : "Invalid session file");
     }
   };
 
@@ -191,21 +212,37 @@ export function RepoIntake() {
             <span className="text-xs text-muted-foreground font-mono">v0.9.0-beta</span>
           </div>
           {/* Backend Status */}
-          <div className={cn(
-            "flex items-center gap-2 px-3 py-1.5 rounded-full text-xs font-medium",
-            backendConnected 
-              ? "bg-success-muted text-success" 
-              : "bg-error-muted text-error"
-          )}>
-            <div className={cn(
-              "w-2 h-2 rounded-full",
-              backendConnected ? "bg-success" : "bg-error"
-            )} />
-            {backendConnected ? "Backend Connected" : "Backend Offline"}
+          <div className="flex items-center gap-2">
+            <div
+              className={cn(
+                "flex items-center gap-2 px-3 py-1.5 rounded-full text-xs font-medium",
+                backendConnected 
+                  ? "bg-success-muted text-success" 
+                  : "bg-error-muted text-error"
+              )}
+              title={profile.baseUrl}
+            >
+              <div className={cn(
+                "w-2 h-2 rounded-full",
+                backendConnected ? "bg-success" : "bg-error"
+              )} />
+              {backendConnected ? "Backend Connected" : "Backend Offline"}
+              <span className="opacity-70">· {profile.name}</span>
+            </div>
+            <button
+              onClick={() => navigate("/settings")}
+              className="p-1.5 rounded text-muted-foreground hover:text-foreground hover:bg-accent"
+              aria-label="Backend connection settings"
+            >
+              <Settings className="w-4 h-4" />
+            </button>
           </div>
         </div>
       </header>
 
+      {/* Scanning overlay */}
+      {isScanning && <ScanOverlay />}
+
       {/* Main content */}
       <main className="flex-1 flex items-center justify-center p-8">
         <div className="w-full max-w-2xl space-y-8">
@@ -220,6 +257,7 @@ export function RepoIntake() {
           {/* Error display */}
           {error && (
             <div className="p-4 bg-error-muted border border-error rounded-md">
+              {errorTitle && <p className="text-sm font-medium text-error">{errorTitle}</p>}
               <p className="text-sm text-error">{error}</p>
             </div>
           )}
@@ -403,6 +441,21 @@ export function RepoIntake() {
             Analysis includes KSP static checks, expect/actual coverage, 
             and AI-powered refactoring suggestions.
           </p>
+
+          <label className="block text-xs text-muted-foreground text-center cursor-pointer hover:text-foreground">
+            <PlayCircle className="w-3.5 h-3.5 inline mr-1.5 -mt-0.5" />
+            Replay a recorded session…
+            <input
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = "";
+                if (file) replayRecording(file);
+              }}
+            />
+          </label>
         </div>
       </main>
     </div>
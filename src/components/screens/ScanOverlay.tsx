@@ -0,0 +1,88 @@
+import { useState, useEffect } from "react";
+import { cn } from "@/lib/utils";
+import { useDebugStore } from "@/store/debugStore";
+import { SCAN_STAGES, scanStageLabel } from "@/lib/scanProgress";
+
+// Stage, progress and elapsed time of the running scan, with a way to cancel it
+export function ScanOverlay() {
+  const { scanStatus, scanProgress, scanStartedAt, cancelScan } = useDebugStore();
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const stage = scanStatus?.stage ?? "waiting";
+  const stageIndex = SCAN_STAGES.findIndex((s) => s.stage === stage);
+  const elapsed = scanStartedAt ? Math.max(0, Math.round((now - scanStartedAt) / 1000)) : 0;
+  const indeterminate = stage === "waiting" || stage === "loading";
+
+  return (
+    <div className="absolute inset-0 bg-background/80 backdrop-blur-sm z-50 flex items-center justify-center">
+      <div className="w-80 space-y-4">
+        <div className="flex items-center justify-between text-[10px] uppercase tracking-wider">
+          {SCAN_STAGES.map((s, i) => (
+            <span
+              key={s.stage}
+              className={cn(
+                i === stageIndex
+                  ? "text-primary font-medium"
+                  : i < stageIndex
+                    ? "text-foreground"
+                    : "text-muted-foreground"
+              )}
+            >
+              {s.label}
+            </span>
+          ))}
+        </div>
+
+        <div className="relative w-full h-1 bg-muted rounded-full overflow-hidden">
+          <div
+            className={cn(
+              "absolute inset-y-0 left-0 bg-primary transition-all duration-200",
+              indeterminate && "animate-pulse"
+            )}
+            style={{ width: indeterminate ? "100%" : `${scanProgress}%` }}
+          />
+        </div>
+
+        <div className="space-y-1 text-center">
+          <p className="text-sm">
+            {scanStageLabel(stage)}
+            {scanStatus?.phase && <span className="text-muted-foreground"> · {scanStatus.phase}</span>}
+            {!indeterminate && <span className="text-muted-foreground"> · {Math.round(scanProgress)}%</span>}
+          </p>
+          {scanStatus?.detail && (
+            <p className="text-xs font-mono text-muted-foreground truncate" title={scanStatus.detail}>
+              {scanStatus.detail}
+            </p>
+          )}
+          <p className="text-xs text-muted-foreground">
+            {scanStatus?.filesProcessed !== undefined && (
+              <>
+                {scanStatus.filesProcessed}
+                {scanStatus.totalFiles ? ` / ${scanStatus.totalFiles}` : ""} files
+                {" • "}
+              </>
+            )}
+            {scanStatus?.diagnosticsFound !== undefined && (
+              <>{scanStatus.diagnosticsFound} diagnostics • </>
+            )}
+            {elapsed}s elapsed
+          </p>
+        </div>
+
+        <div className="flex justify-center">
+          <button
+            onClick={cancelScan}
+            className="px-3 py-1.5 text-xs rounded border border-border hover:bg-accent"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,238 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Download, EyeOff, Undo2, Upload } from "lucide-react";
+import { cn, downloadJson } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "@/components/ui/sonner";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useDebugStore } from "@/store/debugStore";
+import { useSuppressionStore } from "@/store/suppressionStore";
+import { useRepositorySuppressions, useWorkspaceDiagnostics } from "@/hooks/useWorkspaceDiagnostics";
+import {
+  createSuppression,
+  matchesSuppression,
+  parseSuppressionsFile,
+  scopeLabel,
+  SUPPRESSION_SCOPES,
+  SUPPRESSIONS_FILE_NAME,
+  toSuppressionsFile,
+  type SuppressionScope,
+} from "@/lib/suppressions";
+import type { Diagnostic } from "@/types/debug";
+
+// Opens the suppress dialog for a diagnostic
+export function SuppressButton({ diagnostic, className }: { diagnostic: Diagnostic; className?: string }) {
+  const openSuppress = useDebugStore((s) => s.openSuppress);
+  return (
+    <button
+      onClick={(e) => {
+        e.stopPropagation();
+        openSuppress(diagnostic.id);
+      }}
+      className={cn("text-muted-foreground hover:text-foreground", className)}
+      title="Suppress…"
+    >
+      <EyeOff className="w-3.5 h-3.5" />
+    </button>
+  );
+}
+
+export function SuppressDialog() {
+  const { suppressDiagnosticId, openSuppress } = useDebugStore();
+  const { items } = useWorkspaceDiagnostics();
+  const { repoKey } = useRepositorySuppressions();
+  const { author: savedAuthor, suppress, setAuthor } = useSuppressionStore();
+  const diagnostic = items.find((d) => d.id === suppressDiagnosticId);
+  const [scope, setScope] = useState<SuppressionScope>("occurrence");
+  const [reason, setReason] = useState("");
+  const [author, setAuthorInput] = useState(savedAuthor);
+
+  // Each dialog starts narrow, with no reason carried over from the last one
+  useEffect(() => {
+    setScope("occurrence");
+    setReason("");
+  }, [suppressDiagnosticId]);
+  useEffect(() => setAuthorInput(savedAuthor), [savedAuthor]);
+
+  const target = diagnostic && {
+    category: diagnostic.category,
+    file: diagnostic.location.relativePath || diagnostic.location.file,
+    moduleId: diagnostic.location.moduleId,
+  };
+  const matching = useMemo(() => {
+    if (!diagnostic) return 0;
+    const preview = createSuppression(diagnostic, scope, reason, author);
+    return items.filter((d) => matchesSuppression(preview, d)).length;
+  }, [diagnostic, scope, reason, author, items]);
+
+  const submit = () => {
+    if (!diagnostic || !reason.trim()) return;
+    suppress(repoKey, createSuppression(diagnostic, scope, reason.trim(), author.trim()));
+    setAuthor(author.trim());
+    openSuppress(null);
+    toast.success(`Suppressed ${matching} diagnostic${matching === 1 ? "" : "s"}`, {
+      description: scopeLabel(scope, target!),
+    });
+  };
+
+  return (
+    <Dialog open={suppressDiagnosticId !== null} onOpenChange={(open) => !open && openSuppress(null)}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Suppress diagnostic</DialogTitle>
+          <DialogDescription>{diagnostic?.title ?? "This diagnostic is no longer reported."}</DialogDescription>
+        </DialogHeader>
+        {target && (
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              submit();
+            }}
+          >
+            <RadioGroup value={scope} onValueChange={(value) => setScope(value as SuppressionScope)} className="gap-2">
+              {SUPPRESSION_SCOPES.map((s) => (
+                <div key={s} className="flex items-center gap-2">
+                  <RadioGroupItem value={s} id={`scope-${s}`} />
+                  <Label htmlFor={`scope-${s}`} className="text-sm font-normal">
+                    {scopeLabel(s, target)}
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+            <div className="space-y-1.5">
+              <Label htmlFor="suppress-reason" className="text-xs">
+                Reason
+              </Label>
+              <Textarea
+                id="suppress-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Why is this acceptable? Reviewers will read this."
+                rows={3}
+                autoFocus
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="suppress-author" className="text-xs">
+                Your name
+              </Label>
+              <Input id="suppress-author" value={author} onChange={(e) => setAuthorInput(e.target.value)} />
+            </div>
+            <DialogFooter className="items-center">
+              <span className="mr-auto text-xs text-muted-foreground">
+                Hides {matching} current diagnostic{matching === 1 ? "" : "s"}
+              </span>
+              <Button type="button" variant="outline" size="sm" onClick={() => openSuppress(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" size="sm" disabled={!reason.trim()}>
+                Suppress
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Audit view: every suppression of the repository, with what it hides and an undo
+export function SuppressionsView() {
+  const { suppressed } = useWorkspaceDiagnostics();
+  const { repoKey, suppressions, checkedIn } = useRepositorySuppressions();
+  const { unsuppress, importSuppressions } = useSuppressionStore();
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const importFile = async (file: File) => {
+    try {
+      const imported = parseSuppressionsFile(await file.text());
+      importSuppressions(repoKey, imported.suppressions);
+      toast.success(`Imported ${imported.suppressions.length} suppression${imported.suppressions.length === 1 ? "" : "s"}`);
+    } catch (e) {
+      toast.error("Could not import suppressions", { description: e instanceof Error ? e.message : String(e) });
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center gap-1.5 px-3 py-2 border-b border-border text-xs">
+        <span className="text-muted-foreground" title={`Check the export in as ${SUPPRESSIONS_FILE_NAME}`}>
+          {SUPPRESSIONS_FILE_NAME}
+        </span>
+        <button
+          onClick={() => downloadJson(SUPPRESSIONS_FILE_NAME.split("/").pop()!, toSuppressionsFile(suppressions))}
+          disabled={suppressions.length === 0}
+          className="ml-auto flex items-center gap-1 px-1.5 py-0.5 rounded hover:bg-accent disabled:opacity-50"
+        >
+          <Download className="w-3.5 h-3.5" />
+          Export
+        </button>
+        <button
+          onClick={() => fileInput.current?.click()}
+          className="flex items-center gap-1 px-1.5 py-0.5 rounded hover:bg-accent"
+        >
+          <Upload className="w-3.5 h-3.5" />
+          Import
+        </button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) void importFile(file);
+            e.target.value = "";
+          }}
+        />
+      </div>
+
+      {suppressions.length === 0 && (
+        <p className="px-3 py-6 text-xs text-center text-muted-foreground">No suppressions for this repository</p>
+      )}
+      <ul className="divide-y divide-border">
+        {suppressions.map((suppression) => {
+          const hidden = suppressed.filter((d) => matchesSuppression(suppression, d)).length;
+          return (
+            <li key={suppression.id} className="px-3 py-2 space-y-1">
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-medium truncate">{scopeLabel(suppression.scope, suppression)}</span>
+                <span className="text-[10px] uppercase tracking-wider text-muted-foreground">{suppression.scope}</span>
+                {checkedIn.has(suppression.id) ? (
+                  <span
+                    className="ml-auto text-[10px] text-muted-foreground"
+                    title={`Remove it from ${SUPPRESSIONS_FILE_NAME} to unsuppress`}
+                  >
+                    checked in
+                  </span>
+                ) : (
+                  <button
+                    onClick={() => unsuppress(repoKey, suppression.id)}
+                    className="ml-auto flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+                    title="Unsuppress"
+                  >
+                    <Undo2 className="w-3.5 h-3.5" />
+                  </button>
+                )}
+              </div>
+              {suppression.message && (
+                <p className="text-xs truncate" title={suppression.message}>
+                  {suppression.message}
+                  {suppression.line !== undefined && <span className="text-muted-foreground"> · Ln {suppression.line}</span>}
+                </p>
+              )}
+              <p className="text-xs text-muted-foreground italic">“{suppression.reason}”</p>
+              <p className="text-[10px] text-muted-foreground">
+                {suppression.author || "Unknown"} · {new Date(suppression.createdAt).toLocaleString()} · hides {hidden}
+              </p>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
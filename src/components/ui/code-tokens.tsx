@@ -0,0 +1,14 @@
+import { tokenClassName, type Token } from "@/lib/syntaxHighlight";
+
+// One line of lexed code; token text is rendered as text, never as HTML
+export function CodeTokens({ tokens }: { tokens: Token[] }) {
+  return (
+    <>
+      {tokens.map((token) => (
+        <span key={token.column} className={tokenClassName(token.type)}>
+          {token.text}
+        </span>
+      ))}
+    </>
+  );
+}
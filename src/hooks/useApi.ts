@@ -1,26 +1,32 @@
 /**
  * React hooks for DebugForge API integration
  */
+import { useSyncExternalStore } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { api, type DiagnosticResponse, type RefactorSuggestion, type RepoInfo, type ModuleInfo } from '@/services/api';
+import { api, liveSocket, type AIAnalyzeRequest, type DiagnosticResponse, type RefactorSuggestion, type RepoInfo, type ModuleInfo } from '@/services/api';
+import { toTextEditDto } from '@/lib/adapters';
+import type { TextEdit } from '@/types/debug';
 
 // Query keys
 export const queryKeys = {
   health: ['health'] as const,
   state: ['state'] as const,
   modules: ['modules'] as const,
+  allDiagnostics: ['diagnostics'] as const,
   diagnostics: (filters?: Record<string, unknown>) => ['diagnostics', filters] as const,
   refactors: ['refactors'] as const,
   metrics: ['metrics'] as const,
   previews: ['previews'] as const,
+  file: (path: string | null) => ['file', path] as const,
+  fileAtRevision: (path: string | null, revision: string) => ['file', path, revision] as const,
+  directory: (path: string | null) => ['directory', path] as const,
 };
 
 // Health check hook
 export function useHealth() {
   return useQuery({
     queryKey: queryKeys.health,
-    queryFn: () => api.health(),
-    retry: 3,
+    queryFn: ({ signal }) => api.health({ signal }),
     refetchInterval: 30000, // Check every 30s
   });
 }
@@ -29,7 +35,7 @@ export function useHealth() {
 export function useAppState() {
   return useQuery({
     queryKey: queryKeys.state,
-    queryFn: () => api.getState(),
+    queryFn: ({ signal }) => api.getState({ signal }),
     refetchInterval: 5000, // Refresh every 5s
   });
 }
@@ -38,20 +44,57 @@ export function useAppState() {
 export function useModules() {
   return useQuery({
     queryKey: queryKeys.modules,
-    queryFn: () => api.getModules(),
+    queryFn: ({ signal }) => api.getModules({ signal }),
   });
 }
 
-// Diagnostics hook
+// Diagnostics hook; live events keep it current, so it polls only while the stream is down
 export function useDiagnostics(filters?: {
   severity?: string[];
   category?: string[];
   module?: string;
 }) {
+  const connection = useSyncExternalStore(
+    (onChange) => liveSocket.onConnectionChange(onChange),
+    () => liveSocket.getConnectionState(),
+  );
   return useQuery({
     queryKey: queryKeys.diagnostics(filters),
-    queryFn: () => api.getDiagnostics(filters),
-    refetchInterval: 10000, // Refresh every 10s
+    queryFn: ({ signal }) => api.getDiagnostics(filters, { signal }),
+    refetchInterval: connection === 'open' ? false : 10000, // Refresh every 10s
+  });
+}
+
+// File content hook; recently opened files stay cached so switching back is instant
+export function useFileContent(path: string | null) {
+  return useQuery({
+    queryKey: queryKeys.file(path),
+    queryFn: ({ signal }) => api.readFile(path!, { signal }),
+    enabled: !!path,
+    staleTime: 60000,
+    gcTime: 5 * 60000,
+  });
+}
+
+// A file as committed; no retries since untracked files and servers without git answer 404
+export function useFileAtRevision(path: string | null, revision = 'HEAD') {
+  return useQuery({
+    queryKey: queryKeys.fileAtRevision(path, revision),
+    queryFn: ({ signal }) => api.readFileAtRevision(path!, revision, { signal }),
+    enabled: !!path,
+    retry: false,
+    staleTime: 60000,
+  });
+}
+
+// Directory listing hook, fetched when a folder is first expanded
+export function useDirectory(path: string | null) {
+  return useQuery({
+    queryKey: queryKeys.directory(path),
+    queryFn: ({ signal }) => api.listDirectory(path!, { signal }),
+    enabled: !!path,
+    staleTime: 60000,
+    retry: false,
   });
 }
 
@@ -59,7 +102,7 @@ export function useDiagnostics(filters?: {
 export function useRefactors() {
   return useQuery({
     queryKey: queryKeys.refactors,
-    queryFn: () => api.getRefactors(),
+    queryFn: ({ signal }) => api.getRefactors({ signal }),
   });
 }
 
@@ -67,7 +110,7 @@ export function useRefactors() {
 export function useMetrics() {
   return useQuery({
     queryKey: queryKeys.metrics,
-    queryFn: () => api.getMetrics(),
+    queryFn: ({ signal }) => api.getMetrics({ signal }),
     refetchInterval: 15000,
   });
 }
@@ -76,7 +119,7 @@ export function useMetrics() {
 export function usePreviews() {
   return useQuery({
     queryKey: queryKeys.previews,
-    queryFn: () => api.getPreviews(),
+    queryFn: ({ signal }) => api.getPreviews({ signal }),
   });
 }
 
@@ -85,7 +128,7 @@ export function useLoadRepo() {
   const queryClient = useQueryClient();
   
   return useMutation({
-    mutationFn: (path: string) => api.loadRepo(path),
+    mutationFn: ({ path, signal }: { path: string; signal?: AbortSignal }) => api.loadRepo(path, { signal }),
     onSuccess: () => {
       // Invalidate all queries to refresh data
       queryClient.invalidateQueries({ queryKey: queryKeys.state });
@@ -102,8 +145,8 @@ export function useCloneRepo() {
   const queryClient = useQueryClient();
   
   return useMutation({
-    mutationFn: ({ url, targetPath, branch }: { url: string; targetPath: string; branch?: string }) =>
-      api.cloneRepo(url, targetPath, branch),
+    mutationFn: ({ url, targetPath, branch, signal }: { url: string; targetPath: string; branch?: string; signal?: AbortSignal }) =>
+      api.cloneRepo(url, targetPath, branch, { signal }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: queryKeys.state });
       queryClient.invalidateQueries({ queryKey: queryKeys.modules });
@@ -125,7 +168,8 @@ export function useRefreshRepo() {
   });
 }
 
-// Suppress diagnostic mutation
+// Suppress diagnostic mutation. Unused: the server forgets these on restart and
+// cannot undo them, so suppressions are kept client-side (see suppressionStore)
 export function useSuppressDiagnostic() {
   const queryClient = useQueryClient();
   
@@ -150,6 +194,23 @@ export function useApplyRefactor() {
   });
 }
 
+// Apply text edits, then have the server rescan the files they touched
+export function useApplyEdits() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (edits: TextEdit[]) => {
+      const result = await api.applyEdits(edits.map(toTextEditDto));
+      await api.reportFileChanges(result.appliedFiles);
+      return result;
+    },
+    onSuccess: ({ appliedFiles }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.diagnostics() });
+      appliedFiles.forEach((path) => queryClient.invalidateQueries({ queryKey: queryKeys.file(path) }));
+    },
+  });
+}
+
 // Dismiss refactor mutation
 export function useDismissRefactor() {
   const queryClient = useQueryClient();
@@ -162,6 +223,13 @@ export function useDismissRefactor() {
   });
 }
 
+// AI analysis mutation (results are not cached; each run asks the model again)
+export function useAnalyzeWithAI() {
+  return useMutation({
+    mutationFn: (request: AIAnalyzeRequest) => api.analyzeWithAI(request),
+  });
+}
+
 // Start preview mutation
 export function useStartPreview() {
   const queryClient = useQueryClient();
@@ -0,0 +1,31 @@
+/**
+ * Keeps the active diagnostics view in the URL so a link reproduces it
+ */
+import { useEffect, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useDebugStore } from '@/store/debugStore';
+import { useDiagnosticsViewStore } from '@/store/diagnosticsViewStore';
+import { readViewParams, writeViewParams } from '@/lib/diagnosticViews';
+
+export function useDiagnosticsViewUrl() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { filters, groupBy, sortBy, applyView } = useDiagnosticsViewStore();
+  const { selectedDiagnosticId, selectDiagnostic } = useDebugStore();
+  const linkRead = useRef(false);
+
+  useEffect(() => {
+    // On first render a shared link wins over the view already in the store
+    if (!linkRead.current) {
+      linkRead.current = true;
+      const linked = readViewParams(searchParams);
+      if (linked) {
+        applyView(linked.view);
+        if (linked.selectedId) selectDiagnostic(linked.selectedId);
+        return;
+      }
+    }
+
+    const next = writeViewParams(searchParams, { filters, groupBy, sortBy }, selectedDiagnosticId);
+    if (next.toString() !== searchParams.toString()) setSearchParams(next, { replace: true });
+  }, [filters, groupBy, sortBy, selectedDiagnosticId, searchParams, setSearchParams, applyView, selectDiagnostic]);
+}
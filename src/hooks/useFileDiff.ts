@@ -0,0 +1,45 @@
+/**
+ * Working-tree changes of the open file, against git HEAD when the backend
+ * can serve it and otherwise against the file as it was at the last scan
+ */
+import { useEffect, useMemo } from 'react';
+import { useFileAtRevision } from '@/hooks/useApi';
+import { useDebugStore } from '@/store/debugStore';
+import { lineChanges, type LineChanges } from '@/lib/lineDiff';
+
+export type DiffBase = 'head' | 'scan';
+
+export interface FileDiff {
+  base: DiffBase;
+  changes: LineChanges;
+  added: number;
+  removed: number;
+}
+
+export function useFileDiff(path: string | null, content: string | null, enabled: boolean) {
+  const { scanSnapshots, recordSnapshot } = useDebugStore();
+  const head = useFileAtRevision(enabled ? path : null);
+
+  // Remember every file as first seen, so there is a base even without git
+  useEffect(() => {
+    if (path && content !== null) recordSnapshot(path, content);
+  }, [path, content, recordSnapshot]);
+
+  const headContent = head.data && !head.data.binary && !head.data.truncated ? head.data.content : null;
+  const snapshot = path ? scanSnapshots[path] ?? null : null;
+  const base: DiffBase | null = headContent !== null ? 'head' : head.isError && snapshot !== null ? 'scan' : null;
+  const baseContent = base === 'head' ? headContent : base === 'scan' ? snapshot : null;
+
+  const diff = useMemo((): FileDiff | null => {
+    if (!enabled || base === null || baseContent === null || content === null) return null;
+    const changes = lineChanges(baseContent, content);
+    let removed = 0;
+    changes.removed.forEach((lines) => (removed += lines.length));
+    return { base, changes, added: changes.changed.size, removed };
+  }, [enabled, base, baseContent, content]);
+
+  // Neither HEAD nor a snapshot to compare with, e.g. a backend without git
+  const unavailable = enabled && head.isError && snapshot === null;
+
+  return { diff, isLoading: enabled && head.isLoading, unavailable };
+}
@@ -0,0 +1,141 @@
+/**
+ * Watch mode for local repositories: edits made in the IDE are batched and
+ * reported to the backend, which re-analyzes the files and streams their
+ * diagnostics back over the live channel.
+ */
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { toast } from '@/components/ui/sonner';
+import { api } from '@/services/api';
+import { apiErrorTitle } from '@/services/errors';
+import {
+  canPickFolder,
+  hasDevWatcher,
+  pickFolder,
+  watchFolder,
+  watchOnDevServer,
+  type FolderWatchSource,
+} from '@/services/folderWatcher';
+import { useDebugStore } from '@/store/debugStore';
+import { queryKeys } from './useApi';
+import { useLiveEvents } from './useLiveSocket';
+
+// Saving in an IDE touches files in bursts; wait for it to settle
+const DEBOUNCE_MS = 400;
+// Stop showing a file as re-analyzing if the backend never reports on it
+const REANALYZE_TIMEOUT_MS = 15000;
+
+// Event paths may be absolute or relative to the repository
+function samePath(a: string, b: string): boolean {
+  return a === b || a.endsWith(`/${b}`) || b.endsWith(`/${a}`);
+}
+
+export function useFolderWatch() {
+  const queryClient = useQueryClient();
+  const repository = useDebugStore((s) => s.repository);
+  const root = repository?.owner === 'local' ? repository.url.replace(/[\\/]+$/, '') : null;
+  const [source, setSource] = useState<FolderWatchSource | null>(null);
+  const [reanalyzing, setReanalyzing] = useState<string[]>([]);
+  const stopWatching = useRef<(() => void) | null>(null);
+  const pending = useRef(new Set<string>());
+  const timers = useRef(new Set<ReturnType<typeof setTimeout>>());
+  const debounce = useRef<ReturnType<typeof setTimeout>>();
+
+  const later = (run: () => void, ms: number) => {
+    const timer = setTimeout(() => {
+      timers.current.delete(timer);
+      run();
+    }, ms);
+    timers.current.add(timer);
+  };
+
+  const settle = useCallback((paths: string[]) => {
+    setReanalyzing((current) => current.filter((path) => !paths.some((p) => samePath(p, path))));
+  }, []);
+
+  const report = async () => {
+    const paths = [...pending.current];
+    pending.current.clear();
+    if (paths.length === 0) return;
+
+    setReanalyzing((current) => [...new Set([...current, ...paths])]);
+    later(() => settle(paths), REANALYZE_TIMEOUT_MS);
+    paths.forEach((path) => queryClient.invalidateQueries({ queryKey: queryKeys.file(path) }));
+    try {
+      await api.reportFileChanges(paths);
+    } catch (e) {
+      settle(paths);
+      toast.error(apiErrorTitle(e), { description: e instanceof Error ? e.message : String(e) });
+    }
+  };
+
+  const onChange = (relativePaths: string[]) => {
+    relativePaths.forEach((path) => pending.current.add(`${root}/${path}`));
+    clearTimeout(debounce.current);
+    debounce.current = setTimeout(() => void report(), DEBOUNCE_MS);
+  };
+
+  const stop = useCallback(() => {
+    stopWatching.current?.();
+    stopWatching.current = null;
+    clearTimeout(debounce.current);
+    pending.current.clear();
+    setSource(null);
+  }, []);
+
+  const onError = (e: unknown) => {
+    stop();
+    toast.error('Stopped watching the repository', { description: e instanceof Error ? e.message : String(e) });
+  };
+
+  const start = async () => {
+    if (!root || stopWatching.current) return;
+    if (canPickFolder()) {
+      let dir: FileSystemDirectoryHandle | null;
+      try {
+        dir = await pickFolder();
+      } catch (e) {
+        onError(e);
+        return;
+      }
+      if (!dir) return;
+      // Reported paths are built from the loaded root, so the folders must match
+      const expected = root.split(/[\\/]/).pop();
+      if (dir.name !== expected) {
+        toast.error(`Pick the "${expected}" folder`, { description: `"${dir.name}" is not the loaded repository` });
+        return;
+      }
+      stopWatching.current = watchFolder(dir, onChange, onError);
+      setSource('folder');
+    } else if (hasDevWatcher(root)) {
+      stopWatching.current = watchOnDevServer(root, onChange, onError);
+      setSource('dev-server');
+    }
+  };
+
+  // Re-analysis of a file starts by clearing its diagnostics
+  useLiveEvents((event) => {
+    if (event.kind !== 'diagnostic') return;
+    const { type, filePath, diagnostic } = event.event;
+    if (type === 'FileClear' && filePath) settle([filePath]);
+    if (type === 'Added' && diagnostic) settle([diagnostic.location.filePath]);
+  });
+
+  // A watch belongs to the repository it was started for
+  useEffect(() => stop, [root, stop]);
+
+  useEffect(() => {
+    const pendingTimers = timers.current;
+    return () => pendingTimers.forEach(clearTimeout);
+  }, []);
+
+  return {
+    // Local repositories only, in a browser or dev server that can watch them
+    available: root !== null && (canPickFolder() || hasDevWatcher(root)),
+    watching: source !== null,
+    source,
+    reanalyzing,
+    start,
+    stop,
+  };
+}
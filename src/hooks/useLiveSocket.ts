@@ -0,0 +1,191 @@
+/**
+ * React hooks for the DebugForge live channel
+ */
+import { useEffect, useRef, useSyncExternalStore } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { liveSocket, type DiagnosticEvent, type DiagnosticResponse } from '@/services/api';
+import type { LiveConnectionState, LiveEvent } from '@/services/liveSocket';
+import { useSessionStore } from '@/store/sessionStore';
+import { useDebugStore } from '@/store/debugStore';
+import { useLiveDiagnosticsStore } from '@/store/liveDiagnosticsStore';
+import { applyDiagnosticEvents, sameFinding } from '@/lib/diagnosticEvents';
+import { queryKeys } from './useApi';
+
+let consumers = 0;
+
+// Keep the socket open while at least one component uses it
+function retainSocket(): () => void {
+  consumers += 1;
+  if (consumers === 1) liveSocket.connect();
+  return () => {
+    consumers -= 1;
+    if (consumers === 0) liveSocket.disconnect();
+  };
+}
+
+// A replayed session has no backend to listen to
+function useReplaying(): boolean {
+  return useSessionStore((state) => state.mode === 'replay');
+}
+
+// Connection state hook
+export function useLiveConnection(): LiveConnectionState {
+  const replaying = useReplaying();
+  useEffect(() => (replaying ? undefined : retainSocket()), [replaying]);
+  return useSyncExternalStore(
+    (onChange) => liveSocket.onConnectionChange(onChange),
+    () => liveSocket.getConnectionState(),
+  );
+}
+
+// Subscribe to decoded live events
+export function useLiveEvents(onEvent: (event: LiveEvent) => void) {
+  const handler = useRef(onEvent);
+  handler.current = onEvent;
+  const replaying = useReplaying();
+
+  useEffect(() => {
+    if (replaying) return;
+    const release = retainSocket();
+    const unsubscribe = liveSocket.subscribe((event) => handler.current(event));
+    return () => {
+      unsubscribe();
+      release();
+    };
+  }, [replaying]);
+}
+
+// Events arriving within this window are applied together
+const BATCH_MS = 50;
+// How long new and resolved rows stay marked for their animation
+const ENTER_MS = 1500;
+const LEAVE_MS = 600;
+
+/**
+ * Keep cached queries in step with the backend. Diagnostic events are folded
+ * into the cached list in place; the full list is only refetched on
+ * (re)connecting, since events may have been missed, and after a new scan.
+ */
+export function useLiveUpdates(): LiveConnectionState {
+  const queryClient = useQueryClient();
+  const pending = useRef<DiagnosticEvent[]>([]);
+  const timers = useRef(new Set<ReturnType<typeof setTimeout>>());
+  const loadedAt = useRef<number | null>(null);
+  // Ids removed by events and still fading out, with the batch that removed them
+  const departing = useRef(new Map<string, number>());
+  const leaveBatch = useRef(0);
+
+  const later = (run: () => void, ms: number) => {
+    const timer = setTimeout(() => {
+      timers.current.delete(timer);
+      run();
+    }, ms);
+    timers.current.add(timer);
+  };
+
+  const flush = () => {
+    const events = pending.current;
+    pending.current = [];
+    const key = queryKeys.diagnostics();
+    const current = queryClient.getQueryData<DiagnosticResponse[]>(key);
+    // Filtered lists cannot tell whether an added diagnostic belongs in them
+    queryClient.invalidateQueries({ queryKey: queryKeys.allDiagnostics, predicate: (q) => q.queryKey[1] !== undefined });
+    if (!current) {
+      queryClient.invalidateQueries({ queryKey: key });
+      return;
+    }
+
+    const { diagnostics, added, removed } = applyDiagnosticEvents(current, events);
+    const { markEntering, markLeaving, settle } = useLiveDiagnosticsStore.getState();
+
+    // A row still fading out is in `current`, so its id coming back (as a
+    // rescan does: FileClear, then Added) is an update, not an addition
+    const returned = events
+      .filter((e) => e.type === 'Added' && e.diagnostic && departing.current.has(e.diagnostic.id))
+      .map((e) => e.diagnostic!.id)
+      .filter((id) => !removed.includes(id));
+    if (returned.length > 0) {
+      returned.forEach((id) => departing.current.delete(id));
+      settle(returned);
+    }
+    if (diagnostics === current) return;
+
+    // Follow the selection when the server re-reports it under a new id
+    const { selectedDiagnosticId, selectDiagnostic } = useDebugStore.getState();
+    if (selectedDiagnosticId && removed.includes(selectedDiagnosticId)) {
+      const old = current.find((d) => d.id === selectedDiagnosticId)!;
+      const successor = diagnostics.find((d) => added.includes(d.id) && sameFinding(old, d));
+      if (successor) selectDiagnostic(successor.id);
+    }
+
+    // Removed rows stay in place until they have faded out
+    const next = new Map(diagnostics.map((d) => [d.id, d]));
+    const staged = [
+      ...current.filter((d) => next.has(d.id) || removed.includes(d.id)).map((d) => next.get(d.id) ?? d),
+      ...diagnostics.filter((d) => added.includes(d.id)),
+    ];
+    queryClient.setQueryData(key, staged);
+
+    if (added.length > 0) {
+      markEntering(added);
+      later(() => settle(added), ENTER_MS);
+    }
+    if (removed.length > 0) {
+      const batch = ++leaveBatch.current;
+      removed.forEach((id) => departing.current.set(id, batch));
+      markLeaving(removed);
+      later(() => {
+        // Only ids no later batch brought back or removed again are gone now
+        const gone = removed.filter((id) => departing.current.get(id) === batch);
+        gone.forEach((id) => departing.current.delete(id));
+        queryClient.setQueryData<DiagnosticResponse[]>(key, (list) => list?.filter((d) => !gone.includes(d.id)));
+        settle(gone);
+      }, LEAVE_MS);
+    }
+  };
+
+  useLiveEvents((event) => {
+    // Drop what a cancelled scan still reports, up to its end, so it does not
+    // refill the workspace; later state reflects what the backend holds
+    const { scanCancelled, endCancelledScan } = useDebugStore.getState();
+    if (scanCancelled) {
+      if (event.kind !== 'state') return;
+      const status = event.state.repoStatus;
+      if (status.type === 'Ready') loadedAt.current = status.loadedAt;
+      if (status.type === 'Ready' || status.type === 'Failed') endCancelledScan();
+      return;
+    }
+    if (event.kind === 'state') {
+      queryClient.invalidateQueries({ queryKey: queryKeys.state });
+      queryClient.invalidateQueries({ queryKey: queryKeys.modules });
+      queryClient.invalidateQueries({ queryKey: queryKeys.refactors });
+      queryClient.invalidateQueries({ queryKey: queryKeys.metrics });
+      // A finished scan replaces every diagnostic
+      const status = event.state.repoStatus;
+      if (status.type === 'Ready' && status.loadedAt !== loadedAt.current) {
+        if (loadedAt.current !== null) queryClient.invalidateQueries({ queryKey: queryKeys.allDiagnostics });
+        loadedAt.current = status.loadedAt;
+      }
+    }
+    if (event.kind === 'diagnostic' && event.event.type !== 'Progress') {
+      if (pending.current.length === 0) later(flush, BATCH_MS);
+      pending.current.push(event.event);
+    }
+  });
+
+  // Catch up on whatever happened while the stream was down
+  useEffect(
+    () =>
+      liveSocket.onConnectionChange((state) => {
+        if (state === 'open') queryClient.invalidateQueries({ queryKey: queryKeys.allDiagnostics });
+      }),
+    [queryClient]
+  );
+
+  useEffect(() => {
+    const pendingTimers = timers.current;
+    return () => pendingTimers.forEach(clearTimeout);
+  }, []);
+
+  return useLiveConnection();
+}
@@ -0,0 +1,31 @@
+/**
+ * `]` and `[` step the code viewer through the selected diagnostic's location
+ * and its related locations, unless the user is typing somewhere
+ */
+import { useEffect } from 'react';
+import { useDebugStore } from '@/store/debugStore';
+import { diagnosticLocations, stepLocation, toFileLocation } from '@/lib/diagnosticLocations';
+import type { Diagnostic } from '@/types/debug';
+
+function isTyping(target: EventTarget | null): boolean {
+  return target instanceof HTMLElement && (target.isContentEditable || /^(INPUT|TEXTAREA|SELECT)$/.test(target.tagName));
+}
+
+export function useLocationNavigation(selected: Diagnostic | undefined) {
+  useEffect(() => {
+    if (!selected || selected.relatedLocations.length === 0) return;
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key !== ']' && event.key !== '[') return;
+      if (event.altKey || event.ctrlKey || event.metaKey || isTyping(event.target)) return;
+      const { openLocation, openFile } = useDebugStore.getState();
+      const next = stepLocation(diagnosticLocations(selected), openLocation, event.key === ']' ? 1 : -1);
+      if (!next) return;
+      event.preventDefault();
+      openFile(toFileLocation(next));
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [selected]);
+}
@@ -0,0 +1,117 @@
+/**
+ * Quick fixes: preview a diagnostic fix against the files as they are now,
+ * apply it through the backend, and undo the most recent one
+ */
+import { useCallback, useMemo } from 'react';
+import { useQueries, useQueryClient, type UseQueryResult } from '@tanstack/react-query';
+import { toast } from '@/components/ui/sonner';
+import { api, type FileContent } from '@/services/api';
+import { queryKeys, useApplyEdits } from '@/hooks/useApi';
+import { useDebugStore } from '@/store/debugStore';
+import { applyTextEdits, groupEditsByFile, replaceAllEdit } from '@/lib/textEdits';
+import type { CodeFix } from '@/types/debug';
+
+// One file a fix touches, before and after its edits
+export interface FixPreviewFile {
+  path: string;
+  before: string;
+  after: string;
+}
+
+// File contents that edits can be applied to; binary and cut-off files cannot
+function editableContent(file: { path: string; content: string | null; truncated: boolean }): string {
+  if (file.content === null) throw new Error(`${file.path} is a binary file`);
+  if (file.truncated) throw new Error(`${file.path} is too large to edit here`);
+  return file.content;
+}
+
+// The fix applied to the current content of every file it touches
+export function useFixPreview(fix: CodeFix | null) {
+  const groups = useMemo(() => [...groupEditsByFile(fix?.edits ?? []).entries()], [fix]);
+  // Re-runs only when a file query's result or the edits change
+  const combine = useCallback(
+    (results: UseQueryResult<FileContent>[]) => {
+      const isLoading = results.some((r) => r.isLoading);
+      const fetchError = results.find((r) => r.error)?.error ?? null;
+      if (isLoading || fetchError) return { files: [] as FixPreviewFile[], isLoading, error: fetchError };
+      try {
+        return {
+          files: groups.map(([path, edits], i) => {
+            const before = editableContent(results[i].data!);
+            return { path, before, after: applyTextEdits(before, edits) };
+          }),
+          isLoading,
+          error: null,
+        };
+      } catch (e) {
+        return { files: [] as FixPreviewFile[], isLoading, error: e as Error };
+      }
+    },
+    [groups]
+  );
+
+  return useQueries({
+    queries: groups.map(([path]) => ({
+      queryKey: queryKeys.file(path),
+      queryFn: ({ signal }: { signal: AbortSignal }) => api.readFile(path, { signal }),
+      staleTime: 60000,
+    })),
+    combine,
+  });
+}
+
+export function useQuickFix() {
+  const queryClient = useQueryClient();
+  const applyEdits = useApplyEdits();
+  const { appliedFixes, pushAppliedFix, popAppliedFix } = useDebugStore();
+
+  const readCurrent = async (path: string) =>
+    editableContent(
+      await queryClient.fetchQuery({ queryKey: queryKeys.file(path), queryFn: () => api.readFile(path), staleTime: 0 })
+    );
+
+  // Apply all edits of a fix, across files, and remember the files for undo
+  const apply = async (diagnosticId: string, fix: CodeFix) => {
+    const files: FixPreviewFile[] = [];
+    for (const [path, edits] of groupEditsByFile(fix.edits)) {
+      const before = await readCurrent(path);
+      files.push({ path, before, after: applyTextEdits(before, edits) });
+    }
+    await applyEdits.mutateAsync(fix.edits);
+    pushAppliedFix({ diagnosticId, title: fix.title, files, appliedAt: Date.now() });
+    return files;
+  };
+
+  // Restore the files of the last applied fix, unless they changed since. Reads
+  // the store directly, as toast actions call this long after the render
+  const undo = async () => {
+    const { appliedFixes } = useDebugStore.getState();
+    const last = appliedFixes[appliedFixes.length - 1];
+    if (!last) return null;
+    for (const file of last.files) {
+      if ((await readCurrent(file.path)) !== file.after) {
+        throw new Error(`${file.path.split('/').pop()} changed after the fix was applied`);
+      }
+    }
+    await applyEdits.mutateAsync(last.files.map((file) => replaceAllEdit(file.path, file.after, file.before)));
+    popAppliedFix();
+    return last;
+  };
+
+  return {
+    apply,
+    undo,
+    lastApplied: appliedFixes[appliedFixes.length - 1] ?? null,
+    isApplying: applyEdits.isPending,
+  };
+}
+
+// Undo the most recently applied fix, reporting the outcome as a toast
+export function useUndoLastFix() {
+  const { undo } = useQuickFix();
+  return () =>
+    undo().then(
+      (fix) => fix && toast.success(`Undid "${fix.title}"`),
+      (e) => toast.error('Could not undo the fix', { description: e instanceof Error ? e.message : String(e) })
+    );
+}
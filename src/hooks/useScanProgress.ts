@@ -0,0 +1,46 @@
+/**
+ * Feeds backend scan progress into the debug store, from the state and
+ * progress events of the live channel
+ */
+import { useEffect, useRef } from 'react';
+import { useDebugStore } from '@/store/debugStore';
+import { scanStatusFromAnalysisProgress, scanStatusFromRepoStatus } from '@/lib/scanProgress';
+import { useLiveEvents } from './useLiveSocket';
+
+// Track RepoStatus stages and analysis progress while a scan is running
+export function useScanProgress() {
+  const isScanning = useDebugStore((s) => s.isScanning);
+  // Whether the backend has reported work for this scan; a Ready seen before
+  // that is left over from the previous load
+  const busy = useRef(false);
+
+  useLiveEvents((event) => {
+    const { isScanning, updateScan, finishScan, failScan } = useDebugStore.getState();
+    if (!isScanning) return;
+
+    if (event.kind === 'state') {
+      const status = event.state.repoStatus;
+      if (status.type === 'Ready') {
+        if (busy.current) finishScan();
+        return;
+      }
+      if (status.type === 'Failed') {
+        failScan(status.error);
+        return;
+      }
+      const update = scanStatusFromRepoStatus(status, event.state.analysisProgress);
+      if (update) {
+        busy.current = true;
+        updateScan(update.status, update.progress);
+      }
+    } else if (event.kind === 'diagnostic' && event.event.type === 'Progress' && event.event.progress) {
+      busy.current = true;
+      const update = scanStatusFromAnalysisProgress(event.event.progress);
+      updateScan(update.status, update.progress);
+    }
+  });
+
+  useEffect(() => {
+    if (isScanning) busy.current = false;
+  }, [isScanning]);
+}
@@ -0,0 +1,31 @@
+/**
+ * Lexed lines for a code view. When the text changes but keeps its line
+ * count (a refetch after an edit), only the changed lines are re-lexed.
+ */
+import { useMemo, useRef } from 'react';
+import { relexLine, tokenize, type LexedLine, type LineLexer } from '@/lib/syntaxHighlight';
+
+// Beyond this many changed lines a full pass is cheaper than re-lexing each
+const MAX_INCREMENTAL_LINES = 50;
+
+// null when there is no lexer (plain text)
+export function useTokenizedLines(lines: string[], lexer: LineLexer | null): LexedLine[] | null {
+  const previous = useRef<{ texts: string[]; lexer: LineLexer; lexed: LexedLine[] } | null>(null);
+
+  return useMemo(() => {
+    if (!lexer) return null;
+    const last = previous.current;
+    const changed = last && last.lexer === lexer && last.texts.length === lines.length
+      ? lines.flatMap((text, i) => (text === last.texts[i] ? [] : [i]))
+      : null;
+
+    let lexed: LexedLine[];
+    if (last && changed && changed.length <= MAX_INCREMENTAL_LINES) {
+      lexed = changed.reduce((acc, i) => relexLine(acc, lines, i, lexer), last.lexed);
+    } else {
+      lexed = tokenize(lines.join('\n'), lexer);
+    }
+    previous.current = { texts: lines, lexer, lexed };
+    return lexed;
+  }, [lines, lexer]);
+}
@@ -0,0 +1,107 @@
+/**
+ * Diagnostics of the open repository as domain objects, shared by the
+ * diagnostics panel and the code viewer. Suppressed ones are split off, and
+ * each is marked new or unchanged when the repository has a baseline.
+ */
+import { useEffect, useMemo } from 'react';
+import { toast } from '@/components/ui/sonner';
+import { useDiagnostics, useFileContent } from '@/hooks/useApi';
+import { useDebugStore } from '@/store/debugStore';
+import { useSuppressionStore } from '@/store/suppressionStore';
+import { useBaselineStore } from '@/store/baselineStore';
+import { compareToBaseline } from '@/lib/baselines';
+import { toDiagnostic } from '@/lib/adapters';
+import {
+  SUPPRESSIONS_FILE_NAME,
+  findSuppression,
+  mergeSuppressions,
+  parseSuppressionsFile,
+  type Suppression,
+} from '@/lib/suppressions';
+import type { Diagnostic } from '@/types/debug';
+
+const NO_SUPPRESSIONS: Suppression[] = [];
+
+// Suppressions and baselines are kept per repository, like saved views
+function useRepoKey(): string {
+  const repository = useDebugStore((s) => s.repository);
+  return repository?.url ?? 'default';
+}
+
+// The checked-in file's suppressions plus the local ones, which win for the
+// same target. `checkedIn` holds the ids that can only be removed in the file
+export function useRepositorySuppressions() {
+  const repoKey = useRepoKey();
+  const local = useSuppressionStore((s) => s.suppressions[repoKey] ?? NO_SUPPRESSIONS);
+  const fromFile = useSuppressionStore((s) => s.checkedIn[repoKey] ?? NO_SUPPRESSIONS);
+  const suppressions = useMemo(
+    () => (fromFile.length > 0 ? mergeSuppressions(fromFile, local) : local),
+    [fromFile, local]
+  );
+  const checkedIn = useMemo(() => {
+    const localIds = new Set(local.map((s) => s.id));
+    return new Set(suppressions.filter((s) => !localIds.has(s.id)).map((s) => s.id));
+  }, [suppressions, local]);
+  return { repoKey, suppressions, checkedIn };
+}
+
+// Read the repository's checked-in suppressions file when it is loaded or
+// changes on disk. It is kept apart from the local suppressions, so reading it
+// again never undoes an unsuppress. A repository without one answers 404
+export function useCheckedInSuppressions() {
+  const repoKey = useRepoKey();
+  const root = useDebugStore((s) => s.repository?.path?.replace(/[\\/]+$/, '') ?? null);
+  const setCheckedIn = useSuppressionStore((s) => s.setCheckedIn);
+  const { data: file, isError } = useFileContent(root ? `${root}/${SUPPRESSIONS_FILE_NAME}` : null);
+
+  useEffect(() => {
+    if (isError) {
+      setCheckedIn(repoKey, []);
+      return;
+    }
+    if (!file?.content) return;
+    try {
+      setCheckedIn(repoKey, parseSuppressionsFile(file.content).suppressions);
+    } catch (e) {
+      setCheckedIn(repoKey, []);
+      toast.error(`Could not read ${SUPPRESSIONS_FILE_NAME}`, { description: e instanceof Error ? e.message : String(e) });
+    }
+  }, [file, isError, repoKey, setCheckedIn]);
+}
+
+export function useRepositoryBaseline() {
+  const repoKey = useRepoKey();
+  const baseline = useBaselineStore((s) => s.baselines[repoKey] ?? null);
+  return { repoKey, baseline };
+}
+
+export function useWorkspaceDiagnostics() {
+  const { diagnostics: storeDiagnostics, modules } = useDebugStore();
+  const { data: apiDiagnostics, isLoading, error } = useDiagnostics();
+  const { suppressions } = useRepositorySuppressions();
+  const { baseline: savedBaseline } = useRepositoryBaseline();
+
+  // Use API diagnostics once loaded, otherwise the ones from the last scan
+  const loaded = useMemo(
+    () => (apiDiagnostics ? apiDiagnostics.map((d) => toDiagnostic(d, modules)) : storeDiagnostics),
+    [apiDiagnostics, modules, storeDiagnostics]
+  );
+
+  const { all, baseline } = useMemo(() => {
+    if (!savedBaseline) return { all: loaded, baseline: null };
+    const comparison = compareToBaseline(savedBaseline, loaded);
+    return {
+      all: loaded.map((d) => ({ ...d, baselineStatus: comparison.status.get(d.id) })),
+      baseline: comparison,
+    };
+  }, [loaded, savedBaseline]);
+
+  const { items, suppressed } = useMemo(() => {
+    const items: Diagnostic[] = [];
+    const suppressed: Diagnostic[] = [];
+    for (const diagnostic of all) (findSuppression(suppressions, diagnostic) ? suppressed : items).push(diagnostic);
+    return { items, suppressed };
+  }, [all, suppressions]);
+
+  return { all, items, suppressed, baseline, isLoading, error };
+}
@@ -0,0 +1,266 @@
+import { describe, expect, it } from "vitest";
+import type {
+  DiagnosticLocation,
+  DiagnosticResponse,
+  ModuleInfo,
+  RefactorSuggestion,
+  SharedCodeMetrics,
+} from "@/services/api";
+import { toDiagnostic, toModule, toScanResult, toSuggestion, withSharedCodeMetrics } from "./adapters";
+
+function location(overrides: Partial<DiagnosticLocation> = {}): DiagnosticLocation {
+  return {
+    filePath: "/repo/shared/src/commonMain/kotlin/Repo.kt",
+    relativeFilePath: "shared/src/commonMain/kotlin/Repo.kt",
+    moduleId: ":shared",
+    sourceSet: "commonMain",
+    startLine: 3,
+    startColumn: 1,
+    endLine: 3,
+    endColumn: 20,
+    ...overrides,
+  };
+}
+
+function diagnostic(overrides: Partial<DiagnosticResponse> = {}): DiagnosticResponse {
+  return {
+    id: "d1",
+    severity: "ERROR",
+    category: "EXPECT_ACTUAL",
+    message: "Missing actual",
+    explanation: "",
+    location: location(),
+    relatedLocations: [],
+    fixes: [],
+    source: "ExpectActualAnalyzer",
+    timestamp: 1,
+    isActive: true,
+    tags: [],
+    ...overrides,
+  };
+}
+
+function moduleInfo(overrides: Partial<ModuleInfo> = {}): ModuleInfo {
+  return {
+    id: ":shared",
+    name: "shared",
+    path: "/repo/shared",
+    gradlePath: ":shared",
+    type: "KMP_LIBRARY",
+    targets: ["androidTarget", "iosArm64", "jvm"],
+    dependencies: [],
+    ...overrides,
+  };
+}
+
+function metrics(overrides: Partial<SharedCodeMetrics> = {}): SharedCodeMetrics {
+  return {
+    totalLinesOfCode: 1000,
+    sharedLinesOfCode: 750,
+    sharedCodePercentage: 75,
+    platformBreakdown: {
+      commonLines: 750,
+      androidLines: 150,
+      iosLines: 100,
+      jvmLines: 0,
+      jsLines: 0,
+      wasmLines: 0,
+      nativeLines: 0,
+    },
+    expectDeclarations: 4,
+    actualImplementations: 7,
+    expectActualCoverage: 0.875,
+    moduleRankings: [
+      {
+        moduleId: ":shared",
+        moduleName: "shared",
+        sharedPercentage: 74.96,
+        sharedLines: 750,
+        totalLines: 1000,
+        rank: 1,
+        expectDeclarations: 4,
+        actualImplementations: 7,
+      },
+    ],
+    sharableCandidates: [],
+    ...overrides,
+  };
+}
+
+function refactor(overrides: Partial<RefactorSuggestion> = {}): RefactorSuggestion {
+  return {
+    id: "r1",
+    title: "Move to commonMain",
+    rationale: "No platform APIs are used",
+    confidence: 0.8,
+    category: "SHARE_CODE",
+    priority: "HIGH",
+    unifiedDiff: "",
+    changes: [
+      {
+        filePath: "shared/src/androidMain/kotlin/Repo.kt",
+        changeType: "MODIFY",
+        hunks: [
+          {
+            oldStart: 10,
+            oldCount: 2,
+            newStart: 10,
+            newCount: 2,
+            lines: [
+              { type: "CONTEXT", content: "class Repo {", oldLineNumber: 10, newLineNumber: 10 },
+              { type: "REMOVE", content: "  val a = 1", oldLineNumber: 11 },
+              { type: "ADD", content: "  val a = 2", newLineNumber: 11 },
+            ],
+          },
+        ],
+      },
+    ],
+    affectedLocations: [],
+    fixesDiagnosticIds: ["d1"],
+    sharedCodeImpact: null,
+    isAutoApplicable: true,
+    risks: [{ level: "LOW", description: "None" }],
+    source: "rules",
+    generatedAt: 1,
+    ...overrides,
+  };
+}
+
+describe("toDiagnostic", () => {
+  it("lowercases the severity and keeps the category", () => {
+    for (const severity of ["ERROR", "WARNING", "INFO", "HINT"] as const) {
+      expect(toDiagnostic(diagnostic({ severity })).severity).toBe(severity.toLowerCase());
+    }
+    expect(toDiagnostic(diagnostic({ category: "COROUTINE_SAFETY" })).category).toBe("COROUTINE_SAFETY");
+    expect(toDiagnostic(diagnostic({ category: "SOMETHING_NEW" })).category).toBe("SOMETHING_NEW");
+  });
+
+  it("falls back to the message when there is no explanation", () => {
+    expect(toDiagnostic(diagnostic()).description).toBe("Missing actual");
+    expect(toDiagnostic(diagnostic({ explanation: "Why" })).description).toBe("Why");
+  });
+
+  it("scales fix confidence from 0-100 to 0-1", () => {
+    const fix = { title: "Add actual", description: "", edits: [], isPreferred: true };
+    const confidences = [85, 1, 0.5, 250, -3];
+    const fixes = toDiagnostic(diagnostic({ fixes: confidences.map((confidence) => ({ ...fix, confidence })) })).fixes;
+    expect(fixes.map((f) => f.confidence)).toEqual([0.85, 0.01, 0.005, 1, 0]);
+  });
+
+  it("flattens edit ranges", () => {
+    const edits = [
+      { filePath: "a.kt", range: { startLine: 1, startColumn: 2, endLine: 3, endColumn: 4 }, newText: "x" },
+    ];
+    const [fix] = toDiagnostic(
+      diagnostic({ fixes: [{ title: "t", description: "", edits, isPreferred: false, confidence: 50 }] })
+    ).fixes;
+    expect(fix.edits).toEqual([{ file: "a.kt", startLine: 1, startColumn: 2, endLine: 3, endColumn: 4, newText: "x" }]);
+    expect(fix.preferred).toBe(false);
+  });
+
+  it("takes platforms from the source set, else from the module", () => {
+    const modules = [toModule(moduleInfo())];
+    expect(toDiagnostic(diagnostic({ location: location({ sourceSet: "iosMain" }) }), modules).platforms).toEqual([
+      "ios",
+    ]);
+    expect(toDiagnostic(diagnostic(), modules).platforms).toEqual(["android", "ios", "desktop"]);
+    expect(toDiagnostic(diagnostic()).platforms).toEqual(["android", "ios", "desktop", "web"]);
+  });
+});
+
+describe("toModule", () => {
+  it("maps targets to platforms and flags errors and warnings of its own diagnostics", () => {
+    const module = toModule(moduleInfo(), [
+      diagnostic({ severity: "WARNING" }),
+      diagnostic({ id: "d2", location: location({ moduleId: ":app" }) }),
+    ]);
+    expect(module.platforms).toEqual(["android", "ios", "desktop"]);
+    expect(module.hasErrors).toBe(false);
+    expect(module.hasWarnings).toBe(true);
+    expect(module.sharedCodePercent).toBeNull();
+  });
+});
+
+describe("withSharedCodeMetrics", () => {
+  const modules = [toModule(moduleInfo()), toModule(moduleInfo({ id: ":app", name: "app", gradlePath: ":app" }))];
+
+  it("leaves modules untouched without metrics", () => {
+    expect(withSharedCodeMetrics(modules, null)).toBe(modules);
+  });
+
+  it("fills in ranked modules and keeps nulls for the rest", () => {
+    const [shared, app] = withSharedCodeMetrics(modules, metrics());
+    expect(shared).toMatchObject({
+      sharedCodePercent: 75,
+      sharedLines: 750,
+      totalLines: 1000,
+      expectCount: 4,
+      actualCount: 7,
+    });
+    expect(app).toMatchObject({ sharedCodePercent: null, sharedLines: null, totalLines: null });
+  });
+
+  it("keeps null expect/actual counts the backend does not report", () => {
+    const [ranking] = metrics().moduleRankings;
+    const [shared] = withSharedCodeMetrics(
+      modules,
+      metrics({ moduleRankings: [{ ...ranking, expectDeclarations: null, actualImplementations: null }] })
+    );
+    expect(shared.expectCount).toBeNull();
+    expect(shared.actualCount).toBeNull();
+  });
+});
+
+describe("toSuggestion", () => {
+  it("derives before and after from the first file's hunks", () => {
+    const suggestion = toSuggestion(refactor());
+    expect(suggestion.before).toBe("class Repo {\n  val a = 1");
+    expect(suggestion.after).toBe("class Repo {\n  val a = 2");
+    expect(suggestion.location).toEqual({ file: "shared/src/androidMain/kotlin/Repo.kt", startLine: 10, endLine: 11 });
+    expect(suggestion.changes[0].hunks[0].lines.map((l) => l.type)).toEqual(["context", "remove", "add"]);
+  });
+
+  it("lowercases priority and risk levels and keeps the confidence", () => {
+    const suggestion = toSuggestion(refactor());
+    expect(suggestion.priority).toBe("high");
+    expect(suggestion.risks[0].level).toBe("low");
+    expect(suggestion.confidence).toBe(0.8);
+    expect(suggestion.status).toBe("pending");
+  });
+
+  it("falls back to the unified diff without hunks", () => {
+    const suggestion = toSuggestion(
+      refactor({ changes: [], unifiedDiff: "--- a/Repo.kt\n+++ b/Repo.kt\n@@ -1 +1 @@\n-old\n+new" })
+    );
+    expect(suggestion.before).toBe("old");
+    expect(suggestion.after).toBe("new");
+  });
+});
+
+describe("toScanResult", () => {
+  it("adapts everything and counts errors, warnings and shared lines", () => {
+    const result = toScanResult({
+      modules: [moduleInfo()],
+      diagnostics: [diagnostic(), diagnostic({ id: "d2", severity: "WARNING" }), diagnostic({ id: "d3", severity: "INFO" })],
+      refactors: [refactor()],
+      metrics: metrics(),
+    });
+    expect(result.modules[0].sharedCodePercent).toBe(75);
+    expect(result.diagnostics[0].platforms).toEqual(["android", "ios", "desktop"]);
+    expect(result.suggestions).toHaveLength(1);
+    expect(result.stats).toEqual({
+      totalLines: 1000,
+      sharedLines: 750,
+      platformSpecificLines: 250,
+      errorsCount: 1,
+      warningsCount: 1,
+      suggestionsCount: 1,
+    });
+  });
+
+  it("reports zero lines without metrics", () => {
+    const result = toScanResult({ modules: [moduleInfo()], diagnostics: [], refactors: [], metrics: null });
+    expect(result.stats).toMatchObject({ totalLines: 0, sharedLines: 0, platformSpecificLines: 0 });
+    expect(result.modules[0].sharedCodePercent).toBeNull();
+  });
+});
@@ -0,0 +1,247 @@
+import type {
+  DiagnosticLocation,
+  DiagnosticResponse,
+  ModuleInfo,
+  RefactorSuggestion,
+  SharedCodeMetrics,
+  TextEdit as TextEditDto,
+} from "@/services/api";
+import type {
+  AIRefactorSuggestion,
+  Diagnostic,
+  DiagnosticSeverity,
+  Module,
+  Platform,
+  ScanResult,
+  SourceLocation,
+  TextEdit,
+} from "@/types/debug";
+
+/**
+ * Adapters from backend DTOs (services/api.ts) to the domain model
+ * (types/debug.ts). Everything the backend reports is carried over; only
+ * naming and casing change. Edits also go the other way, when the client
+ * applies them.
+ */
+
+const ALL_PLATFORMS: Platform[] = ["android", "ios", "desktop", "web"];
+
+// Platform a Kotlin target or source set compiles for; null for shared code
+export function platformOf(name: string): Platform | null {
+  const lower = name.toLowerCase();
+  if (lower.startsWith("android")) return "android";
+  if (/^(ios|watchos|tvos|apple)/.test(lower)) return "ios";
+  if (/^(jvm|desktop|macos|linux|mingw)/.test(lower)) return "desktop";
+  if (/^(wasm|js)/.test(lower)) return "web";
+  return null;
+}
+
+function platformsOf(targets: string[]): Platform[] {
+  const platforms = new Set(targets.map(platformOf).filter((p): p is Platform => p !== null));
+  return ALL_PLATFORMS.filter((p) => platforms.has(p));
+}
+
+export function toSourceLocation(location: DiagnosticLocation): SourceLocation {
+  return {
+    file: location.filePath,
+    relativePath: location.relativeFilePath,
+    moduleId: location.moduleId,
+    sourceSet: location.sourceSet,
+    line: location.startLine,
+    column: location.startColumn,
+    endLine: location.endLine,
+    endColumn: location.endColumn,
+    snippet: location.sourceSnippet,
+  };
+}
+
+// Fix confidence is 0-100 on the backend; the UI works in 0-1
+function toUnitConfidence(confidence: number): number {
+  return Math.max(0, Math.min(1, confidence / 100));
+}
+
+/**
+ * A platform source set affects that platform; shared code affects every
+ * platform its module targets (all of them if the module is unknown).
+ */
+export function toDiagnostic(diagnostic: DiagnosticResponse, modules: Module[] = []): Diagnostic {
+  const { location } = diagnostic;
+  const platform = platformOf(location.sourceSet);
+  const module = modules.find((m) => m.id === location.moduleId);
+  const platforms = platform ? [platform] : module?.platforms.length ? module.platforms : ALL_PLATFORMS;
+
+  return {
+    id: diagnostic.id,
+    severity: diagnostic.severity.toLowerCase() as DiagnosticSeverity,
+    category: diagnostic.category,
+    title: diagnostic.message,
+    description: diagnostic.explanation || diagnostic.message,
+    location: toSourceLocation(location),
+    relatedLocations: diagnostic.relatedLocations.map(toSourceLocation),
+    fixes: diagnostic.fixes.map((fix) => ({
+      title: fix.title,
+      description: fix.description,
+      edits: fix.edits.map((edit) => ({ file: edit.filePath, ...edit.range, newText: edit.newText })),
+      preferred: fix.isPreferred,
+      confidence: toUnitConfidence(fix.confidence),
+    })),
+    tags: diagnostic.tags,
+    source: diagnostic.source,
+    timestamp: diagnostic.timestamp,
+    platforms,
+  };
+}
+
+// A fix's edit in the shape `/api/files/edits` takes
+export function toTextEditDto(edit: TextEdit): TextEditDto {
+  const { file, startLine, startColumn, endLine, endColumn, newText } = edit;
+  return { filePath: file, range: { startLine, startColumn, endLine, endColumn }, newText };
+}
+
+/**
+ * Per-module shared-code figures are not part of ModuleInfo, so they stay
+ * null until `withSharedCodeMetrics` fills them in; error/warning flags come
+ * from the diagnostics, when given.
+ */
+export function toModule(module: ModuleInfo, diagnostics: DiagnosticResponse[] = []): Module {
+  const own = diagnostics.filter((d) => d.location.moduleId === module.id);
+  return {
+    id: module.id,
+    name: module.name,
+    path: module.path,
+    gradlePath: module.gradlePath,
+    type: module.type,
+    targets: module.targets,
+    platforms: platformsOf(module.targets),
+    dependencies: module.dependencies,
+    sharedCodePercent: null,
+    sharedLines: null,
+    totalLines: null,
+    expectCount: null,
+    actualCount: null,
+    hasErrors: own.some((d) => d.severity === "ERROR"),
+    hasWarnings: own.some((d) => d.severity === "WARNING"),
+  };
+}
+
+// Shared-code figures of each module from its ranking in SharedCodeMetrics.
+// Modules without Kotlin code are not ranked and keep nulls.
+export function withSharedCodeMetrics(modules: Module[], metrics: SharedCodeMetrics | null): Module[] {
+  if (!metrics) return modules;
+  const rankings = new Map(metrics.moduleRankings.map((r) => [r.moduleId, r]));
+  return modules.map((module) => {
+    const ranking = rankings.get(module.id) ?? rankings.get(module.gradlePath);
+    if (!ranking) return module;
+    return {
+      ...module,
+      sharedCodePercent: Math.round(ranking.sharedPercentage * 10) / 10,
+      sharedLines: ranking.sharedLines,
+      totalLines: ranking.totalLines,
+      expectCount: ranking.expectDeclarations,
+      actualCount: ranking.actualImplementations,
+    };
+  });
+}
+
+// Split a unified diff body into its before and after text
+function splitUnifiedDiff(diff: string) {
+  const before: string[] = [];
+  const after: string[] = [];
+  for (const line of diff.split("\n")) {
+    if (line.startsWith("---") || line.startsWith("+++") || line.startsWith("@@")) continue;
+    if (!line.startsWith("+")) before.push(line.slice(1));
+    if (!line.startsWith("-")) after.push(line.slice(1));
+  }
+  return { before: before.join("\n"), after: after.join("\n") };
+}
+
+export function toSuggestion(refactor: RefactorSuggestion): AIRefactorSuggestion {
+  const changes = refactor.changes.map((change) => ({
+    file: change.filePath,
+    changeType: change.changeType.toLowerCase() as AIRefactorSuggestion["changes"][number]["changeType"],
+    oldFile: change.oldPath,
+    hunks: change.hunks.map((hunk) => ({
+      oldStart: hunk.oldStart,
+      oldCount: hunk.oldCount,
+      newStart: hunk.newStart,
+      newCount: hunk.newCount,
+      lines: hunk.lines.map((line) => ({
+        type: line.type.toLowerCase() as "context" | "add" | "remove",
+        content: line.content,
+        oldLine: line.oldLineNumber,
+        newLine: line.newLineNumber,
+      })),
+    })),
+  }));
+
+  // The card shows the first file; `changes` keeps all of them
+  const change = changes[0];
+  const lines = change?.hunks.flatMap((h) => h.lines) ?? [];
+  const { before, after } = lines.length > 0
+    ? {
+        before: lines.filter((l) => l.type !== "add").map((l) => l.content).join("\n"),
+        after: lines.filter((l) => l.type !== "remove").map((l) => l.content).join("\n"),
+      }
+    : splitUnifiedDiff(refactor.unifiedDiff);
+  const location = refactor.affectedLocations[0];
+  const hunk = change?.hunks[0];
+
+  return {
+    id: refactor.id,
+    title: refactor.title,
+    description: refactor.rationale,
+    confidence: refactor.confidence,
+    before,
+    after,
+    location: location
+      ? { file: location.filePath, startLine: location.startLine, endLine: location.endLine }
+      : {
+          file: change?.file ?? "",
+          startLine: hunk?.oldStart ?? 1,
+          endLine: hunk ? hunk.oldStart + Math.max(hunk.oldCount - 1, 0) : 1,
+        },
+    status: "pending",
+    category: refactor.category,
+    priority: refactor.priority.toLowerCase() as AIRefactorSuggestion["priority"],
+    unifiedDiff: refactor.unifiedDiff,
+    changes,
+    risks: refactor.risks.map((risk) => ({
+      level: risk.level.toLowerCase() as "low" | "medium" | "high",
+      description: risk.description,
+      mitigation: risk.mitigation,
+    })),
+    fixesDiagnosticIds: refactor.fixesDiagnosticIds,
+    autoApplicable: refactor.isAutoApplicable,
+    sharedCodeImpact: refactor.sharedCodeImpact ?? undefined,
+  };
+}
+
+// Everything the workspace needs after a scan, in domain form
+export function toScanResult(data: {
+  modules: ModuleInfo[];
+  diagnostics: DiagnosticResponse[];
+  refactors: RefactorSuggestion[];
+  metrics: SharedCodeMetrics | null;
+}): ScanResult {
+  const modules = withSharedCodeMetrics(
+    data.modules.map((m) => toModule(m, data.diagnostics)),
+    data.metrics
+  );
+  const diagnostics = data.diagnostics.map((d) => toDiagnostic(d, modules));
+  const totalLines = data.metrics?.totalLinesOfCode ?? 0;
+  const sharedLines = data.metrics?.sharedLinesOfCode ?? 0;
+
+  return {
+    modules,
+    diagnostics,
+    suggestions: data.refactors.map(toSuggestion),
+    stats: {
+      totalLines,
+      sharedLines,
+      platformSpecificLines: totalLines - sharedLines,
+      errorsCount: diagnostics.filter((d) => d.severity === "error").length,
+      warningsCount: diagnostics.filter((d) => d.severity === "warning").length,
+      suggestionsCount: data.refactors.length,
+    },
+  };
+}
@@ -0,0 +1,57 @@
+import type { AIAnalysis, AISuggestion } from "@/services/api";
+import type { AIRefactorSuggestion, SourceFile } from "@/types/debug";
+
+export interface LineRange {
+  startLine: number;
+  endLine: number;
+}
+
+// Full-line 1-based range covered by a snippet, searched within `range`
+function locateSnippet(lines: string[], snippet: string, range: LineRange): LineRange | null {
+  const first = snippet.split("\n").map((l) => l.trim()).find(Boolean);
+  if (!first) return null;
+  for (let i = range.startLine - 1; i < range.endLine; i++) {
+    if (lines[i]?.trim().includes(first)) {
+      const length = snippet.trim().split("\n").length;
+      return { startLine: i + 1, endLine: Math.min(i + length, lines.length) };
+    }
+  }
+  return null;
+}
+
+function toSuggestion(
+  suggestion: AISuggestion,
+  index: number,
+  file: SourceFile,
+  range: LineRange,
+  runId: number
+): AIRefactorSuggestion {
+  const lines = file.content.split("\n");
+  const location = locateSnippet(lines, suggestion.beforeCode, range) ?? range;
+
+  return {
+    id: `ai-${runId}-${index}`,
+    title: suggestion.title,
+    description: suggestion.rationale,
+    confidence: suggestion.confidence,
+    before: suggestion.beforeCode,
+    after: suggestion.afterCode,
+    location: { file: file.path, ...location },
+    status: "pending",
+    origin: "ai",
+    changes: [],
+    risks: [],
+    fixesDiagnosticIds: [],
+    autoApplicable: false,
+  };
+}
+
+/**
+ * Turn an /api/ai/analyze result into suggestion cards anchored in `file`.
+ * Each suggestion is placed where its `beforeCode` appears in the analyzed
+ * range, or spans the whole range when the model paraphrased the code.
+ */
+export function aiSuggestionsFor(analysis: AIAnalysis, file: SourceFile, range: LineRange): AIRefactorSuggestion[] {
+  const runId = Date.now();
+  return analysis.suggestions.map((s, i) => toSuggestion(s, i, file, range, runId));
+}
@@ -0,0 +1,90 @@
+import type { CodeAnnotation } from "@/types/debug";
+import type { Token, TokenType } from "@/lib/syntaxHighlight";
+
+/**
+ * Placing code annotations on lines: which part of each line an annotation
+ * covers, and how a line's tokens split up under overlapping squiggles.
+ */
+
+export type AnnotationType = CodeAnnotation["type"];
+
+const TYPE_RANK: Record<AnnotationType, number> = { error: 0, warning: 1, "ai-suggestion": 2, info: 3 };
+
+// Worst first, then in reading order
+export function compareAnnotations(a: CodeAnnotation, b: CodeAnnotation): number {
+  return TYPE_RANK[a.type] - TYPE_RANK[b.type] || a.line - b.line || (a.column ?? 0) - (b.column ?? 0);
+}
+
+export function worstAnnotation(annotations: CodeAnnotation[]): CodeAnnotation | undefined {
+  return [...annotations].sort(compareAnnotations)[0];
+}
+
+export function coversLine(annotation: CodeAnnotation, line: number): boolean {
+  return line >= annotation.line && line <= (annotation.endLine ?? annotation.line);
+}
+
+/**
+ * 0-based [start, end) of `text` (line `line`) that `annotation` underlines,
+ * or null for blank lines. An empty range grows to the identifier at its
+ * start so findings that point at a position stay visible.
+ */
+export function annotationSpan(annotation: CodeAnnotation, line: number, text: string): { start: number; end: number } | null {
+  if (!text.trim() || !coversLine(annotation, line)) return null;
+  const indent = text.length - text.trimStart().length;
+
+  let start = indent;
+  if (line === annotation.line && annotation.column !== undefined) start = Math.max(0, annotation.column - 1);
+  let end = text.trimEnd().length;
+  if (line === (annotation.endLine ?? annotation.line) && annotation.endColumn !== undefined) end = annotation.endColumn - 1;
+
+  start = Math.min(start, text.length - 1);
+  if (end <= start) {
+    const word = /^\w+/.exec(text.slice(start));
+    end = start + (word ? word[0].length : 1);
+  }
+  return { start, end: Math.min(end, text.length) };
+}
+
+export interface DecoratedPiece {
+  text: string;
+  type: TokenType;
+  // Worst annotation type underlining this piece
+  squiggle: AnnotationType | null;
+  annotations: CodeAnnotation[];
+}
+
+// Split a line's tokens wherever an annotation starts or ends
+export function decorateLine(tokens: Token[], text: string, line: number, annotations: CodeAnnotation[]): DecoratedPiece[] {
+  const spans = annotations
+    .map((annotation) => ({ annotation, span: annotationSpan(annotation, line, text) }))
+    .filter((s): s is { annotation: CodeAnnotation; span: { start: number; end: number } } => s.span !== null);
+
+  // Untokenized text counts as one plain token
+  const pieces: Token[] = tokens.length > 0 ? tokens : [{ type: "plain", text, line, column: 1 }];
+  const cuts = new Set<number>([0, text.length]);
+  pieces.forEach((t) => cuts.add(t.column - 1));
+  spans.forEach(({ span }) => {
+    cuts.add(span.start);
+    cuts.add(span.end);
+  });
+  const bounds = [...cuts].filter((c) => c >= 0 && c <= text.length).sort((a, b) => a - b);
+
+  const result: DecoratedPiece[] = [];
+  let tokenIndex = 0;
+  for (let b = 0; b < bounds.length - 1; b++) {
+    const [start, end] = [bounds[b], bounds[b + 1]];
+    while (tokenIndex < pieces.length - 1 && pieces[tokenIndex + 1].column - 1 <= start) tokenIndex++;
+    const covering = spans.filter(({ span }) => span.start <= start && span.end >= end).map((s) => s.annotation);
+    const squiggle = worstAnnotation(covering)?.type ?? null;
+    const type = pieces[tokenIndex].type;
+
+    const last = result[result.length - 1];
+    const sameAnnotations = last?.annotations.length === covering.length && last.annotations.every((a, i) => a === covering[i]);
+    if (last && last.type === type && sameAnnotations) {
+      last.text += text.slice(start, end);
+    } else {
+      result.push({ text: text.slice(start, end), type, squiggle, annotations: covering });
+    }
+  }
+  return result;
+}
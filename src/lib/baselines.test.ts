@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import type { Diagnostic } from "@/types/debug";
+import {
+  compareToBaseline,
+  createBaseline,
+  fingerprint,
+  parseBaselineFile,
+  toBaselineFile,
+} from "./baselines";
+
+function diagnostic(id: string, overrides: Partial<Diagnostic> = {}, snippet?: string): Diagnostic {
+  return {
+    id,
+    severity: "warning",
+    category: "COROUTINE_SAFETY",
+    title: "GlobalScope used",
+    description: "",
+    location: {
+      file: "/repo/shared/src/commonMain/kotlin/Sync.kt",
+      relativePath: "shared/src/commonMain/kotlin/Sync.kt",
+      moduleId: ":shared",
+      sourceSet: "commonMain",
+      line: 4,
+      column: 5,
+      endLine: 4,
+      endColumn: 16,
+      snippet,
+    },
+    relatedLocations: [],
+    fixes: [],
+    tags: [],
+    source: "CoroutineAnalyzer",
+    timestamp: 1,
+    platforms: ["android", "ios"],
+    ...overrides,
+  };
+}
+
+// The same diagnostic reported at another line
+function shifted(d: Diagnostic, line: number): Diagnostic {
+  return { ...d, location: { ...d.location, line, endLine: line } };
+}
+
+describe("fingerprint", () => {
+  const withSnippet = diagnostic("d1", {}, "GlobalScope.launch { sync() }");
+
+  it("ignores the id, the line and whitespace in the code", () => {
+    const other = diagnostic("d2", {}, "  GlobalScope.launch {\n    sync()\n  }");
+    expect(fingerprint(shifted(other, 40))).toBe(fingerprint(withSnippet));
+  });
+
+  it("changes with the rule, the file or the code", () => {
+    const print = fingerprint(withSnippet);
+    expect(fingerprint(diagnostic("d1", { category: "EXPECT_ACTUAL" }, "GlobalScope.launch { sync() }"))).not.toBe(print);
+    expect(fingerprint(diagnostic("d1", {}, "GlobalScope.launch { push() }"))).not.toBe(print);
+    const moved = { ...withSnippet, location: { ...withSnippet.location, relativePath: "app/Sync.kt" } };
+    expect(fingerprint(moved)).not.toBe(print);
+  });
+
+  it("uses the message only without a snippet", () => {
+    expect(fingerprint({ ...withSnippet, title: "Reworded" })).toBe(fingerprint(withSnippet));
+    expect(fingerprint(diagnostic("d1", { title: "Reworded" }))).not.toBe(fingerprint(diagnostic("d1")));
+  });
+});
+
+describe("compareToBaseline", () => {
+  const sync = diagnostic("d1", {}, "GlobalScope.launch { sync() }");
+  const push = diagnostic("d2", {}, "GlobalScope.launch { push() }");
+  const baseline = createBaseline([sync, push]);
+
+  it("marks findings still there unchanged, even under new ids and lines", () => {
+    const { status, fixed, counts } = compareToBaseline(baseline, [
+      shifted({ ...sync, id: "d7" }, 12),
+      shifted({ ...push, id: "d8" }, 30),
+    ]);
+    expect([...status]).toEqual([
+      ["d7", "unchanged"],
+      ["d8", "unchanged"],
+    ]);
+    expect(fixed).toEqual([]);
+    expect(counts).toEqual({ new: 0, unchanged: 2, fixed: 0 });
+  });
+
+  it("marks other findings new and lists the missing ones as fixed", () => {
+    const pull = diagnostic("d3", {}, "GlobalScope.launch { pull() }");
+    const { status, fixed, counts } = compareToBaseline(baseline, [sync, pull]);
+    expect(status.get("d1")).toBe("unchanged");
+    expect(status.get("d3")).toBe("new");
+    expect(fixed.map((e) => e.fingerprint)).toEqual([fingerprint(push)]);
+    expect(fixed[0]).toMatchObject({ file: "shared/src/commonMain/kotlin/Sync.kt", line: 4, severity: "warning" });
+    expect(counts).toEqual({ new: 1, unchanged: 1, fixed: 1 });
+  });
+
+  it("counts duplicates, so a second identical finding is new", () => {
+    const { status, counts } = compareToBaseline(baseline, [sync, { ...sync, id: "d9" }, push]);
+    expect(status.get("d1")).toBe("unchanged");
+    expect(status.get("d9")).toBe("new");
+    expect(counts).toEqual({ new: 1, unchanged: 2, fixed: 0 });
+  });
+
+  it("treats a reworded message as new only when there is no snippet", () => {
+    const plain = createBaseline([diagnostic("d1")]);
+    expect(compareToBaseline(plain, [diagnostic("d1", { title: "Reworded" })]).counts).toEqual({
+      new: 1,
+      unchanged: 0,
+      fixed: 1,
+    });
+    expect(compareToBaseline(baseline, [{ ...sync, title: "Reworded" }]).status.get("d1")).toBe("unchanged");
+  });
+});
+
+describe("parseBaselineFile", () => {
+  it("reads back an exported baseline", () => {
+    const file = toBaselineFile("notes", createBaseline([diagnostic("d1")]));
+    expect(parseBaselineFile(JSON.stringify(file))).toEqual(file);
+  });
+
+  it("rejects other files", () => {
+    expect(() => parseBaselineFile("{")).toThrow("not valid JSON");
+    expect(() => parseBaselineFile(JSON.stringify({ format: "other" }))).toThrow("Not a DebugForge baseline file");
+  });
+});
@@ -0,0 +1,126 @@
+import { z } from "zod";
+import type { BaselineStatus, Diagnostic } from "@/types/debug";
+
+/**
+ * Baselines: a snapshot of the diagnostics at one point, so later scans can
+ * tell which findings are new, which were already there and which are gone.
+ * Findings are matched by fingerprint (rule, file and the code they point at,
+ * whitespace-normalized), so edits elsewhere in the file that only shift lines
+ * do not turn old findings into new ones.
+ */
+
+export interface BaselineEntry {
+  fingerprint: string;
+  category: string;
+  // Repo-relative
+  file: string;
+  line: number;
+  severity: Diagnostic["severity"];
+  message: string;
+}
+
+export interface Baseline {
+  createdAt: string;
+  entries: BaselineEntry[];
+}
+
+export interface BaselineComparison {
+  status: Map<string, BaselineStatus>;
+  // Baseline findings no current diagnostic matches
+  fixed: BaselineEntry[];
+  counts: Record<BaselineStatus | "fixed", number>;
+}
+
+export const BASELINE_FORMAT = "debugforge-baseline";
+
+export interface BaselineFile extends Baseline {
+  format: typeof BASELINE_FORMAT;
+  version: 1;
+  // Repository the baseline was taken for (informational)
+  repository: string | null;
+}
+
+// FNV-1a, enough to keep fingerprints short and stable
+function hash(text: string): string {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16).padStart(8, "0");
+}
+
+// Without a snippet the message stands in for the code
+export function fingerprint(diagnostic: Diagnostic): string {
+  const { relativePath, file, snippet } = diagnostic.location;
+  const code = (snippet ?? diagnostic.title).replace(/\s+/g, " ").trim();
+  return hash([diagnostic.category, relativePath || file, code].join("\n"));
+}
+
+export function createBaseline(diagnostics: Diagnostic[]): Baseline {
+  return {
+    createdAt: new Date().toISOString(),
+    entries: diagnostics.map((d) => ({
+      fingerprint: fingerprint(d),
+      category: d.category,
+      file: d.location.relativePath || d.location.file,
+      line: d.location.line,
+      severity: d.severity,
+      message: d.title,
+    })),
+  };
+}
+
+// Fingerprints are counted, so a second identical finding in a file is still new
+export function compareToBaseline(baseline: Baseline, diagnostics: Diagnostic[]): BaselineComparison {
+  const remaining = new Map<string, BaselineEntry[]>();
+  for (const entry of baseline.entries) remaining.set(entry.fingerprint, [...(remaining.get(entry.fingerprint) ?? []), entry]);
+
+  const status = new Map<string, BaselineStatus>();
+  for (const diagnostic of diagnostics) {
+    const matches = remaining.get(fingerprint(diagnostic));
+    status.set(diagnostic.id, matches?.length ? "unchanged" : "new");
+    matches?.shift();
+  }
+
+  const fixed = [...remaining.values()].flat();
+  const unchanged = [...status.values()].filter((s) => s === "unchanged").length;
+  return { status, fixed, counts: { new: status.size - unchanged, unchanged, fixed: fixed.length } };
+}
+
+const baselineFileSchema = z.object({
+  format: z.literal(BASELINE_FORMAT),
+  version: z.literal(1),
+  repository: z.string().nullable().default(null),
+  createdAt: z.string(),
+  entries: z.array(
+    z.object({
+      fingerprint: z.string().min(1),
+      category: z.string(),
+      file: z.string(),
+      line: z.number().int(),
+      severity: z.enum(["error", "warning", "info", "hint"]),
+      message: z.string(),
+    })
+  ),
+});
+
+export function toBaselineFile(repository: string | null, baseline: Baseline): BaselineFile {
+  return { format: BASELINE_FORMAT, version: 1, repository, ...baseline };
+}
+
+// Read a baseline from an exported file, throwing if it is not one
+export function parseBaselineFile(text: string): BaselineFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("Baseline file is not valid JSON");
+  }
+  const result = baselineFileSchema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Not a DebugForge baseline file (${issue.path.join(".") || "root"}: ${issue.message})`);
+  }
+  return result.data as BaselineFile;
+}
@@ -0,0 +1,151 @@
+import {
+  AlertCircle,
+  AlertTriangle,
+  Archive,
+  CheckCircle2,
+  CircleHelp,
+  Cpu,
+  Gauge,
+  GitCompareArrows,
+  Lightbulb,
+  MemoryStick,
+  MonitorSmartphone,
+  Paintbrush,
+  PlugZap,
+  Workflow,
+  type LucideIcon,
+} from "lucide-react";
+import type { DiagnosticCategory, DiagnosticSeverity } from "@/types/debug";
+
+/**
+ * Display metadata for diagnostic categories and severities. Every place
+ * that shows a category or severity goes through categoryInfo/severityInfo,
+ * so a value the registry does not know still gets a readable label.
+ */
+
+export interface CategoryInfo {
+  id: DiagnosticCategory;
+  label: string;
+  icon: LucideIcon;
+  // Text colour for icons
+  color: string;
+  // Background, text and border colours for badges
+  badge: string;
+  explanation: string;
+}
+
+export const DIAGNOSTIC_CATEGORIES: CategoryInfo[] = [
+  {
+    id: "EXPECT_ACTUAL",
+    label: "Expect/Actual",
+    icon: GitCompareArrows,
+    color: "text-violet-400",
+    badge: "bg-violet-500/15 text-violet-300 border-violet-500/30",
+    explanation: "An expect declaration is missing an actual on some target, or their signatures disagree.",
+  },
+  {
+    id: "COROUTINE_SAFETY",
+    label: "Coroutines",
+    icon: Workflow,
+    color: "text-orange-400",
+    badge: "bg-orange-500/15 text-orange-300 border-orange-500/30",
+    explanation: "Coroutine scope leaks, unstructured concurrency or blocking calls inside coroutines.",
+  },
+  {
+    id: "WASM_THREADING",
+    label: "Wasm threading",
+    icon: Cpu,
+    color: "text-sky-400",
+    badge: "bg-sky-500/15 text-sky-300 border-sky-500/30",
+    explanation: "Code that assumes threads, which the single-threaded wasmJs target does not have.",
+  },
+  {
+    id: "API_MISUSE",
+    label: "API misuse",
+    icon: PlugZap,
+    color: "text-rose-400",
+    badge: "bg-rose-500/15 text-rose-300 border-rose-500/30",
+    explanation: "A library or platform API used in a way that fails or misbehaves on some targets.",
+  },
+  {
+    id: "PERFORMANCE",
+    label: "Performance",
+    icon: Gauge,
+    color: "text-amber-400",
+    badge: "bg-amber-500/15 text-amber-300 border-amber-500/30",
+    explanation: "Avoidable work such as repeated allocation, recomposition or main-thread I/O.",
+  },
+  {
+    id: "MEMORY",
+    label: "Memory",
+    icon: MemoryStick,
+    color: "text-red-400",
+    badge: "bg-red-500/15 text-red-300 border-red-500/30",
+    explanation: "Leaked references, unbounded caches or retained platform objects.",
+  },
+  {
+    id: "COMPATIBILITY",
+    label: "Compatibility",
+    icon: MonitorSmartphone,
+    color: "text-teal-400",
+    badge: "bg-teal-500/15 text-teal-300 border-teal-500/30",
+    explanation: "Code that compiles for some targets but not others, or behaves differently between them.",
+  },
+  {
+    id: "DEPRECATION",
+    label: "Deprecation",
+    icon: Archive,
+    color: "text-zinc-400",
+    badge: "bg-zinc-500/15 text-zinc-300 border-zinc-500/30",
+    explanation: "Use of deprecated Kotlin, Compose or library APIs with a recommended replacement.",
+  },
+  {
+    id: "STYLE",
+    label: "Style",
+    icon: Paintbrush,
+    color: "text-slate-400",
+    badge: "bg-slate-500/15 text-slate-300 border-slate-500/30",
+    explanation: "Conventions and readability; no effect on behaviour.",
+  },
+];
+
+// "NEW_CATEGORY" -> "New category"
+function humanize(id: string): string {
+  const words = id.toLowerCase().replace(/[_-]+/g, " ").trim();
+  return words ? words[0].toUpperCase() + words.slice(1) : "Uncategorized";
+}
+
+export function categoryInfo(category: DiagnosticCategory): CategoryInfo {
+  return (
+    DIAGNOSTIC_CATEGORIES.find((c) => c.id === category) ?? {
+      id: category,
+      label: humanize(category),
+      icon: CircleHelp,
+      color: "text-muted-foreground",
+      badge: "bg-muted text-muted-foreground border-border",
+      explanation: "A category this version of DebugForge does not describe yet.",
+    }
+  );
+}
+
+export interface SeverityInfo {
+  id: DiagnosticSeverity;
+  label: string;
+  icon: LucideIcon;
+  // StatusBadge variant
+  variant: "error" | "warning" | "info" | "neutral";
+  color: string;
+  // Lower sorts first
+  rank: number;
+}
+
+export const SEVERITIES: SeverityInfo[] = [
+  { id: "error", label: "Error", icon: AlertCircle, variant: "error", color: "text-error", rank: 0 },
+  { id: "warning", label: "Warning", icon: AlertTriangle, variant: "warning", color: "text-warning", rank: 1 },
+  { id: "info", label: "Info", icon: CheckCircle2, variant: "info", color: "text-info", rank: 2 },
+  { id: "hint", label: "Hint", icon: Lightbulb, variant: "neutral", color: "text-muted-foreground", rank: 3 },
+];
+
+export function severityInfo(severity: DiagnosticSeverity): SeverityInfo {
+  return SEVERITIES.find((s) => s.id === severity) ?? SEVERITIES[SEVERITIES.length - 1];
+}
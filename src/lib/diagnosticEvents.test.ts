@@ -0,0 +1,138 @@
+import { describe, expect, it } from "vitest";
+import type { DiagnosticEvent, DiagnosticResponse } from "@/services/api";
+import { applyDiagnosticEvents, sameFinding } from "./diagnosticEvents";
+
+function diagnostic(id: string, overrides: Partial<DiagnosticResponse> = {}): DiagnosticResponse {
+  return {
+    id,
+    severity: "WARNING",
+    category: "COROUTINE_SAFETY",
+    message: "GlobalScope used",
+    explanation: "",
+    location: {
+      filePath: "/repo/shared/src/commonMain/kotlin/Sync.kt",
+      relativeFilePath: "shared/src/commonMain/kotlin/Sync.kt",
+      moduleId: ":shared",
+      sourceSet: "commonMain",
+      startLine: 4,
+      startColumn: 5,
+      endLine: 4,
+      endColumn: 16,
+    },
+    relatedLocations: [],
+    fixes: [],
+    source: "CoroutineAnalyzer",
+    timestamp: 1,
+    isActive: true,
+    tags: [],
+    ...overrides,
+  };
+}
+
+function inOtherFile(id: string): DiagnosticResponse {
+  const d = diagnostic(id);
+  return {
+    ...d,
+    location: {
+      ...d.location,
+      filePath: "/repo/app/src/main/kotlin/Main.kt",
+      relativeFilePath: "app/src/main/kotlin/Main.kt",
+    },
+  };
+}
+
+const added = (d: DiagnosticResponse): DiagnosticEvent => ({ type: "Added", diagnostic: d });
+const resolved = (id: string): DiagnosticEvent => ({ type: "Resolved", diagnosticId: id });
+const fileClear = (filePath: string): DiagnosticEvent => ({ type: "FileClear", filePath });
+
+describe("applyDiagnosticEvents", () => {
+  it("appends added diagnostics", () => {
+    const list = [diagnostic("d1")];
+    const result = applyDiagnosticEvents(list, [added(inOtherFile("d2"))]);
+    expect(result.diagnostics.map((d) => d.id)).toEqual(["d1", "d2"]);
+    expect(result.added).toEqual(["d2"]);
+    expect(result.removed).toEqual([]);
+  });
+
+  it("updates a changed diagnostic in place", () => {
+    const list = [diagnostic("d1"), inOtherFile("d2")];
+    const result = applyDiagnosticEvents(list, [added(diagnostic("d1", { severity: "ERROR" }))]);
+    expect(result.diagnostics.map((d) => [d.id, d.severity])).toEqual([
+      ["d1", "ERROR"],
+      ["d2", "WARNING"],
+    ]);
+    expect(result.added).toEqual([]);
+    expect(result.diagnostics[1]).toBe(list[1]);
+  });
+
+  it("removes resolved and dismissed diagnostics", () => {
+    const list = [diagnostic("d1"), inOtherFile("d2"), inOtherFile("d3")];
+    const result = applyDiagnosticEvents(list, [resolved("d1"), { type: "Dismissed", diagnosticId: "d3" }]);
+    expect(result.diagnostics.map((d) => d.id)).toEqual(["d2"]);
+    expect(result.removed).toEqual(["d1", "d3"]);
+  });
+
+  it("clears a file by absolute or relative path", () => {
+    const list = [diagnostic("d1"), inOtherFile("d2")];
+    expect(applyDiagnosticEvents(list, [fileClear("shared/src/commonMain/kotlin/Sync.kt")]).removed).toEqual(["d1"]);
+    expect(applyDiagnosticEvents(list, [fileClear("/repo/app/src/main/kotlin/Main.kt")]).removed).toEqual(["d2"]);
+  });
+
+  it("drops additions a later event in the batch takes back", () => {
+    const list = [inOtherFile("d2")];
+    const result = applyDiagnosticEvents(list, [
+      added(diagnostic("d1")),
+      added(diagnostic("d3")),
+      resolved("d3"),
+      fileClear("shared/src/commonMain/kotlin/Sync.kt"),
+    ]);
+    expect(result.diagnostics).toBe(list);
+    expect(result.added).toEqual([]);
+    expect(result.removed).toEqual([]);
+  });
+
+  it("keeps the list and its objects when a rescan re-reports the same diagnostics", () => {
+    const list = [diagnostic("d1"), inOtherFile("d2")];
+    const result = applyDiagnosticEvents(list, [
+      fileClear("/repo/shared/src/commonMain/kotlin/Sync.kt"),
+      added(diagnostic("d1")),
+    ]);
+    expect(result.diagnostics).toBe(list);
+    expect(result.added).toEqual([]);
+    expect(result.removed).toEqual([]);
+  });
+
+  it("treats a row still fading out that is added again as an update, not an addition", () => {
+    // The previous batch resolved d1, which stays in the list until its row has faded
+    const departing = [diagnostic("d1"), inOtherFile("d2")];
+    const result = applyDiagnosticEvents(departing, [added(diagnostic("d1", { message: "GlobalScope used twice" }))]);
+    expect(result.added).toEqual([]);
+    expect(result.removed).toEqual([]);
+    expect(result.diagnostics.map((d) => [d.id, d.message])).toEqual([
+      ["d1", "GlobalScope used twice"],
+      ["d2", "GlobalScope used"],
+    ]);
+  });
+
+  it("reports an id change as a removal and an addition of the same finding", () => {
+    const list = [diagnostic("d1"), inOtherFile("d2")];
+    const result = applyDiagnosticEvents(list, [
+      fileClear("/repo/shared/src/commonMain/kotlin/Sync.kt"),
+      added(diagnostic("d1-restarted")),
+    ]);
+    expect(result.removed).toEqual(["d1"]);
+    expect(result.added).toEqual(["d1-restarted"]);
+    const successor = result.diagnostics.find((d) => result.added.includes(d.id))!;
+    expect(sameFinding(list[0], successor)).toBe(true);
+  });
+});
+
+describe("sameFinding", () => {
+  it("matches on category, file and message, whatever the id and position", () => {
+    const moved = diagnostic("d9", { location: { ...diagnostic("d9").location, startLine: 40, endLine: 40 } });
+    expect(sameFinding(diagnostic("d1"), moved)).toBe(true);
+    expect(sameFinding(diagnostic("d1"), diagnostic("d1", { message: "Other" }))).toBe(false);
+    expect(sameFinding(diagnostic("d1"), diagnostic("d1", { category: "EXPECT_ACTUAL" }))).toBe(false);
+    expect(sameFinding(diagnostic("d1"), inOtherFile("d1"))).toBe(false);
+  });
+});
@@ -0,0 +1,85 @@
+import type { DiagnosticEvent, DiagnosticResponse } from "@/services/api";
+
+/**
+ * Folding streamed `DiagnosticEvent`s into a diagnostics list. Events arrive
+ * in bursts (a rescan is a FileClear followed by the file's diagnostics
+ * again), so they are applied a batch at a time: a diagnostic that is cleared
+ * and re-added in one batch keeps its place and, if unchanged, its identity,
+ * so nothing re-renders or jumps.
+ */
+
+export interface EventBatchResult {
+  diagnostics: DiagnosticResponse[];
+  // Ids new to the list
+  added: string[];
+  // Ids that left the list
+  removed: string[];
+}
+
+function inFile(diagnostic: DiagnosticResponse, path: string): boolean {
+  return diagnostic.location.filePath === path || diagnostic.location.relativeFilePath === path;
+}
+
+// Same finding under a new id, as after a server restart: rule, file and message match
+export function sameFinding(a: DiagnosticResponse, b: DiagnosticResponse): boolean {
+  return (
+    a.category === b.category &&
+    a.location.relativeFilePath === b.location.relativeFilePath &&
+    a.message === b.message
+  );
+}
+
+export function applyDiagnosticEvents(list: DiagnosticResponse[], events: DiagnosticEvent[]): EventBatchResult {
+  const upserts = new Map<string, DiagnosticResponse>();
+  const removed = new Set<string>();
+
+  for (const event of events) {
+    switch (event.type) {
+      case "Added":
+        if (!event.diagnostic) break;
+        upserts.set(event.diagnostic.id, event.diagnostic);
+        removed.delete(event.diagnostic.id);
+        break;
+      case "Resolved":
+      case "Dismissed":
+        if (!event.diagnosticId) break;
+        upserts.delete(event.diagnosticId);
+        removed.add(event.diagnosticId);
+        break;
+      case "FileClear": {
+        const path = event.filePath;
+        if (!path) break;
+        for (const d of list) if (inFile(d, path)) removed.add(d.id);
+        for (const [id, d] of upserts) {
+          if (!inFile(d, path)) continue;
+          upserts.delete(id);
+          removed.add(id);
+        }
+        break;
+      }
+      case "Progress":
+        break;
+    }
+  }
+
+  const known = new Set(list.map((d) => d.id));
+  const gone = list.filter((d) => removed.has(d.id)).map((d) => d.id);
+  const fresh = [...upserts.values()].filter((d) => !known.has(d.id));
+  let changed = gone.length > 0 || fresh.length > 0;
+
+  const kept = list
+    .filter((d) => !removed.has(d.id))
+    .map((d) => {
+      const update = upserts.get(d.id);
+      // Re-reported unchanged: keep the old object so rows do not re-render
+      if (!update || JSON.stringify(update) === JSON.stringify(d)) return d;
+      changed = true;
+      return update;
+    });
+
+  return {
+    diagnostics: changed ? [...kept, ...fresh] : list,
+    added: fresh.map((d) => d.id),
+    removed: gone,
+  };
+}
@@ -0,0 +1,178 @@
+import { describe, expect, it } from "vitest";
+import type { Diagnostic } from "@/types/debug";
+import {
+  EMPTY_FILTERS,
+  activeFilterCount,
+  facetCounts,
+  filterDiagnostics,
+  groupDiagnostics,
+  sortDiagnostics,
+  type DiagnosticFilters,
+} from "./diagnosticFilters";
+
+function diagnostic(
+  id: string,
+  overrides: Partial<Diagnostic> = {},
+  location: Partial<Diagnostic["location"]> = {}
+): Diagnostic {
+  return {
+    id,
+    severity: "warning",
+    category: "COROUTINE_SAFETY",
+    title: "GlobalScope used",
+    description: "Launches outlive the caller",
+    location: {
+      file: "/repo/shared/src/commonMain/kotlin/Sync.kt",
+      relativePath: "shared/src/commonMain/kotlin/Sync.kt",
+      moduleId: ":shared",
+      sourceSet: "commonMain",
+      line: 10,
+      column: 1,
+      endLine: 10,
+      endColumn: 12,
+      ...location,
+    },
+    relatedLocations: [],
+    fixes: [],
+    tags: [],
+    source: "CoroutineAnalyzer",
+    timestamp: 1,
+    platforms: ["android", "ios"],
+    ...overrides,
+  };
+}
+
+function filters(overrides: Partial<DiagnosticFilters>): DiagnosticFilters {
+  return { ...EMPTY_FILTERS, ...overrides };
+}
+
+const ids = (items: Diagnostic[]) => items.map((d) => d.id);
+
+const items = [
+  diagnostic("sync", { tags: ["FIXABLE"], baselineStatus: "unchanged" }),
+  diagnostic(
+    "actual",
+    { severity: "error", category: "EXPECT_ACTUAL", title: "Missing actual", source: "ExpectActualAnalyzer", timestamp: 3 },
+    { relativePath: "shared/src/commonMain/kotlin/Clock.kt", line: 2 }
+  ),
+  diagnostic(
+    "ios",
+    { severity: "info", category: "NEW_RULE", title: "Prefer Dispatchers.Main", timestamp: 2, baselineStatus: "new" },
+    { relativePath: "app/src/iosMain/kotlin/Main.kt", moduleId: ":app", sourceSet: "iosMain", line: 5 }
+  ),
+  diagnostic("sync-later", { tags: ["FIXABLE", "BREAKING_CHANGE"] }, { line: 3 }),
+];
+
+describe("filterDiagnostics", () => {
+  it("keeps everything without filters", () => {
+    expect(filterDiagnostics(items, EMPTY_FILTERS)).toEqual(items);
+  });
+
+  it("ORs values within a facet and ANDs facets", () => {
+    expect(ids(filterDiagnostics(items, filters({ severities: ["error", "info"] })))).toEqual(["actual", "ios"]);
+    expect(ids(filterDiagnostics(items, filters({ severities: ["warning", "info"], modules: [":shared"] })))).toEqual([
+      "sync",
+      "sync-later",
+    ]);
+    expect(ids(filterDiagnostics(items, filters({ tags: ["BREAKING_CHANGE"] })))).toEqual(["sync-later"]);
+  });
+
+  it("matches baseline statuses only on diagnostics that have one", () => {
+    expect(ids(filterDiagnostics(items, filters({ baseline: ["new"] })))).toEqual(["ios"]);
+    expect(ids(filterDiagnostics(items, filters({ baseline: ["new", "unchanged"] })))).toEqual(["sync", "ios"]);
+  });
+
+  it("searches title and description, ignoring case and surrounding space", () => {
+    expect(ids(filterDiagnostics(items, filters({ search: "  dispatchers.MAIN " })))).toEqual(["ios"]);
+    expect(ids(filterDiagnostics(items, filters({ search: "outlive", severities: ["error"] })))).toEqual(["actual"]);
+  });
+});
+
+describe("activeFilterCount", () => {
+  it("counts non-empty facets and a non-blank search", () => {
+    expect(activeFilterCount(EMPTY_FILTERS)).toBe(0);
+    expect(activeFilterCount(filters({ search: "   " }))).toBe(0);
+    expect(activeFilterCount(filters({ severities: ["error", "warning"], tags: ["FIXABLE"], search: "x" }))).toBe(3);
+  });
+});
+
+describe("facetCounts", () => {
+  it("counts values under the other facets, ignoring the facet's own selection", () => {
+    const selected = filters({ severities: ["error"], modules: [":shared"] });
+    expect(facetCounts(items, selected, "severities")).toEqual([
+      { value: "error", count: 1 },
+      { value: "warning", count: 2 },
+    ]);
+    expect(facetCounts(items, selected, "tags")).toEqual([]);
+    expect(facetCounts(items, filters({}), "tags")).toEqual([
+      { value: "BREAKING_CHANGE", count: 1 },
+      { value: "FIXABLE", count: 2 },
+    ]);
+  });
+
+  it("keeps selected values that nothing matches any more", () => {
+    expect(facetCounts(items, filters({ sourceSets: ["jvmMain"] }), "sourceSets")).toEqual([
+      { value: "commonMain", count: 3 },
+      { value: "iosMain", count: 1 },
+      { value: "jvmMain", count: 0 },
+    ]);
+  });
+});
+
+describe("sortDiagnostics", () => {
+  it("sorts by severity, then location", () => {
+    expect(ids(sortDiagnostics(items, "severity"))).toEqual(["actual", "sync-later", "sync", "ios"]);
+  });
+
+  it("sorts by path, line and column", () => {
+    const sameLine = diagnostic("column", {}, { line: 3, column: 9 });
+    expect(ids(sortDiagnostics([...items, sameLine], "location"))).toEqual([
+      "ios",
+      "actual",
+      "sync-later",
+      "column",
+      "sync",
+    ]);
+  });
+
+  it("sorts newest first, then by location", () => {
+    expect(ids(sortDiagnostics(items, "newest"))).toEqual(["actual", "ios", "sync-later", "sync"]);
+  });
+
+  it("leaves the input untouched", () => {
+    const before = ids(items);
+    sortDiagnostics(items, "location");
+    expect(ids(items)).toEqual(before);
+  });
+});
+
+describe("groupDiagnostics", () => {
+  it("puts everything in one group for none", () => {
+    const [group, ...rest] = groupDiagnostics(items, "none");
+    expect(rest).toEqual([]);
+    expect(group).toMatchObject({ key: "all", label: "All diagnostics" });
+    expect(group.counts).toEqual({ error: 1, warning: 2, info: 1, hint: 0 });
+  });
+
+  it("orders severity and category groups like the registry, unknown categories last", () => {
+    expect(groupDiagnostics(items, "severity").map((g) => g.label)).toEqual(["Error", "Warning", "Info"]);
+    expect(groupDiagnostics(items, "category").map((g) => [g.key, g.label])).toEqual([
+      ["EXPECT_ACTUAL", "Expect/Actual"],
+      ["COROUTINE_SAFETY", "Coroutines"],
+      ["NEW_RULE", "New rule"],
+    ]);
+  });
+
+  it("orders file and module groups alphabetically, keeping the order within each", () => {
+    const groups = groupDiagnostics(sortDiagnostics(items, "location"), "file");
+    expect(groups.map((g) => [g.key, ids(g.items)])).toEqual([
+      ["app/src/iosMain/kotlin/Main.kt", ["ios"]],
+      ["shared/src/commonMain/kotlin/Clock.kt", ["actual"]],
+      ["shared/src/commonMain/kotlin/Sync.kt", ["sync-later", "sync"]],
+    ]);
+    expect(groupDiagnostics(items, "module").map((g) => [g.key, g.counts.warning])).toEqual([
+      [":app", 0],
+      [":shared", 2],
+    ]);
+  });
+});
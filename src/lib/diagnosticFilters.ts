@@ -0,0 +1,160 @@
+import type { BaselineStatus, Diagnostic, DiagnosticSeverity } from "@/types/debug";
+import { DIAGNOSTIC_CATEGORIES, categoryInfo, severityInfo } from "@/lib/diagnosticCategories";
+
+export interface DiagnosticFilters {
+  severities: DiagnosticSeverity[];
+  categories: string[];
+  modules: string[];
+  sourceSets: string[];
+  // Analyzer that reported the diagnostic
+  sources: string[];
+  tags: string[];
+  // New or unchanged since the baseline; matches nothing while there is none
+  baseline: BaselineStatus[];
+  // Matched against message and explanation
+  search: string;
+}
+
+// Filters whose value is a list of allowed values
+export type FacetKey = Exclude<keyof DiagnosticFilters, "search">;
+
+export type GroupBy = "none" | "file" | "module" | "category" | "severity";
+
+export type SortBy = "severity" | "location" | "newest";
+
+export const EMPTY_FILTERS: DiagnosticFilters = {
+  severities: [],
+  categories: [],
+  modules: [],
+  sourceSets: [],
+  sources: [],
+  tags: [],
+  baseline: [],
+  search: "",
+};
+
+// The values a diagnostic contributes to each facet
+const facetOf: Record<FacetKey, (d: Diagnostic) => string[]> = {
+  severities: (d) => [d.severity],
+  categories: (d) => [d.category],
+  modules: (d) => [d.location.moduleId],
+  sourceSets: (d) => [d.location.sourceSet],
+  sources: (d) => [d.source],
+  tags: (d) => d.tags,
+  baseline: (d) => (d.baselineStatus ? [d.baselineStatus] : []),
+};
+
+export function activeFilterCount(filters: DiagnosticFilters): number {
+  const facets = (Object.keys(facetOf) as FacetKey[]).filter((key) => filters[key].length > 0).length;
+  return facets + (filters.search.trim() ? 1 : 0);
+}
+
+/**
+ * Values of one facet with how many diagnostics carry each. Counts ignore
+ * the facet's own selection so users can see what widening would add.
+ */
+export function facetCounts(
+  items: Diagnostic[],
+  filters: DiagnosticFilters,
+  key: FacetKey
+): { value: string; count: number }[] {
+  const counts = new Map<string, number>();
+  for (const item of filterDiagnostics(items, { ...filters, [key]: [] })) {
+    for (const value of facetOf[key](item)) counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+  // Keep selected values listed even when nothing matches them any more
+  for (const value of filters[key]) if (!counts.has(value)) counts.set(value, 0);
+  return [...counts].map(([value, count]) => ({ value, count })).sort((a, b) => a.value.localeCompare(b.value));
+}
+
+// Values within a facet are OR-ed, facets are AND-ed
+export function filterDiagnostics(items: Diagnostic[], filters: DiagnosticFilters): Diagnostic[] {
+  const search = filters.search.trim().toLowerCase();
+  return items.filter((item) => {
+    for (const key of Object.keys(facetOf) as FacetKey[]) {
+      const selected: string[] = filters[key];
+      if (selected.length > 0 && !facetOf[key](item).some((v) => selected.includes(v))) return false;
+    }
+    return !search || `${item.title}\n${item.description}`.toLowerCase().includes(search);
+  });
+}
+
+function compareLocation(a: Diagnostic, b: Diagnostic): number {
+  return (
+    a.location.relativePath.localeCompare(b.location.relativePath) ||
+    a.location.line - b.location.line ||
+    a.location.column - b.location.column
+  );
+}
+
+export function sortDiagnostics(items: Diagnostic[], sortBy: SortBy): Diagnostic[] {
+  const sorted = [...items];
+  switch (sortBy) {
+    case "severity":
+      return sorted.sort(
+        (a, b) => severityInfo(a.severity).rank - severityInfo(b.severity).rank || compareLocation(a, b)
+      );
+    case "location":
+      return sorted.sort(compareLocation);
+    case "newest":
+      return sorted.sort((a, b) => b.timestamp - a.timestamp || compareLocation(a, b));
+  }
+}
+
+export interface DiagnosticGroup {
+  key: string;
+  label: string;
+  items: Diagnostic[];
+  counts: Record<DiagnosticSeverity, number>;
+}
+
+const groupKeyOf: Record<Exclude<GroupBy, "none">, (d: Diagnostic) => string> = {
+  file: (d) => d.location.relativePath || d.location.file,
+  module: (d) => d.location.moduleId,
+  category: (d) => d.category,
+  severity: (d) => d.severity,
+};
+
+function groupLabel(groupBy: GroupBy, key: string): string {
+  if (groupBy === "category") return categoryInfo(key).label;
+  if (groupBy === "severity") return severityInfo(key as DiagnosticSeverity).label;
+  return key;
+}
+
+// Registry order for severity and category, alphabetical otherwise
+function groupOrder(groupBy: GroupBy, key: string): number {
+  if (groupBy === "severity") return severityInfo(key as DiagnosticSeverity).rank;
+  if (groupBy === "category") {
+    const index = DIAGNOSTIC_CATEGORIES.findIndex((c) => c.id === key);
+    return index < 0 ? DIAGNOSTIC_CATEGORIES.length : index;
+  }
+  return 0;
+}
+
+/**
+ * Split already sorted diagnostics into groups, keeping their order within
+ * each group. `none` yields a single group holding everything.
+ */
+export function groupDiagnostics(items: Diagnostic[], groupBy: GroupBy): DiagnosticGroup[] {
+  const groups = new Map<string, Diagnostic[]>();
+  for (const item of items) {
+    const key = groupBy === "none" ? "all" : groupKeyOf[groupBy](item);
+    const group = groups.get(key);
+    if (group) group.push(item);
+    else groups.set(key, [item]);
+  }
+
+  return [...groups]
+    .map(([key, groupItems]) => ({
+      key,
+      label: groupBy === "none" ? "All diagnostics" : groupLabel(groupBy, key),
+      items: groupItems,
+      counts: {
+        error: groupItems.filter((d) => d.severity === "error").length,
+        warning: groupItems.filter((d) => d.severity === "warning").length,
+        info: groupItems.filter((d) => d.severity === "info").length,
+        hint: groupItems.filter((d) => d.severity === "hint").length,
+      },
+    }))
+    .sort((a, b) => groupOrder(groupBy, a.key) - groupOrder(groupBy, b.key) || a.label.localeCompare(b.label));
+}
@@ -0,0 +1,35 @@
+import type { FileLocation } from "@/store/debugStore";
+import type { Diagnostic, SourceLocation } from "@/types/debug";
+
+/**
+ * The places a diagnostic points at: its own location first, then the related
+ * ones (for an expect/actual mismatch, the `actual` declarations in other
+ * source sets). Navigation steps through them in that order and wraps.
+ */
+
+export function diagnosticLocations(diagnostic: Diagnostic): SourceLocation[] {
+  return [diagnostic.location, ...diagnostic.relatedLocations];
+}
+
+export function toFileLocation(location: SourceLocation): FileLocation {
+  return { path: location.file, startLine: location.line, endLine: Math.max(location.endLine, location.line) };
+}
+
+// `:shared:data · iosMain`
+export function locationLabel(location: SourceLocation): string {
+  return [location.moduleId, location.sourceSet].filter(Boolean).join(" · ");
+}
+
+// Position of the open file location among `locations`, or -1
+export function openLocationIndex(locations: SourceLocation[], open: FileLocation | null): number {
+  if (!open) return -1;
+  return locations.findIndex((l) => l.file === open.path && l.line === open.startLine);
+}
+
+// The location `delta` steps from the open one; from outside the list, forward starts at the first
+export function stepLocation(locations: SourceLocation[], open: FileLocation | null, delta: number): SourceLocation | null {
+  if (locations.length === 0) return null;
+  const index = openLocationIndex(locations, open);
+  const from = index < 0 ? (delta > 0 ? -1 : 0) : index;
+  return locations[(((from + delta) % locations.length) + locations.length) % locations.length];
+}
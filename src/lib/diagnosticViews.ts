@@ -0,0 +1,126 @@
+import { z } from "zod";
+import { EMPTY_FILTERS, type DiagnosticFilters, type FacetKey, type GroupBy, type SortBy } from "@/lib/diagnosticFilters";
+
+/**
+ * Named diagnostic views: how they are encoded in a shareable URL and in
+ * the JSON files teams pass around.
+ */
+
+export interface DiagnosticView {
+  filters: DiagnosticFilters;
+  groupBy: GroupBy;
+  sortBy: SortBy;
+}
+
+export interface SavedView extends DiagnosticView {
+  id: string;
+  name: string;
+}
+
+export const DEFAULT_VIEW: DiagnosticView = { filters: EMPTY_FILTERS, groupBy: "none", sortBy: "severity" };
+
+export const VIEWS_FORMAT = "debugforge-views";
+
+export interface ViewsFile {
+  format: typeof VIEWS_FORMAT;
+  version: 1;
+  // Repository the views were saved for (informational)
+  repository: string | null;
+  views: SavedView[];
+}
+
+const GROUP_VALUES: GroupBy[] = ["none", "file", "module", "category", "severity"];
+const SORT_VALUES: SortBy[] = ["severity", "location", "newest"];
+
+// Short query parameter names, one per facet
+const FACET_PARAMS: Record<FacetKey, string> = {
+  severities: "sev",
+  categories: "cat",
+  modules: "mod",
+  sourceSets: "set",
+  sources: "src",
+  tags: "tag",
+  baseline: "base",
+};
+
+// Every query parameter a view owns; others (e.g. ?backend=) are left alone
+export const VIEW_PARAMS = [...Object.values(FACET_PARAMS), "q", "group", "sort", "diag"];
+
+// Write `view` and the selected diagnostic into `params`, omitting defaults
+export function writeViewParams(params: URLSearchParams, view: DiagnosticView, selectedId: string | null): URLSearchParams {
+  const next = new URLSearchParams(params);
+  VIEW_PARAMS.forEach((name) => next.delete(name));
+
+  for (const [key, name] of Object.entries(FACET_PARAMS) as [FacetKey, string][]) {
+    if (view.filters[key].length > 0) next.set(name, view.filters[key].join(","));
+  }
+  if (view.filters.search) next.set("q", view.filters.search);
+  if (view.groupBy !== DEFAULT_VIEW.groupBy) next.set("group", view.groupBy);
+  if (view.sortBy !== DEFAULT_VIEW.sortBy) next.set("sort", view.sortBy);
+  if (selectedId) next.set("diag", selectedId);
+  return next;
+}
+
+// The view a link describes, or null if it carries no view parameters
+export function readViewParams(params: URLSearchParams): { view: DiagnosticView; selectedId: string | null } | null {
+  if (!VIEW_PARAMS.some((name) => params.has(name))) return null;
+
+  const list = (name: string) => (params.get(name) ?? "").split(",").map((v) => v.trim()).filter(Boolean);
+  const facets = Object.fromEntries(Object.entries(FACET_PARAMS).map(([key, name]) => [key, list(name)]));
+  const filters = { ...EMPTY_FILTERS, ...facets, search: params.get("q") ?? "" } as DiagnosticFilters;
+  const group = params.get("group") as GroupBy;
+  const sort = params.get("sort") as SortBy;
+
+  return {
+    view: {
+      filters,
+      groupBy: GROUP_VALUES.includes(group) ? group : DEFAULT_VIEW.groupBy,
+      sortBy: SORT_VALUES.includes(sort) ? sort : DEFAULT_VIEW.sortBy,
+    },
+    selectedId: params.get("diag"),
+  };
+}
+
+const savedViewSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1),
+  filters: z.object({
+    severities: z.array(z.enum(["error", "warning", "info", "hint"])).default([]),
+    categories: z.array(z.string()).default([]),
+    modules: z.array(z.string()).default([]),
+    sourceSets: z.array(z.string()).default([]),
+    sources: z.array(z.string()).default([]),
+    tags: z.array(z.string()).default([]),
+    baseline: z.array(z.enum(["new", "unchanged"])).default([]),
+    search: z.string().default(""),
+  }),
+  groupBy: z.enum(["none", "file", "module", "category", "severity"]).default("none"),
+  sortBy: z.enum(["severity", "location", "newest"]).default("severity"),
+});
+
+const viewsFileSchema = z.object({
+  format: z.literal(VIEWS_FORMAT),
+  version: z.literal(1),
+  repository: z.string().nullable().default(null),
+  views: z.array(savedViewSchema),
+});
+
+export function toViewsFile(repository: string | null, views: SavedView[]): ViewsFile {
+  return { format: VIEWS_FORMAT, version: 1, repository, views };
+}
+
+// Read views from an exported file, throwing if it is not one
+export function parseViewsFile(text: string): ViewsFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("Views file is not valid JSON");
+  }
+  const result = viewsFileSchema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Not a DebugForge views file (${issue.path.join(".") || "root"}: ${issue.message})`);
+  }
+  return result.data as ViewsFile;
+}
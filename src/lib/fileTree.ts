@@ -0,0 +1,65 @@
+import type { DirectoryEntry } from "@/services/api";
+import type { Diagnostic, DiagnosticSeverity } from "@/types/debug";
+import { severityInfo } from "@/lib/diagnosticCategories";
+
+/**
+ * Helpers for the file explorer: source set ordering and diagnostic counts
+ * rolled up from files to their folders.
+ */
+
+// KMP source sets in the order the explorer lists them; others follow alphabetically
+export const SOURCE_SETS = ["commonMain", "androidMain", "iosMain", "jsMain", "wasmJsMain", "jvmMain"];
+
+export function compareSourceSets(a: string, b: string): number {
+  const rank = (name: string) => {
+    const index = SOURCE_SETS.indexOf(name);
+    return index < 0 ? SOURCE_SETS.length : index;
+  };
+  return rank(a) - rank(b) || a.localeCompare(b);
+}
+
+export interface PathSummary {
+  count: number;
+  worst: DiagnosticSeverity;
+}
+
+// Parent folders of a path, nearest first, without the root "/"
+function ancestors(path: string): string[] {
+  const result: string[] = [];
+  for (let i = path.lastIndexOf("/"); i > 0; i = path.lastIndexOf("/", i - 1)) result.push(path.slice(0, i));
+  return result;
+}
+
+// Diagnostic count and worst severity for every file and each of its folders
+export function summarizeByPath(diagnostics: Diagnostic[]): Map<string, PathSummary> {
+  const summaries = new Map<string, PathSummary>();
+  for (const diagnostic of diagnostics) {
+    const file = diagnostic.location.file;
+    if (!file) continue;
+    for (const path of [file, ...ancestors(file)]) {
+      const summary = summaries.get(path);
+      if (!summary) summaries.set(path, { count: 1, worst: diagnostic.severity });
+      else {
+        summary.count++;
+        if (severityInfo(diagnostic.severity).rank < severityInfo(summary.worst).rank) summary.worst = diagnostic.severity;
+      }
+    }
+  }
+  return summaries;
+}
+
+/**
+ * Entries of `directory` known from diagnostic locations alone. Used when the
+ * backend cannot list directories, so files with findings stay reachable.
+ */
+export function entriesFromDiagnostics(directory: string, diagnostics: Diagnostic[]): DirectoryEntry[] {
+  const prefix = `${directory.replace(/\/+$/, "")}/`;
+  const entries = new Map<string, DirectoryEntry>();
+  for (const diagnostic of diagnostics) {
+    const file = diagnostic.location.file;
+    if (!file.startsWith(prefix)) continue;
+    const [name, ...rest] = file.slice(prefix.length).split("/");
+    entries.set(name, { name, path: prefix + name, type: rest.length > 0 ? "directory" : "file", size: null });
+  }
+  return [...entries.values()].sort((a, b) => a.type.localeCompare(b.type) || a.name.localeCompare(b.name));
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { LANGUAGES, PLAIN_TEXT, languageForPath, languageInfo, registerLanguage } from "./languages";
+
+describe("languageForPath", () => {
+  it("picks the language with the longest matching extension", () => {
+    expect(languageForPath("app/build.gradle.kts").id).toBe("gradle-kts");
+    expect(languageForPath("scripts/release.main.kts").id).toBe("kotlin");
+    expect(languageForPath("shared/src/commonMain/kotlin/Repo.kt").id).toBe("kotlin");
+  });
+
+  it("matches the file name only, ignoring case", () => {
+    expect(languageForPath("iosApp/Info.PLIST").id).toBe("xml");
+    expect(languageForPath("gradle/libs.versions.toml").id).toBe("toml");
+    expect(languageForPath("iosApp/Sources/App.swift").id).toBe("swift");
+    expect(languageForPath("xml.d/README")).toBe(PLAIN_TEXT);
+  });
+
+  it("falls back to plain text", () => {
+    expect(languageForPath("gradlew")).toBe(PLAIN_TEXT);
+    expect(languageForPath("notes.kt.bak")).toBe(PLAIN_TEXT);
+  });
+});
+
+describe("registerLanguage", () => {
+  it("adds languages and replaces them by id", () => {
+    const count = LANGUAGES.length;
+    registerLanguage({ id: "yaml", label: "YAML", extensions: ["yml", "yaml"], lexer: null });
+    expect(languageForPath(".github/workflows/ci.yml").id).toBe("yaml");
+    registerLanguage({ id: "yaml", label: "YAML files", extensions: ["yaml"], lexer: null });
+    expect(LANGUAGES).toHaveLength(count + 1);
+    expect(languageInfo("yaml").label).toBe("YAML files");
+    expect(languageForPath("ci.yml")).toBe(PLAIN_TEXT);
+    LANGUAGES.splice(LANGUAGES.findIndex((l) => l.id === "yaml"), 1);
+  });
+
+  it("looks languages up by id", () => {
+    expect(languageInfo("toml").label).toBe("TOML");
+    expect(languageInfo("cobol")).toBe(PLAIN_TEXT);
+  });
+});
@@ -0,0 +1,57 @@
+import type { LineLexer } from "@/lib/syntaxHighlight";
+import { lexKotlinLine } from "@/lib/lexers/kotlin";
+import { lexTomlLine } from "@/lib/lexers/toml";
+import { lexXmlLine } from "@/lib/lexers/xml";
+import { lexObjectiveCLine, lexSwiftLine } from "@/lib/lexers/cFamily";
+
+/**
+ * Languages the code views know, keyed by file extension. A file matches the
+ * language with the longest extension it ends in, so `build.gradle.kts` is
+ * Gradle rather than plain Kotlin script. Unknown files are plain text.
+ */
+
+export interface LanguageInfo {
+  id: string;
+  label: string;
+  // Matched against the end of the file name, without the leading dot
+  extensions: string[];
+  // null renders the file unhighlighted
+  lexer: LineLexer | null;
+}
+
+export const PLAIN_TEXT: LanguageInfo = { id: "text", label: "Plain text", extensions: [], lexer: null };
+
+export const LANGUAGES: LanguageInfo[] = [
+  { id: "kotlin", label: "Kotlin", extensions: ["kt", "kts"], lexer: lexKotlinLine },
+  { id: "gradle-kts", label: "Gradle (Kotlin DSL)", extensions: ["gradle.kts"], lexer: lexKotlinLine },
+  { id: "toml", label: "TOML", extensions: ["toml"], lexer: lexTomlLine },
+  { id: "xml", label: "XML", extensions: ["xml", "plist", "xcscheme", "storyboard", "xib"], lexer: lexXmlLine },
+  { id: "swift", label: "Swift", extensions: ["swift"], lexer: lexSwiftLine },
+  { id: "objective-c", label: "Objective-C", extensions: ["m", "mm", "h"], lexer: lexObjectiveCLine },
+];
+
+// Add a language, or replace the one with the same id
+export function registerLanguage(language: LanguageInfo): void {
+  const index = LANGUAGES.findIndex((l) => l.id === language.id);
+  if (index >= 0) LANGUAGES[index] = language;
+  else LANGUAGES.push(language);
+}
+
+export function languageInfo(id: string): LanguageInfo {
+  return LANGUAGES.find((l) => l.id === id) ?? PLAIN_TEXT;
+}
+
+export function languageForPath(path: string): LanguageInfo {
+  const name = (path.split("/").pop() ?? path).toLowerCase();
+  let best: LanguageInfo = PLAIN_TEXT;
+  let bestLength = 0;
+  for (const language of LANGUAGES) {
+    for (const extension of language.extensions) {
+      if (name.endsWith(`.${extension}`) && extension.length > bestLength) {
+        best = language;
+        bestLength = extension.length;
+      }
+    }
+  }
+  return best;
+}
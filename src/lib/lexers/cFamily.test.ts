@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { tokenize, type TokenType } from "@/lib/syntaxHighlight";
+import { lexObjectiveCLine, lexSwiftLine } from "./cFamily";
+
+// [type, text] pairs per line, whitespace left out
+function lex(code: string, lexer = lexSwiftLine): [TokenType, string][][] {
+  return tokenize(code, lexer).map((line) =>
+    line.tokens
+      .map((t): [TokenType, string] => [t.type, t.type === "plain" ? t.text.trim() : t.text])
+      .filter(([, text]) => text)
+  );
+}
+
+describe("lexSwiftLine", () => {
+  it("reads attributes, keywords, types and functions", () => {
+    expect(lex("@MainActor func load(id: Int) async")[0]).toEqual([
+      ["annotation", "@MainActor"],
+      ["keyword", "func"],
+      ["function", "load"],
+      ["punctuation", "("],
+      ["plain", "id"],
+      ["punctuation", ":"],
+      ["type", "Int"],
+      ["punctuation", ")"],
+      ["keyword", "async"],
+    ]);
+  });
+
+  it("lexes interpolations as code, matching their parentheses", () => {
+    expect(lex('"n: \\(count(of: (a)))"')[0]).toEqual([
+      ["string", '"n: '],
+      ["interpolation", "\\("],
+      ["function", "count"],
+      ["punctuation", "("],
+      ["plain", "of"],
+      ["punctuation", ":"],
+      ["punctuation", "("],
+      ["plain", "a"],
+      ["punctuation", "))"],
+      ["interpolation", ")"],
+      ["string", '"'],
+    ]);
+  });
+
+  it("nests block comments across lines", () => {
+    const lines = tokenize("/* a /* b */\nc */ let x", lexSwiftLine);
+    expect(lines[0].endState).toEqual([{ kind: "comment", depth: 1 }]);
+    expect(lex("/* a /* b */\nc */ let x")[1]).toEqual([
+      ["comment", "c */"],
+      ["keyword", "let"],
+      ["plain", "x"],
+    ]);
+  });
+
+  it("keeps multi-line strings open and closes ordinary ones at the line break", () => {
+    const lines = tokenize('let s = """\nbody "quoted"\n"""\nlet t = "open\nlet u = 1', lexSwiftLine);
+    expect(lines.map((line) => line.endState)).toEqual([[{ kind: "raw" }], [{ kind: "raw" }], [], [], []]);
+    expect(lines[1].tokens).toMatchObject([{ type: "string", text: 'body "quoted"' }]);
+  });
+});
+
+describe("lexObjectiveCLine", () => {
+  it("reads directives, headers, @ keywords and @ strings", () => {
+    expect(lex('#import <Foundation/Foundation.h>\n@interface Repo\nNSString *s = @"hi";', lexObjectiveCLine)).toEqual([
+      [
+        ["annotation", "#import"],
+        ["string", "<Foundation/Foundation.h>"],
+      ],
+      [
+        ["keyword", "@interface"],
+        ["type", "Repo"],
+      ],
+      [
+        ["type", "NSString"],
+        ["punctuation", "*"],
+        ["plain", "s"],
+        ["punctuation", "="],
+        ["string", '@"hi"'],
+        ["punctuation", ";"],
+      ],
+    ]);
+  });
+
+  it("does not nest block comments", () => {
+    const lines = tokenize("/* a /* b */ int x;", lexObjectiveCLine);
+    expect(lines[0].endState).toEqual([]);
+    expect(lines[0].tokens[0]).toMatchObject({ type: "comment", text: "/* a /* b */" });
+  });
+});
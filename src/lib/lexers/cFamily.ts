@@ -0,0 +1,192 @@
+import { matchAt, tokenWriter, type LineLexer, type TokenType } from "@/lib/syntaxHighlight";
+
+/**
+ * Lexer for the C-like languages on the iOS side of a KMP project: Swift and
+ * Objective-C. They differ in a few switches, set per language below.
+ */
+
+interface CFamilyOptions {
+  keywords: Set<string>;
+  // Swift block comments nest, C ones do not
+  nestedComments: boolean;
+  // Swift `"\(expr)"` interpolation and `"""` multi-line strings
+  swiftStrings: boolean;
+  // Objective-C `@interface`, `@"..."` and friends
+  atKeywords: boolean;
+}
+
+type Frame =
+  | { kind: "comment"; depth: number }
+  | { kind: "string" }
+  | { kind: "raw" }
+  // `\( ... )` inside a Swift string, with the parentheses opened within it
+  | { kind: "interpolation"; parens: number };
+
+const IDENTIFIER = /[A-Za-z_][A-Za-z0-9_]*/y;
+const NUMBER = /(?:0[xX][\da-fA-F_]+|0[bB][01_]+|0[oO][0-7_]+|\d[\d_]*(?:\.\d[\d_]*)?(?:[eE][+-]?\d+)?)[uUlLfF]*/y;
+const CHAR = /'(?:\\.|[^'\\])+'/y;
+const DIRECTIVE = /#\s*[A-Za-z_]+/y;
+
+function createCFamilyLexer(options: CFamilyOptions): LineLexer {
+  return (text, line, state) => {
+    const frames: Frame[] = ((state as Frame[] | undefined) ?? []).map((frame) => ({ ...frame }));
+    const { tokens, emit, previousWord } = tokenWriter(text, line);
+    let i = 0;
+
+    while (i < text.length) {
+      const top = frames[frames.length - 1];
+
+      if (top?.kind === "comment") {
+        const start = i;
+        while (i < text.length && top.depth > 0) {
+          if (options.nestedComments && text.startsWith("/*", i)) {
+            top.depth++;
+            i += 2;
+          } else if (text.startsWith("*/", i)) {
+            top.depth--;
+            i += 2;
+          } else {
+            i++;
+          }
+        }
+        emit("comment", start, i);
+        if (top.depth === 0) frames.pop();
+        continue;
+      }
+
+      if (top?.kind === "string" || top?.kind === "raw") {
+        const start = i;
+        let closed = false;
+        let interpolation = false;
+        while (i < text.length) {
+          if (options.swiftStrings && text.startsWith("\\(", i)) {
+            interpolation = true;
+            break;
+          } else if (text[i] === "\\") {
+            i += 2;
+          } else if (top.kind === "string" && text[i] === '"') {
+            i++;
+            closed = true;
+            break;
+          } else if (top.kind === "raw" && text.startsWith('"""', i)) {
+            i += 3;
+            closed = true;
+            break;
+          } else {
+            i++;
+          }
+        }
+        emit("string", start, Math.min(i, text.length));
+        if (closed) {
+          frames.pop();
+        } else if (interpolation) {
+          emit("interpolation", i, i + 2);
+          frames.push({ kind: "interpolation", parens: 0 });
+          i += 2;
+        }
+        continue;
+      }
+
+      const ch = text[i];
+
+      if (/\s/.test(ch)) {
+        const start = i;
+        while (i < text.length && /\s/.test(text[i])) i++;
+        emit("plain", start, i);
+      } else if (text.startsWith("//", i)) {
+        emit("comment", i, text.length);
+        i = text.length;
+      } else if (text.startsWith("/*", i)) {
+        emit("comment", i, i + 2);
+        frames.push({ kind: "comment", depth: 1 });
+        i += 2;
+      } else if (options.swiftStrings && text.startsWith('"""', i)) {
+        emit("string", i, i + 3);
+        frames.push({ kind: "raw" });
+        i += 3;
+      } else if (ch === '"' || (options.atKeywords && text.startsWith('@"', i))) {
+        const quote = ch === "@" ? 2 : 1;
+        emit("string", i, i + quote);
+        frames.push({ kind: "string" });
+        i += quote;
+      } else if (ch === "'" && matchAt(CHAR, text, i)) {
+        const literal = matchAt(CHAR, text, i)!;
+        emit("string", i, i + literal.length);
+        i += literal.length;
+      } else if (ch === "#" && matchAt(DIRECTIVE, text, i)) {
+        // Preprocessor lines in Objective-C, compiler directives (#if, #available) in Swift
+        const directive = matchAt(DIRECTIVE, text, i)!;
+        emit("annotation", i, i + directive.length);
+        i += directive.length;
+        // `#import <Foundation/Foundation.h>` names a header like a string
+        const header = /^(\s*)(<[^>]*>)/.exec(text.slice(i));
+        if (/import|include/.test(directive) && header) {
+          emit("plain", i, i + header[1].length);
+          emit("string", i + header[1].length, i + header[0].length);
+          i += header[0].length;
+        }
+      } else if (ch === "@" && matchAt(IDENTIFIER, text, i + 1)) {
+        // `@interface` in Objective-C, attributes such as `@MainActor` in Swift
+        const name = matchAt(IDENTIFIER, text, i + 1)!;
+        emit(options.atKeywords ? "keyword" : "annotation", i, i + 1 + name.length);
+        i += 1 + name.length;
+      } else if (/\d/.test(ch)) {
+        const number = matchAt(NUMBER, text, i) ?? ch;
+        emit("number", i, i + number.length);
+        i += number.length;
+      } else if (matchAt(IDENTIFIER, text, i)) {
+        const word = matchAt(IDENTIFIER, text, i)!;
+        const after = text.slice(i + word.length).trimStart();
+        let type: TokenType = "plain";
+        if (options.keywords.has(word)) type = "keyword";
+        else if (/^[A-Z]/.test(word)) type = "type";
+        else if (after.startsWith("(") || previousWord() === "func") type = "function";
+        emit(type, i, i + word.length);
+        i += word.length;
+      } else if (top?.kind === "interpolation" && ch === ")" && top.parens === 0) {
+        emit("interpolation", i, i + 1);
+        frames.pop();
+        i++;
+      } else {
+        if (top?.kind === "interpolation" && ch === "(") top.parens++;
+        if (top?.kind === "interpolation" && ch === ")") top.parens--;
+        emit("punctuation", i, i + 1);
+        i++;
+      }
+    }
+
+    // Single-line strings end at the line break, even when unterminated
+    if (frames[frames.length - 1]?.kind === "string") frames.pop();
+
+    return { tokens, endState: frames };
+  };
+}
+
+export const lexSwiftLine = createCFamilyLexer({
+  keywords: new Set([
+    "import", "class", "struct", "enum", "protocol", "extension", "func", "let", "var",
+    "if", "else", "guard", "switch", "case", "default", "for", "while", "repeat", "in",
+    "return", "throw", "throws", "rethrows", "try", "catch", "do", "break", "continue",
+    "public", "private", "fileprivate", "internal", "open", "static", "final", "override",
+    "init", "deinit", "self", "Self", "super", "nil", "true", "false", "as", "is",
+    "async", "await", "actor", "some", "any", "where", "typealias", "associatedtype",
+    "inout", "mutating", "nonmutating", "lazy", "weak", "unowned", "defer", "subscript",
+  ]),
+  nestedComments: true,
+  swiftStrings: true,
+  atKeywords: false,
+});
+
+export const lexObjectiveCLine = createCFamilyLexer({
+  keywords: new Set([
+    "if", "else", "switch", "case", "default", "for", "while", "do", "return", "break",
+    "continue", "goto", "typedef", "struct", "enum", "union", "static", "const", "extern",
+    "void", "int", "long", "short", "char", "float", "double", "unsigned", "signed",
+    "BOOL", "YES", "NO", "nil", "Nil", "NULL", "self", "super", "id", "instancetype",
+    "nonatomic", "atomic", "strong", "weak", "copy", "assign", "readonly", "readwrite",
+    "nullable", "nonnull", "_Nullable", "_Nonnull", "__weak", "__strong", "__block",
+  ]),
+  nestedComments: false,
+  swiftStrings: false,
+  atKeywords: true,
+});
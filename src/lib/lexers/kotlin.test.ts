@@ -0,0 +1,139 @@
+import { describe, expect, it } from "vitest";
+import { relexLine, tokenize, type LexedLine, type TokenType } from "@/lib/syntaxHighlight";
+import { lexKotlinLine } from "./kotlin";
+
+// Tokens of one lexed line as [type, text] pairs. Whitespace is plain text and
+// merges into neighbouring plain tokens, so it is trimmed off those
+function pairs(line: LexedLine): [TokenType, string][] {
+  return line.tokens
+    .map((t): [TokenType, string] => [t.type, t.type === "plain" ? t.text.trim() : t.text])
+    .filter(([, text]) => text);
+}
+
+function lex(code: string): [TokenType, string][][] {
+  return tokenize(code, lexKotlinLine).map(pairs);
+}
+
+describe("lexKotlinLine", () => {
+  it("classifies keywords, types, functions, numbers and annotations", () => {
+    expect(lex("@JvmStatic fun load(id: Int) = Repo(0x1F, 2.5f)")[0]).toEqual([
+      ["annotation", "@JvmStatic"],
+      ["keyword", "fun"],
+      ["function", "load"],
+      ["punctuation", "("],
+      ["plain", "id"],
+      ["punctuation", ":"],
+      ["type", "Int"],
+      ["punctuation", ")"],
+      ["punctuation", "="],
+      ["type", "Repo"],
+      ["punctuation", "("],
+      ["number", "0x1F"],
+      ["punctuation", ","],
+      ["number", "2.5f"],
+      ["punctuation", ")"],
+    ]);
+  });
+
+  it("nests block comments, across lines", () => {
+    const [first, second, third] = lex("/* a /* b\nstill */ c\n*/ val x");
+    expect(first).toEqual([["comment", "/* a /* b"]]);
+    expect(second).toEqual([["comment", "still */ c"]]);
+    expect(third).toEqual([
+      ["comment", "*/"],
+      ["keyword", "val"],
+      ["plain", "x"],
+    ]);
+  });
+
+  it("keeps raw strings open across lines, with extra closing quotes inside", () => {
+    const [first, second, third] = lex('val s = """one\n"two" // not a comment\nthree""""');
+    expect(first.slice(-1)).toEqual([["string", '"""one']]);
+    expect(second).toEqual([["string", '"two" // not a comment']]);
+    expect(third).toEqual([["string", 'three""""']]);
+  });
+
+  it("lexes template expressions as code", () => {
+    expect(lex('"a $name ${map["k"]} b"')[0]).toEqual([
+      ["string", '"a '],
+      ["interpolation", "$name"],
+      ["string", " "],
+      ["interpolation", "${"],
+      ["plain", "map"],
+      ["punctuation", "["],
+      ["string", '"k"'],
+      ["punctuation", "]"],
+      ["interpolation", "}"],
+      ["string", ' b"'],
+    ]);
+  });
+
+  it("matches braces inside a template before closing it", () => {
+    expect(lex('"${list.map { it }}"')[0]).toEqual([
+      ["string", '"'],
+      ["interpolation", "${"],
+      ["plain", "list"],
+      ["punctuation", "."],
+      ["plain", "map"],
+      ["punctuation", "{"],
+      ["plain", "it"],
+      ["punctuation", "}"],
+      ["interpolation", "}"],
+      ["string", '"'],
+    ]);
+  });
+
+  it("closes ordinary strings at the line break", () => {
+    const [first, second] = lex('val s = "open\nval t = 1');
+    expect(first.slice(-1)).toEqual([["string", '"open']]);
+    expect(second[0]).toEqual(["keyword", "val"]);
+  });
+
+  it("reads char literals and leaves a lone quote as punctuation", () => {
+    expect(lex("'a' '\\n' '\\u0041' '")[0]).toEqual([
+      ["string", "'a'"],
+      ["string", "'\\n'"],
+      ["string", "'\\u0041'"],
+      ["punctuation", "'"],
+    ]);
+  });
+
+  it("treats backtick identifiers as one name", () => {
+    expect(lex("fun `loads the repo`() = `is`")[0]).toEqual([
+      ["keyword", "fun"],
+      ["function", "`loads the repo`"],
+      ["punctuation", "()"],
+      ["punctuation", "="],
+      ["plain", "`is`"],
+    ]);
+  });
+});
+
+describe("relexLine", () => {
+  const code = ["val a = 1", "val b = 2", "val c = 3", "val d = 4"];
+
+  it("carries an opened comment into the following lines", () => {
+    const lines = tokenize(code.join("\n"), lexKotlinLine);
+    const texts = ["/* val a = 1", ...code.slice(1)];
+    const relexed = relexLine(lines, texts, 0, lexKotlinLine);
+    expect(relexed.map(pairs)).toEqual(tokenize(texts.join("\n"), lexKotlinLine).map(pairs));
+    expect(pairs(relexed[3])).toEqual([["comment", "val d = 4"]]);
+  });
+
+  it("stops once the state flowing on is unchanged", () => {
+    const lines = tokenize(code.join("\n"), lexKotlinLine);
+    const texts = [code[0], "val b = 20", ...code.slice(2)];
+    const relexed = relexLine(lines, texts, 1, lexKotlinLine);
+    expect(pairs(relexed[1])).toContainEqual(["number", "20"]);
+    expect(relexed[0]).toBe(lines[0]);
+    expect(relexed[2]).toBe(lines[2]);
+    expect(relexed[3]).toBe(lines[3]);
+  });
+
+  it("re-lexes the rest when a comment is closed again", () => {
+    const texts = ["/* val a = 1", ...code.slice(1)];
+    const lines = tokenize(texts.join("\n"), lexKotlinLine);
+    const relexed = relexLine(lines, code, 0, lexKotlinLine);
+    expect(relexed.map(pairs)).toEqual(lex(code.join("\n")));
+  });
+});
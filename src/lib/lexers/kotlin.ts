@@ -0,0 +1,164 @@
+import { matchAt, tokenWriter, type LineLexer, type TokenType } from "@/lib/syntaxHighlight";
+
+/**
+ * Kotlin lexer. Block comments nest, and strings may hold `$name` and
+ * `${ ... }` templates whose expressions are lexed as code.
+ */
+
+// What the lexer is inside of; the innermost frame is last
+type Frame =
+  | { kind: "comment"; depth: number }
+  | { kind: "string" }
+  | { kind: "raw" }
+  // `${ ... }` inside a string, with the braces opened within it
+  | { kind: "template"; braces: number };
+
+const KEYWORDS = new Set([
+  "package", "import", "class", "object", "interface", "fun", "val", "var",
+  "if", "else", "when", "for", "while", "do", "try", "catch", "finally",
+  "return", "throw", "break", "continue", "as", "is", "in", "out",
+  "suspend", "override", "open", "final", "abstract", "private", "protected",
+  "public", "internal", "sealed", "data", "enum", "companion", "inline",
+  "expect", "actual", "typealias", "null", "true", "false", "this", "super",
+  "lateinit", "by", "where", "constructor", "init", "value", "annotation",
+  "crossinline", "noinline", "reified", "vararg", "tailrec", "operator",
+  "infix", "external", "const",
+]);
+
+const IDENTIFIER = /[A-Za-z_][A-Za-z0-9_]*/y;
+const NUMBER =
+  /(?:0[xX][\da-fA-F_]+|0[bB][01_]+|\d[\d_]*(?:\.\d[\d_]*)?(?:[eE][+-]?\d[\d_]*)?|\.\d[\d_]*(?:[eE][+-]?\d[\d_]*)?)(?:[fF]|[uU]?L|[uU])?/y;
+const CHAR = /'(?:\\u[\da-fA-F]{4}|\\.|[^'\\])'/y;
+const ANNOTATION = /@[A-Za-z_][A-Za-z0-9_]*(?::[A-Za-z_][A-Za-z0-9_]*)?/y;
+
+// Kotlin, including Gradle Kotlin DSL scripts
+export const lexKotlinLine: LineLexer = (text, line, state) => {
+  const frames: Frame[] = ((state as Frame[] | undefined) ?? []).map((frame) => ({ ...frame }));
+  const { tokens, emit, previousWord } = tokenWriter(text, line);
+  let i = 0;
+
+  while (i < text.length) {
+    const top = frames[frames.length - 1];
+
+    if (top?.kind === "comment") {
+      const start = i;
+      while (i < text.length && top.depth > 0) {
+        if (text.startsWith("/*", i)) {
+          top.depth++;
+          i += 2;
+        } else if (text.startsWith("*/", i)) {
+          top.depth--;
+          i += 2;
+        } else {
+          i++;
+        }
+      }
+      emit("comment", start, i);
+      if (top.depth === 0) frames.pop();
+      continue;
+    }
+
+    if (top?.kind === "string" || top?.kind === "raw") {
+      const start = i;
+      let closed = false;
+      while (i < text.length) {
+        if (top.kind === "string" && text[i] === "\\") {
+          i += 2;
+        } else if (text[i] === "$" && text[i + 1] === "{") {
+          break;
+        } else if (text[i] === "$" && matchAt(IDENTIFIER, text, i + 1)) {
+          break;
+        } else if (top.kind === "string" && text[i] === '"') {
+          i++;
+          closed = true;
+          break;
+        } else if (top.kind === "raw" && text.startsWith('"""', i)) {
+          // Extra quotes before the closing three belong to the string
+          while (text[i] === '"') i++;
+          closed = true;
+          break;
+        } else {
+          i++;
+        }
+      }
+      emit("string", start, Math.min(i, text.length));
+      if (closed) {
+        frames.pop();
+      } else if (text[i] === "$" && text[i + 1] === "{") {
+        emit("interpolation", i, i + 2);
+        frames.push({ kind: "template", braces: 0 });
+        i += 2;
+      } else if (text[i] === "$") {
+        const name = matchAt(IDENTIFIER, text, i + 1) ?? "";
+        emit("interpolation", i, i + 1 + name.length);
+        i += 1 + name.length;
+      }
+      continue;
+    }
+
+    const ch = text[i];
+
+    if (/\s/.test(ch)) {
+      const start = i;
+      while (i < text.length && /\s/.test(text[i])) i++;
+      emit("plain", start, i);
+    } else if (text.startsWith("//", i)) {
+      emit("comment", i, text.length);
+      i = text.length;
+    } else if (text.startsWith("/*", i)) {
+      emit("comment", i, i + 2);
+      frames.push({ kind: "comment", depth: 1 });
+      i += 2;
+    } else if (text.startsWith('"""', i)) {
+      emit("string", i, i + 3);
+      frames.push({ kind: "raw" });
+      i += 3;
+    } else if (ch === '"') {
+      emit("string", i, i + 1);
+      frames.push({ kind: "string" });
+      i++;
+    } else if (ch === "'") {
+      const literal = matchAt(CHAR, text, i);
+      emit(literal ? "string" : "punctuation", i, i + (literal?.length ?? 1));
+      i += literal?.length ?? 1;
+    } else if (ch === "`") {
+      const end = text.indexOf("`", i + 1);
+      const stop = end < 0 ? text.length : end + 1;
+      emit(text[stop] === "(" || previousWord() === "fun" ? "function" : "plain", i, stop);
+      i = stop;
+    } else if (ch === "@" && matchAt(ANNOTATION, text, i)) {
+      const annotation = matchAt(ANNOTATION, text, i)!;
+      emit("annotation", i, i + annotation.length);
+      i += annotation.length;
+    } else if (/\d/.test(ch) || (ch === "." && text[i - 1] !== "." && /\d/.test(text[i + 1] ?? ""))) {
+      const number = matchAt(NUMBER, text, i) ?? ch;
+      emit("number", i, i + number.length);
+      i += number.length;
+    } else if (matchAt(IDENTIFIER, text, i)) {
+      const word = matchAt(IDENTIFIER, text, i)!;
+      const after = text.slice(i + word.length).trimStart();
+      let type: TokenType = "plain";
+      if (KEYWORDS.has(word)) type = "keyword";
+      else if (/^[A-Z]/.test(word)) type = "type";
+      else if (after.startsWith("(") || previousWord() === "fun") type = "function";
+      emit(type, i, i + word.length);
+      i += word.length;
+    } else if (top?.kind === "template" && ch === "}" && top.braces === 0) {
+      emit("interpolation", i, i + 1);
+      frames.pop();
+      i++;
+    } else {
+      if (top?.kind === "template" && ch === "{") top.braces++;
+      if (top?.kind === "template" && ch === "}") top.braces--;
+      emit("punctuation", i, i + 1);
+      i++;
+    }
+  }
+
+  // Ordinary strings end at the line break, even when unterminated
+  const last = frames[frames.length - 1];
+  if (last?.kind === "string") frames.pop();
+
+  return { tokens, endState: frames };
+};
+
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { tokenize, type TokenType } from "@/lib/syntaxHighlight";
+import { lexTomlLine } from "./toml";
+
+// [type, text] pairs per line, whitespace left out
+function lex(code: string): [TokenType, string][][] {
+  return tokenize(code, lexTomlLine).map((line) =>
+    line.tokens
+      .map((t): [TokenType, string] => [t.type, t.type === "plain" ? t.text.trim() : t.text])
+      .filter(([, text]) => text)
+  );
+}
+
+describe("lexTomlLine", () => {
+  it("reads a version catalog", () => {
+    expect(lex('[versions]\nkotlin = "2.0.0" # pinned\n[[plugins]]')).toEqual([
+      [["type", "[versions]"]],
+      [
+        ["attribute", "kotlin"],
+        ["punctuation", "="],
+        ["string", '"2.0.0"'],
+        ["comment", "# pinned"],
+      ],
+      [["type", "[[plugins]]"]],
+    ]);
+  });
+
+  it("tells keys from values in inline tables", () => {
+    expect(lex('ktor = { module = "io.ktor:ktor-core", version.ref = "ktor", strict = true }')[0]).toEqual([
+      ["attribute", "ktor"],
+      ["punctuation", "="],
+      ["punctuation", "{"],
+      ["attribute", "module"],
+      ["punctuation", "="],
+      ["string", '"io.ktor:ktor-core"'],
+      ["punctuation", ","],
+      ["attribute", "version"],
+      ["punctuation", "."],
+      ["attribute", "ref"],
+      ["punctuation", "="],
+      ["string", '"ktor"'],
+      ["punctuation", ","],
+      ["attribute", "strict"],
+      ["punctuation", "="],
+      ["keyword", "true"],
+      ["punctuation", "}"],
+    ]);
+  });
+
+  it("reads numbers and dates as values only", () => {
+    expect(lex("retries = 3\nreleased = 2024-05-01T10:00:00Z\n2024 = 1")).toEqual([
+      [["attribute", "retries"], ["punctuation", "="], ["number", "3"]],
+      [["attribute", "released"], ["punctuation", "="], ["number", "2024-05-01T10:00:00Z"]],
+      [["attribute", "2024"], ["punctuation", "="], ["number", "1"]],
+    ]);
+  });
+
+  it("keeps multi-line strings open until their own delimiter", () => {
+    const lines = tokenize("notes = '''\nsays \"\"\" here\n''' # done\nx = 1", lexTomlLine);
+    expect(lines.map((line) => line.endState)).toEqual([{ open: "'''" }, { open: "'''" }, null, null]);
+    expect(lines[1].tokens).toMatchObject([{ type: "string", text: 'says """ here' }]);
+    expect(lines[2].tokens.map((t) => t.type)).toEqual(["string", "plain", "comment"]);
+  });
+
+  it("skips escaped quotes in basic multi-line strings", () => {
+    const lines = tokenize('a = """\\"""\nstill open"""', lexTomlLine);
+    expect(lines[0].endState).toEqual({ open: '"""' });
+    expect(lines[1].endState).toBeNull();
+  });
+});
@@ -0,0 +1,88 @@
+import { matchAt, tokenWriter, type LineLexer } from "@/lib/syntaxHighlight";
+
+/**
+ * TOML lexer, mainly for Gradle version catalogs (`libs.versions.toml`).
+ * Only multi-line strings carry over to the next line.
+ */
+
+// The delimiter of an open multi-line string, if any
+type State = { open: '"""' | "'''" } | null;
+
+const BARE_KEY = /[A-Za-z0-9_-]+/y;
+const NUMBER = /[+-]?(?:0x[\da-fA-F_]+|0o[0-7_]+|0b[01_]+|inf|nan|\d[\d_]*(?:\.\d[\d_]*)?(?:[eE][+-]?\d[\d_]*)?)/y;
+const DATE = /\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:\d{2})?)?/y;
+
+// End of a quoted string starting at `start` (after its opening quote), or -1
+function closingQuote(text: string, start: number, quote: string, escapes: boolean): number {
+  for (let i = start; i < text.length; i++) {
+    if (escapes && text[i] === "\\") i++;
+    else if (text.startsWith(quote, i)) return i + quote.length;
+  }
+  return -1;
+}
+
+export const lexTomlLine: LineLexer = (text, line, state) => {
+  const { tokens, emit } = tokenWriter(text, line);
+  let open = (state as State)?.open ?? null;
+  let i = 0;
+  // Keys are only allowed before the `=` of a line
+  let inValue = false;
+
+  if (open) {
+    const end = closingQuote(text, 0, open, open === '"""');
+    emit("string", 0, end < 0 ? text.length : end);
+    if (end < 0) return { tokens, endState: { open } };
+    open = null;
+    i = end;
+    inValue = true;
+  }
+
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (/\s/.test(ch)) {
+      const start = i;
+      while (i < text.length && /\s/.test(text[i])) i++;
+      emit("plain", start, i);
+    } else if (ch === "#") {
+      emit("comment", i, text.length);
+      i = text.length;
+    } else if (ch === "[" && !inValue) {
+      // [table] or [[array.of.tables]] header
+      const end = text.indexOf("]", i);
+      const stop = end < 0 ? text.length : text[end + 1] === "]" ? end + 2 : end + 1;
+      emit("type", i, stop);
+      i = stop;
+    } else if (text.startsWith('"""', i) || text.startsWith("'''", i)) {
+      const quote = text.slice(i, i + 3) as '"""' | "'''";
+      const end = closingQuote(text, i + 3, quote, quote === '"""');
+      emit("string", i, end < 0 ? text.length : end);
+      if (end < 0) return { tokens, endState: { open: quote } };
+      i = end;
+    } else if (ch === '"' || ch === "'") {
+      const end = closingQuote(text, i + 1, ch, ch === '"');
+      const stop = end < 0 ? text.length : end;
+      emit(inValue ? "string" : "attribute", i, stop);
+      i = stop;
+    } else if (ch === "=") {
+      emit("punctuation", i, i + 1);
+      inValue = true;
+      i++;
+    } else if (inValue && (matchAt(DATE, text, i) || matchAt(NUMBER, text, i))) {
+      const number = matchAt(DATE, text, i) ?? matchAt(NUMBER, text, i)!;
+      emit("number", i, i + number.length);
+      i += number.length;
+    } else if (matchAt(BARE_KEY, text, i)) {
+      const word = matchAt(BARE_KEY, text, i)!;
+      // Inline tables (`{ module = "..." }`) hold keys inside values
+      const isKey = !inValue || /^\s*[=.]/.test(text.slice(i + word.length));
+      emit(isKey ? "attribute" : word === "true" || word === "false" ? "keyword" : "plain", i, i + word.length);
+      i += word.length;
+    } else {
+      emit("punctuation", i, i + 1);
+      i++;
+    }
+  }
+
+  return { tokens, endState: null };
+};
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { tokenize, type TokenType } from "@/lib/syntaxHighlight";
+import { lexXmlLine } from "./xml";
+
+// [type, text] pairs per line, whitespace left out
+function lex(code: string): [TokenType, string][][] {
+  return tokenize(code, lexXmlLine).map((line) =>
+    line.tokens
+      .map((t): [TokenType, string] => [t.type, t.type === "plain" ? t.text.trim() : t.text])
+      .filter(([, text]) => text)
+  );
+}
+
+describe("lexXmlLine", () => {
+  it("reads tags, attributes, text and entities", () => {
+    expect(lex('<string name="app">Notes &amp; more</string>')[0]).toEqual([
+      ["punctuation", "<"],
+      ["tag", "string"],
+      ["attribute", "name"],
+      ["punctuation", "="],
+      ["string", '"app"'],
+      ["punctuation", ">"],
+      ["plain", "Notes"],
+      ["keyword", "&amp;"],
+      ["plain", "more"],
+      ["punctuation", "</"],
+      ["tag", "string"],
+      ["punctuation", ">"],
+    ]);
+  });
+
+  it("reads declarations like tags", () => {
+    expect(lex('<?xml version="1.0"?>')[0]).toEqual([
+      ["annotation", "<?xml"],
+      ["attribute", "version"],
+      ["punctuation", "="],
+      ["string", '"1.0"'],
+      ["punctuation", "?>"],
+    ]);
+  });
+
+  it("carries tags with attributes over several lines", () => {
+    const lines = tokenize('<activity\n    android:name=".Main"\n    android:exported="true" />\n<a/>', lexXmlLine);
+    expect(lines.map((line) => line.endState)).toEqual(["tag", "tag", null, null]);
+    expect(lex('<activity\n    android:name=".Main" />')[1]).toEqual([
+      ["attribute", "android:name"],
+      ["punctuation", "="],
+      ["string", '".Main"'],
+      ["punctuation", "/>"],
+    ]);
+  });
+
+  it("carries comments and CDATA sections over", () => {
+    const lines = tokenize("<!-- a\n<b> -->\n<![CDATA[\n<c>]]> d", lexXmlLine);
+    expect(lines.map((line) => line.endState)).toEqual(["comment", null, "cdata", null]);
+    expect(lines[1].tokens).toMatchObject([{ type: "comment", text: "<b> -->" }]);
+    expect(lines[3].tokens.map((t) => [t.type, t.text])).toEqual([
+      ["string", "<c>]]>"],
+      ["plain", " d"],
+    ]);
+  });
+});
@@ -0,0 +1,98 @@
+import { matchAt, tokenWriter, type LineLexer } from "@/lib/syntaxHighlight";
+
+/**
+ * XML lexer for Android manifests, resources and plists. Comments, CDATA
+ * sections and tags whose attributes span several lines carry over.
+ */
+
+type State = "comment" | "cdata" | "tag" | null;
+
+const NAME = /[A-Za-z_][\w.:-]*/y;
+const ENTITY = /&(?:#\d+|#x[\da-fA-F]+|[A-Za-z]+);/y;
+
+// Index just past the next `terminator`, or -1 if the line has none
+function until(text: string, i: number, terminator: string): number {
+  const end = text.indexOf(terminator, i);
+  return end < 0 ? -1 : end + terminator.length;
+}
+
+export const lexXmlLine: LineLexer = (text, line, state) => {
+  const { tokens, emit } = tokenWriter(text, line);
+  let mode = (state as State) ?? null;
+  let i = 0;
+
+  while (i < text.length) {
+    if (mode === "comment" || mode === "cdata") {
+      const end = until(text, i, mode === "comment" ? "-->" : "]]>");
+      emit(mode === "comment" ? "comment" : "string", i, end < 0 ? text.length : end);
+      if (end < 0) return { tokens, endState: mode };
+      mode = null;
+      i = end;
+      continue;
+    }
+
+    if (mode === "tag") {
+      const ch = text[i];
+      if (/\s/.test(ch)) {
+        const start = i;
+        while (i < text.length && /\s/.test(text[i])) i++;
+        emit("plain", start, i);
+      } else if (text.startsWith("/>", i) || text.startsWith("?>", i)) {
+        emit("punctuation", i, i + 2);
+        mode = null;
+        i += 2;
+      } else if (ch === ">") {
+        emit("punctuation", i, i + 1);
+        mode = null;
+        i++;
+      } else if (ch === '"' || ch === "'") {
+        const end = text.indexOf(ch, i + 1);
+        const stop = end < 0 ? text.length : end + 1;
+        emit("string", i, stop);
+        i = stop;
+      } else if (matchAt(NAME, text, i)) {
+        const name = matchAt(NAME, text, i)!;
+        emit("attribute", i, i + name.length);
+        i += name.length;
+      } else {
+        emit("punctuation", i, i + 1);
+        i++;
+      }
+      continue;
+    }
+
+    if (text.startsWith("<!--", i)) {
+      mode = "comment";
+      emit("comment", i, i + 4);
+      i += 4;
+    } else if (text.startsWith("<![CDATA[", i)) {
+      mode = "cdata";
+      emit("punctuation", i, i + 9);
+      i += 9;
+    } else if (text.startsWith("<?", i) || text.startsWith("<!", i)) {
+      // Processing instructions and doctype declarations
+      const name = matchAt(NAME, text, i + 2) ?? "";
+      emit("annotation", i, i + 2 + name.length);
+      mode = "tag";
+      i += 2 + name.length;
+    } else if (text[i] === "<") {
+      const slash = text[i + 1] === "/" ? 1 : 0;
+      const name = matchAt(NAME, text, i + 1 + slash) ?? "";
+      emit("punctuation", i, i + 1 + slash);
+      emit("tag", i + 1 + slash, i + 1 + slash + name.length);
+      mode = "tag";
+      i += 1 + slash + name.length;
+    } else if (text[i] === "&" && matchAt(ENTITY, text, i)) {
+      const entity = matchAt(ENTITY, text, i)!;
+      emit("keyword", i, i + entity.length);
+      i += entity.length;
+    } else {
+      const next = text.slice(i + 1).search(/[<&]/);
+      const stop = next < 0 ? text.length : i + 1 + next;
+      emit("plain", i, stop);
+      i = stop;
+    }
+  }
+
+  return { tokens, endState: mode };
+};
@@ -0,0 +1,129 @@
+import type { DiffHunk, DiffLine } from "@/types/debug";
+
+/**
+ * Line diff between two versions of a file, grouped into hunks with context
+ * the way `diff -u` does. Common leading and trailing lines are trimmed before
+ * the LCS table is built, so small edits to large files stay cheap.
+ */
+
+// Above this many cells the middle is shown as one replaced block
+const MAX_TABLE_CELLS = 4_000_000;
+
+// Every line of both versions, marked as kept, removed or added
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split("\n");
+  const b = after.split("\n");
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  const lines: DiffLine[] = [];
+  const context = (i: number, j: number) => lines.push({ type: "context", content: a[i], oldLine: i + 1, newLine: j + 1 });
+
+  for (let i = 0; i < prefix; i++) context(i, i);
+
+  if (midA.length * midB.length > MAX_TABLE_CELLS) {
+    midA.forEach((content, i) => lines.push({ type: "remove", content, oldLine: prefix + i + 1 }));
+    midB.forEach((content, j) => lines.push({ type: "add", content, newLine: prefix + j + 1 }));
+  } else {
+    // lcs[i][j]: longest common subsequence of midA[i..] and midB[j..]
+    const lcs = Array.from({ length: midA.length + 1 }, () => new Uint32Array(midB.length + 1));
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lcs[i][j] = midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < midA.length || j < midB.length) {
+      if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+        context(prefix + i++, prefix + j++);
+      } else if (j < midB.length && (i === midA.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+        lines.push({ type: "add", content: midB[j], newLine: prefix + ++j });
+      } else {
+        lines.push({ type: "remove", content: midA[i], oldLine: prefix + ++i });
+      }
+    }
+  }
+
+  for (let k = suffix; k > 0; k--) context(a.length - k, b.length - k);
+  return lines;
+}
+
+// Changed regions with `context` unchanged lines around each; empty if the versions match
+export function diffHunks(before: string, after: string, context = 3): DiffHunk[] {
+  const lines = diffLines(before, after);
+  const changed = lines.map((line, index) => (line.type === "context" ? -1 : index)).filter((index) => index >= 0);
+  if (changed.length === 0) return [];
+
+  // Merge changes whose context windows touch
+  const ranges: [number, number][] = [];
+  for (const index of changed) {
+    const start = Math.max(0, index - context);
+    const end = Math.min(lines.length - 1, index + context);
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last[1] + 1) last[1] = end;
+    else ranges.push([start, end]);
+  }
+
+  return ranges.map(([start, end]) => {
+    const hunkLines = lines.slice(start, end + 1);
+    const firstOld = hunkLines.find((l) => l.oldLine !== undefined)?.oldLine;
+    const firstNew = hunkLines.find((l) => l.newLine !== undefined)?.newLine;
+    return {
+      oldStart: firstOld ?? 0,
+      oldCount: hunkLines.filter((l) => l.type !== "add").length,
+      newStart: firstNew ?? 0,
+      newCount: hunkLines.filter((l) => l.type !== "remove").length,
+      lines: hunkLines,
+    };
+  });
+}
+
+// How a line of the new version differs from the old one
+export type LineChange = "added" | "modified";
+
+export interface LineChanges {
+  // By line number in the new version
+  changed: Map<number, LineChange>;
+  // Old lines that were removed or rewritten, by the new line they precede;
+  // one past the last line for lines removed at the end
+  removed: Map<number, string[]>;
+}
+
+// Per-line view of a diff for gutter markers: a changed region with both
+// removed and added lines counts as modified, otherwise as added or removed
+export function lineChanges(before: string, after: string): LineChanges {
+  const changed = new Map<number, LineChange>();
+  const removed = new Map<number, string[]>();
+  const lines = diffLines(before, after);
+  const afterLength = after.split("\n").length;
+
+  let i = 0;
+  while (i < lines.length) {
+    if (lines[i].type === "context") {
+      i++;
+      continue;
+    }
+    const old: string[] = [];
+    const added: number[] = [];
+    for (; i < lines.length && lines[i].type !== "context"; i++) {
+      if (lines[i].type === "remove") old.push(lines[i].content);
+      else added.push(lines[i].newLine!);
+    }
+    const kind: LineChange = old.length > 0 ? "modified" : "added";
+    added.forEach((line) => changed.set(line, kind));
+    if (old.length > 0) removed.set(added[0] ?? lines[i]?.newLine ?? afterLength + 1, old);
+  }
+  return { changed, removed };
+}
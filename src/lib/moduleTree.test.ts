@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+import type { Diagnostic, Module } from "@/types/debug";
+import { buildModuleTree, subtreeIds } from "./moduleTree";
+
+function module(gradlePath: string, overrides: Partial<Module> = {}): Module {
+  const segments = gradlePath.split(":").filter(Boolean);
+  return {
+    id: gradlePath,
+    name: segments[segments.length - 1],
+    path: `/repo/${segments.join("/")}`,
+    gradlePath,
+    type: "KMP_LIBRARY",
+    targets: [],
+    platforms: [],
+    dependencies: [],
+    sharedCodePercent: null,
+    sharedLines: null,
+    totalLines: null,
+    expectCount: null,
+    actualCount: null,
+    ...overrides,
+  };
+}
+
+function diagnostic(moduleId: string, severity: Diagnostic["severity"]): Diagnostic {
+  return {
+    id: `${moduleId}-${severity}`,
+    severity,
+    category: "EXPECT_ACTUAL",
+    title: "Missing actual",
+    description: "",
+    location: {
+      file: "",
+      relativePath: "",
+      moduleId,
+      sourceSet: "commonMain",
+      line: 1,
+      column: 1,
+      endLine: 1,
+      endColumn: 1,
+    },
+    relatedLocations: [],
+    fixes: [],
+    tags: [],
+    source: "ExpectActualAnalyzer",
+    timestamp: 1,
+    platforms: [],
+  };
+}
+
+// The tree as nested gradle paths
+function shape(nodes: Module[]): unknown[] {
+  return nodes.map((n) => (n.children?.length ? [n.gradlePath, shape(n.children)] : n.gradlePath));
+}
+
+describe("buildModuleTree", () => {
+  it("nests modules by Gradle path, keeping the backend's order", () => {
+    const tree = buildModuleTree(
+      [module(":shared:data"), module(":app"), module(":shared"), module(":shared:domain")],
+      []
+    );
+    expect(shape(tree)).toEqual([":app", [":shared", [":shared:data", ":shared:domain"]]]);
+  });
+
+  it("adds group nodes for path segments that are not modules", () => {
+    const tree = buildModuleTree(
+      [module(":app"), module(":feature:login:ui"), module(":feature:profile")],
+      []
+    );
+    expect(shape(tree)).toEqual([":app", [":feature", [[":feature:login", [":feature:login:ui"]], ":feature:profile"]]]);
+    const feature = tree[1];
+    expect(feature).toMatchObject({ id: ":feature", name: "feature", type: "group", path: "/repo/feature" });
+    expect(feature.children![0]).toMatchObject({ type: "group", path: "/repo/feature/login" });
+  });
+
+  it("rolls lines and expect/actual counts up over known figures only", () => {
+    const [shared] = buildModuleTree(
+      [
+        module(":shared", { sharedLines: 300, totalLines: 400, sharedCodePercent: 75, expectCount: 1 }),
+        module(":shared:data", { sharedLines: 100, totalLines: 400, expectCount: 2, actualCount: 4 }),
+        module(":shared:ui"),
+      ],
+      []
+    );
+    expect(shared).toMatchObject({ sharedLines: 400, totalLines: 800, sharedCodePercent: 50, expectCount: 3, actualCount: 4 });
+    expect(shared.children![1]).toMatchObject({ sharedLines: null, totalLines: null, sharedCodePercent: null });
+  });
+
+  it("rolls up through group nodes and rounds the percentage to one decimal", () => {
+    const [feature] = buildModuleTree(
+      [
+        module(":feature:a", { sharedLines: 1, totalLines: 3, sharedCodePercent: 33.3 }),
+        module(":feature:b", { sharedLines: 1, totalLines: 3, sharedCodePercent: 33.3 }),
+        module(":feature:c", { sharedLines: 0, totalLines: 3, sharedCodePercent: 0 }),
+      ],
+      []
+    );
+    expect(feature).toMatchObject({ type: "group", sharedLines: 2, totalLines: 9, sharedCodePercent: 22.2 });
+  });
+
+  it("keeps a leaf's own percentage", () => {
+    const [app] = buildModuleTree([module(":app", { sharedLines: 1, totalLines: 3, sharedCodePercent: 40 })], []);
+    expect(app.sharedCodePercent).toBe(40);
+  });
+
+  it("flags errors and warnings on a module and everything above it", () => {
+    const tree = buildModuleTree(
+      [module(":shared"), module(":shared:data"), module(":feature:login"), module(":app")],
+      [diagnostic(":shared:data", "error"), diagnostic(":feature:login", "warning"), diagnostic(":app", "info")]
+    );
+    const flags = (m: Module) => [m.id, m.hasErrors, m.hasWarnings];
+    expect(tree.map(flags)).toEqual([
+      [":shared", true, false],
+      [":feature", false, true],
+      [":app", false, false],
+    ]);
+    expect(flags(tree[0].children![0])).toEqual([":shared:data", true, false]);
+  });
+});
+
+describe("subtreeIds", () => {
+  it("collects a node and all its descendants", () => {
+    const [feature, app] = buildModuleTree(
+      [module(":feature:login:ui"), module(":feature:profile"), module(":app")],
+      []
+    );
+    expect(subtreeIds(feature)).toEqual(new Set([":feature", ":feature:login", ":feature:login:ui", ":feature:profile"]));
+    expect(subtreeIds(app)).toEqual(new Set([":app"]));
+  });
+});
@@ -0,0 +1,117 @@
+import type { Diagnostic, Module } from "@/types/debug";
+
+/**
+ * Nests flat Gradle modules into the project hierarchy by Gradle path, so
+ * `:shared:data` sits under `:shared`. A path segment that is not a module
+ * itself (`:feature` holding `:feature:login`) becomes a group node. Each
+ * node's figures are rolled up over everything below it: shared-code lines
+ * and percentage, expect/actual counts and error/warning flags.
+ */
+
+function segmentsOf(module: Module): string[] {
+  return module.gradlePath.split(":").filter(Boolean);
+}
+
+// Sum of the non-null values; null when none are known
+function sumKnown(values: (number | null)[]): number | null {
+  const known = values.filter((v): v is number => v !== null);
+  return known.length > 0 ? known.reduce((a, b) => a + b, 0) : null;
+}
+
+function group(gradlePath: string, child: Module): Module {
+  const segments = gradlePath.split(":").filter(Boolean);
+  return {
+    id: gradlePath,
+    name: segments[segments.length - 1],
+    // The folder holding the child's folder
+    path: child.path.replace(/[\\/][^\\/]+$/, ""),
+    gradlePath,
+    type: "group",
+    targets: [],
+    platforms: [],
+    dependencies: [],
+    sharedCodePercent: null,
+    sharedLines: null,
+    totalLines: null,
+    expectCount: null,
+    actualCount: null,
+    children: [],
+  };
+}
+
+// Fill in a node's rollups from its own figures and its (already rolled up) children
+function rollUp(node: Module, diagnostics: Map<string, Diagnostic[]>): Module {
+  const children = (node.children ?? []).map((child) => rollUp(child, diagnostics));
+  const all = [node, ...children];
+  const own = diagnostics.get(node.id) ?? [];
+  const sharedLines = sumKnown(all.map((m) => m.sharedLines));
+  const totalLines = sumKnown(all.map((m) => m.totalLines));
+
+  return {
+    ...node,
+    children,
+    sharedLines,
+    totalLines,
+    sharedCodePercent:
+      children.length > 0 && totalLines
+        ? Math.round(((sharedLines ?? 0) / totalLines) * 1000) / 10
+        : node.sharedCodePercent,
+    expectCount: sumKnown(all.map((m) => m.expectCount)),
+    actualCount: sumKnown(all.map((m) => m.actualCount)),
+    hasErrors: own.some((d) => d.severity === "error") || children.some((c) => c.hasErrors),
+    hasWarnings: own.some((d) => d.severity === "warning") || children.some((c) => c.hasWarnings),
+  };
+}
+
+export function buildModuleTree(modules: Module[], diagnostics: Diagnostic[]): Module[] {
+  const nodes = new Map<string, Module>();
+  const roots: Module[] = [];
+
+  // Parents before children, so each parent exists when its children attach
+  const ordered = [...modules].sort((a, b) => segmentsOf(a).length - segmentsOf(b).length);
+  for (const module of ordered) nodes.set(module.gradlePath, { ...module, children: [] });
+
+  for (const module of ordered) {
+    const node = nodes.get(module.gradlePath)!;
+    const segments = segmentsOf(module);
+    let child = node;
+    let attached = false;
+    // Walk up, creating group nodes for missing ancestors
+    for (let depth = segments.length - 1; depth > 0 && !attached; depth--) {
+      const parentPath = `:${segments.slice(0, depth).join(":")}`;
+      let parent = nodes.get(parentPath);
+      if (!parent) {
+        parent = group(parentPath, child);
+        nodes.set(parentPath, parent);
+      } else {
+        attached = true;
+      }
+      parent.children!.push(child);
+      child = parent;
+    }
+    if (!attached && !roots.includes(child)) roots.push(child);
+  }
+
+  const byModule = new Map<string, Diagnostic[]>();
+  for (const d of diagnostics) {
+    const list = byModule.get(d.location.moduleId);
+    if (list) list.push(d);
+    else byModule.set(d.location.moduleId, [d]);
+  }
+
+  // Keep the backend's order among siblings
+  const order = new Map(modules.map((m, i) => [m.gradlePath, i]));
+  const position = (m: Module): number =>
+    order.get(m.gradlePath) ?? Math.min(...(m.children ?? []).map(position));
+  const sort = (list: Module[]): Module[] =>
+    list.sort((a, b) => position(a) - position(b)).map((m) => ({ ...m, children: sort(m.children ?? []) }));
+
+  return sort(roots).map((root) => rollUp(root, byModule));
+}
+
+// Ids of a node and everything nested below it
+export function subtreeIds(module: Module): Set<string> {
+  const ids = new Set<string>([module.id]);
+  for (const child of module.children ?? []) subtreeIds(child).forEach((id) => ids.add(id));
+  return ids;
+}
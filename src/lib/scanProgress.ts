@@ -0,0 +1,76 @@
+import type { AnalysisProgress, RepoStatus } from "@/services/api";
+import type { ScanStage, ScanStatus } from "@/types/debug";
+
+export const SCAN_STAGES: { stage: ScanStage; label: string }[] = [
+  { stage: "cloning", label: "Cloning" },
+  { stage: "loading", label: "Loading" },
+  { stage: "indexing", label: "Indexing" },
+  { stage: "analyzing", label: "Analyzing" },
+];
+
+export function scanStageLabel(stage: ScanStage): string {
+  if (stage === "waiting") return "Waiting for backend";
+  return SCAN_STAGES.find((s) => s.stage === stage)?.label ?? stage;
+}
+
+const percent = (value: number) => Math.max(0, Math.min(100, value * 100));
+
+/**
+ * Translate a backend RepoStatus into overlay status and a percentage.
+ * `analysisProgress` (0-1) is the state's own figure, which moves while the
+ * Analyzing status keeps its starting value. Returns null for statuses that do
+ * not describe an active scan.
+ */
+export function scanStatusFromRepoStatus(
+  status: RepoStatus,
+  analysisProgress = 0
+): { status: ScanStatus; progress: number | null } | null {
+  switch (status.type) {
+    case "Cloning":
+      return {
+        status: { stage: "cloning", detail: status.currentOperation },
+        progress: percent(status.progress),
+      };
+    case "Loading":
+      return {
+        status: { stage: "loading", detail: status.path, filesProcessed: status.filesScanned },
+        progress: null,
+      };
+    case "Indexing":
+      return {
+        status: {
+          stage: "indexing",
+          detail: status.currentFile,
+          filesProcessed: status.indexedFiles,
+          totalFiles: status.totalFiles,
+        },
+        progress: status.totalFiles > 0 ? percent(status.indexedFiles / status.totalFiles) : null,
+      };
+    case "Analyzing":
+      return {
+        status: { stage: "analyzing", detail: status.currentAnalyzer },
+        progress: percent(Math.max(status.progress, analysisProgress)),
+      };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Translate a streamed AnalysisProgress into overlay status and a percentage.
+ */
+export function scanStatusFromAnalysisProgress(
+  progress: AnalysisProgress
+): { status: ScanStatus; progress: number | null } {
+  return {
+    status: {
+      stage: "analyzing",
+      phase: progress.phase,
+      detail: progress.currentFile ?? undefined,
+      filesProcessed: progress.filesProcessed,
+      totalFiles: progress.totalFiles,
+      diagnosticsFound: progress.diagnosticsFound,
+    },
+    progress: progress.totalFiles > 0 ? percent(progress.filesProcessed / progress.totalFiles) : null,
+  };
+}
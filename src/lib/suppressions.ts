@@ -0,0 +1,162 @@
+import { z } from "zod";
+import type { Diagnostic } from "@/types/debug";
+
+/**
+ * Suppressions hide diagnostics the team decided to live with. Each one names
+ * a rule (the diagnostic category) and how far it reaches: one occurrence, a
+ * file, a module or the whole repository. They are kept in a JSON file meant
+ * to be checked in, so they survive backend restarts and get reviewed in PRs;
+ * paths in it are repo-relative.
+ */
+
+export type SuppressionScope = "occurrence" | "file" | "module" | "repository";
+
+export interface Suppression {
+  id: string;
+  scope: SuppressionScope;
+  category: string;
+  // Repo-relative file, for occurrence and file scopes
+  file?: string;
+  // For module scope; recorded for narrower scopes too
+  moduleId?: string;
+  // Identifies the occurrence within its file; lines move, messages rarely do
+  message?: string;
+  line?: number;
+  reason: string;
+  author: string;
+  // ISO 8601
+  createdAt: string;
+}
+
+export const SUPPRESSION_SCOPES: SuppressionScope[] = ["occurrence", "file", "module", "repository"];
+
+export const SUPPRESSIONS_FORMAT = "debugforge-suppressions";
+
+// Where the file is expected in a repository
+export const SUPPRESSIONS_FILE_NAME = ".debugforge/suppressions.json";
+
+export interface SuppressionsFile {
+  format: typeof SUPPRESSIONS_FORMAT;
+  version: 1;
+  suppressions: Suppression[];
+}
+
+function fileName(path: string): string {
+  return path.split("/").pop() || path;
+}
+
+// What a suppression of `diagnostic` at `scope` would cover, e.g. "COROUTINE_SAFETY in :shared:data"
+export function scopeLabel(scope: SuppressionScope, target: { category: string; file?: string; moduleId?: string }): string {
+  switch (scope) {
+    case "occurrence":
+      return `This occurrence in ${fileName(target.file ?? "")}`;
+    case "file":
+      return `${target.category} in ${fileName(target.file ?? "")}`;
+    case "module":
+      return `${target.category} in ${target.moduleId}`;
+    case "repository":
+      return `${target.category} everywhere`;
+  }
+}
+
+export function createSuppression(
+  diagnostic: Diagnostic,
+  scope: SuppressionScope,
+  reason: string,
+  author: string
+): Suppression {
+  const { relativePath, file, moduleId, line } = diagnostic.location;
+  const narrow = scope === "occurrence" || scope === "file";
+  return {
+    id: `sup-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    scope,
+    category: diagnostic.category,
+    file: narrow ? relativePath || file : undefined,
+    moduleId: scope === "repository" ? undefined : moduleId,
+    message: scope === "occurrence" ? diagnostic.title : undefined,
+    line: scope === "occurrence" ? line : undefined,
+    reason,
+    author,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+export function matchesSuppression(suppression: Suppression, diagnostic: Diagnostic): boolean {
+  if (suppression.category !== diagnostic.category) return false;
+  const { relativePath, file, moduleId } = diagnostic.location;
+  switch (suppression.scope) {
+    case "occurrence":
+      return suppression.file === (relativePath || file) && suppression.message === diagnostic.title;
+    case "file":
+      return suppression.file === (relativePath || file);
+    case "module":
+      return suppression.moduleId === moduleId;
+    case "repository":
+      return true;
+  }
+}
+
+// The first suppression hiding `diagnostic`, if any
+export function findSuppression(suppressions: Suppression[], diagnostic: Diagnostic): Suppression | undefined {
+  return suppressions.find((s) => matchesSuppression(s, diagnostic));
+}
+
+// Two suppressions that hide the same diagnostics; imports replace rather than duplicate them
+export function sameTarget(a: Suppression, b: Suppression): boolean {
+  return (
+    a.scope === b.scope && a.category === b.category && a.file === b.file && a.moduleId === b.moduleId && a.message === b.message
+  );
+}
+
+// A suppression for the same target replaces the older one
+export function mergeSuppressions(existing: Suppression[], incoming: Suppression[]): Suppression[] {
+  return [...existing.filter((s) => !incoming.some((i) => sameTarget(s, i))), ...incoming];
+}
+
+const suppressionSchema = z.object({
+  id: z.string(),
+  scope: z.enum(["occurrence", "file", "module", "repository"]),
+  category: z.string().min(1),
+  file: z.string().optional(),
+  moduleId: z.string().optional(),
+  message: z.string().optional(),
+  line: z.number().int().optional(),
+  reason: z.string().min(1, "a reason is required"),
+  author: z.string().default(""),
+  createdAt: z.string(),
+});
+
+const suppressionsFileSchema = z.object({
+  format: z.literal(SUPPRESSIONS_FORMAT),
+  version: z.literal(1),
+  suppressions: z.array(suppressionSchema),
+});
+
+// Broadest first, then by rule and place, so the checked-in file diffs cleanly
+export function toSuppressionsFile(suppressions: Suppression[]): SuppressionsFile {
+  const sorted = [...suppressions].sort(
+    (a, b) =>
+      SUPPRESSION_SCOPES.indexOf(b.scope) - SUPPRESSION_SCOPES.indexOf(a.scope) ||
+      a.category.localeCompare(b.category) ||
+      (a.moduleId ?? "").localeCompare(b.moduleId ?? "") ||
+      (a.file ?? "").localeCompare(b.file ?? "") ||
+      (a.line ?? 0) - (b.line ?? 0)
+  );
+  return { format: SUPPRESSIONS_FORMAT, version: 1, suppressions: sorted };
+}
+
+// Read suppressions from a file, throwing if it is not one
+export function parseSuppressionsFile(text: string): SuppressionsFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("Suppressions file is not valid JSON");
+  }
+  const result = suppressionsFileSchema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Not a DebugForge suppressions file (${issue.path.join(".") || "root"}: ${issue.message})`);
+  }
+  return result.data as SuppressionsFile;
+}
@@ -1,82 +1,109 @@
-// Kotlin syntax highlighting - returns HTML with highlighted spans
-export function highlightKotlin(code: string): string {
-  // Keywords
-  const keywords = [
-    'package', 'import', 'class', 'object', 'interface', 'fun', 'val', 'var',
-    'if', 'else', 'when', 'for', 'while', 'do', 'try', 'catch', 'finally',
-    'return', 'throw', 'break', 'continue', 'as', 'is', 'in', 'out',
-    'suspend', 'override', 'open', 'final', 'abstract', 'private', 'protected',
-    'public', 'internal', 'sealed', 'data', 'enum', 'companion', 'inline',
-    'expect', 'actual', 'typealias', 'null', 'true', 'false', 'this', 'super',
-    'lateinit', 'by', 'where', 'get', 'set', 'constructor', 'init'
-  ];
+/**
+ * Core of syntax highlighting. Lexers work line by line and hand the state
+ * they end in (open comments, multi-line strings, ...) to the next line, so a
+ * single edited line can be re-lexed without redoing the whole file. Tokens
+ * are plain text; rendering them is left to React, which escapes them.
+ * Languages and their lexers are registered in `@/lib/languages`.
+ */
 
-  // Types
-  const types = [
-    'String', 'Int', 'Long', 'Float', 'Double', 'Boolean', 'Char', 'Unit',
-    'Any', 'Nothing', 'Array', 'List', 'Map', 'Set', 'MutableList', 'MutableMap',
-    'MutableSet', 'Flow', 'StateFlow', 'MutableStateFlow', 'SharedFlow',
-    'Result', 'Pair', 'Triple', 'Sequence', 'Exception', 'Throwable'
-  ];
+export type TokenType =
+  | "keyword"
+  | "string"
+  | "interpolation"
+  | "comment"
+  | "annotation"
+  | "number"
+  | "function"
+  | "type"
+  | "tag"
+  | "attribute"
+  | "punctuation"
+  | "plain";
 
-  let result = code;
-
-  // Escape HTML first
-  result = result
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;');
+// Lines and columns are 1-based
+export interface Token {
+  type: TokenType;
+  text: string;
+  line: number;
+  column: number;
+}
 
-  // Strings (double and triple quotes)
-  result = result.replace(
-    /"""[\s\S]*?"""|"(?:[^"\\]|\\.)*"/g,
-    '<span class="token-string">$&</span>'
-  );
+// Whatever a lexer needs to carry between lines; must survive JSON.stringify.
+// Lexers receive `undefined` for the first line of a file.
+export type LexState = unknown;
 
-  // Comments
-  result = result.replace(
-    /\/\/.*$/gm,
-    '<span class="token-comment">$&</span>'
-  );
+export interface LexedLine {
+  tokens: Token[];
+  // State the next line starts in
+  endState: LexState;
+}
 
-  // Annotations
-  result = result.replace(
-    /@\w+/g,
-    '<span class="token-annotation">$&</span>'
-  );
+export type LineLexer = (text: string, line: number, state: LexState) => LexedLine;
 
-  // Numbers
-  result = result.replace(
-    /\b(\d+\.?\d*[fFL]?)\b/g,
-    '<span class="token-number">$1</span>'
-  );
+// CSS class of a token type; plain text and punctuation keep the default colour
+export function tokenClassName(type: TokenType): string | undefined {
+  return type === "plain" || type === "punctuation" ? undefined : `token-${type}`;
+}
 
-  // Keywords
-  keywords.forEach(kw => {
-    const regex = new RegExp(`\\b(${kw})\\b`, 'g');
-    result = result.replace(regex, '<span class="token-keyword">$1</span>');
-  });
+export function matchAt(pattern: RegExp, text: string, index: number): string | null {
+  pattern.lastIndex = index;
+  return pattern.exec(text)?.[0] ?? null;
+}
 
-  // Types
-  types.forEach(type => {
-    const regex = new RegExp(`\\b(${type})\\b`, 'g');
-    result = result.replace(regex, '<span class="token-type">$1</span>');
-  });
+// Token list for one line plus the helpers every lexer needs to fill it
+export function tokenWriter(text: string, line: number) {
+  const tokens: Token[] = [];
 
-  // Function calls
-  result = result.replace(
-    /\b([a-z_][a-zA-Z0-9_]*)\s*\(/g,
-    '<span class="token-function">$1</span>('
-  );
+  // Adjacent pieces of the same type become one token
+  const emit = (type: TokenType, start: number, end: number) => {
+    if (end <= start) return;
+    const last = tokens[tokens.length - 1];
+    if (last && last.type === type && last.column - 1 + last.text.length === start) {
+      last.text += text.slice(start, end);
+    } else {
+      tokens.push({ type, text: text.slice(start, end), line, column: start + 1 });
+    }
+  };
 
-  // Type references with generics
-  result = result.replace(
-    /\b([A-Z][a-zA-Z0-9_]*)\b(?![^<]*>)/g,
-    (match, p1) => {
-      if (types.includes(p1)) return match; // Already highlighted
-      return `<span class="token-type">${p1}</span>`;
+  // The last token that is not whitespace
+  const previousWord = () => {
+    for (let t = tokens.length - 1; t >= 0; t--) {
+      if (tokens[t].type !== "plain" || tokens[t].text.trim()) return tokens[t].text;
     }
-  );
+    return null;
+  };
+
+  return { tokens, emit, previousWord };
+}
+
+function statesEqual(a: LexState, b: LexState): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+export function tokenize(code: string, lexer: LineLexer): LexedLine[] {
+  const lines: LexedLine[] = [];
+  let state: LexState = undefined;
+  code.split("\n").forEach((text, index) => {
+    const lexed = lexer(text, index + 1, state);
+    lines.push(lexed);
+    state = lexed.endState;
+  });
+  return lines;
+}
 
-  return result;
+/**
+ * Re-lex `texts[index]` after it changed. Later lines are only re-lexed while
+ * the state flowing into them differs from before, so a typical edit touches
+ * one line. The line count must be unchanged.
+ */
+export function relexLine(lines: LexedLine[], texts: string[], index: number, lexer: LineLexer): LexedLine[] {
+  const next = [...lines];
+  let state = index > 0 ? next[index - 1].endState : undefined;
+  for (let i = index; i < texts.length; i++) {
+    const previousEnd = next[i].endState;
+    next[i] = lexer(texts[i], i + 1, state);
+    state = next[i].endState;
+    if (statesEqual(state, previousEnd)) break;
+  }
+  return next;
 }
@@ -0,0 +1,57 @@
+import type { TextEdit } from "@/types/debug";
+
+/**
+ * Applying `TextEdit`s to file contents locally, for previews and for the
+ * snapshots that make applied fixes undoable. Positions are 1-based with an
+ * exclusive end column, as in diagnostic locations.
+ */
+
+// Offset of a line/column position in `content`, clamped to the text
+function offsetOf(content: string, line: number, column: number): number {
+  let offset = 0;
+  for (let l = 1; l < line; l++) {
+    const next = content.indexOf("\n", offset);
+    if (next < 0) return content.length;
+    offset = next + 1;
+  }
+  const lineEnd = content.indexOf("\n", offset);
+  return Math.min(offset + Math.max(column - 1, 0), lineEnd < 0 ? content.length : lineEnd);
+}
+
+// Apply edits to one file's content; later edits first so earlier offsets stay valid
+export function applyTextEdits(content: string, edits: TextEdit[]): string {
+  const ranges = edits
+    .map((edit) => ({
+      start: offsetOf(content, edit.startLine, edit.startColumn),
+      end: offsetOf(content, edit.endLine, edit.endColumn),
+      text: edit.newText,
+    }))
+    .sort((a, b) => b.start - a.start || b.end - a.end);
+
+  let result = content;
+  for (const { start, end, text } of ranges) result = result.slice(0, start) + text + result.slice(Math.max(start, end));
+  return result;
+}
+
+export function groupEditsByFile(edits: TextEdit[]): Map<string, TextEdit[]> {
+  const groups = new Map<string, TextEdit[]>();
+  for (const edit of edits) {
+    const group = groups.get(edit.file);
+    if (group) group.push(edit);
+    else groups.set(edit.file, [edit]);
+  }
+  return groups;
+}
+
+// One edit that turns `current` into `replacement`; used to restore a snapshot
+export function replaceAllEdit(file: string, current: string, replacement: string): TextEdit {
+  const lines = current.split("\n");
+  return {
+    file,
+    startLine: 1,
+    startColumn: 1,
+    endLine: lines.length,
+    endColumn: lines[lines.length - 1].length + 1,
+    newText: replacement,
+  };
+}
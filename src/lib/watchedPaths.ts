@@ -0,0 +1,16 @@
+/**
+ * Which files of a watched repository count as edits. Shared by the browser
+ * folder watcher and the dev server's Node watcher.
+ */
+
+// Build output and tool state change on every build; they are not sources
+const IGNORED_DIRECTORIES = new Set([".git", ".gradle", ".idea", ".kotlin", "build", "node_modules", "out"]);
+
+export function isIgnoredDirectory(name: string): boolean {
+  return IGNORED_DIRECTORIES.has(name);
+}
+
+// `path` is relative to the repository root, with either separator
+export function isWatchedPath(path: string): boolean {
+  return !path.split(/[\\/]/).some(isIgnoredDirectory);
+}
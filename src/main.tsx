@@ -2,4 +2,15 @@ import { createRoot } from "react-dom/client";
 import App from "./App.tsx";
 import "./index.css";
 
-createRoot(document.getElementById("root")!).render(<App />);
+async function start() {
+  // `?backend=mock` answers every API call from the in-browser mock backend
+  const params = new URLSearchParams(window.location.search);
+  if (params.get("backend") === "mock") {
+    const { installMockBackend } = await import("./mock/browser");
+    installMockBackend({ fixture: params.get("fixture") ?? undefined });
+  }
+
+  createRoot(document.getElementById("root")!).render(<App />);
+}
+
+start();
@@ -0,0 +1,829 @@
+/**
+ * Stand-in DebugForge backend
+ * Implements every REST route DebugForgeApi calls plus the `/ws` live
+ * channel against fixture repos, with stateful suppress/apply/dismiss and
+ * scripted failures. Transport-agnostic: browser.ts and node.ts adapt it to
+ * fetch/WebSocket and to a Node HTTP server.
+ */
+import type {
+  AnalysisProgress,
+  DiagnosticFix,
+  DiagnosticLocation,
+  DiagnosticResponse,
+  LiveState,
+  PlatformCodeBreakdown,
+  RefactorSuggestion,
+  RepoInfo,
+  RepoStatus,
+  SharedCodeMetrics,
+} from '@/services/api';
+import { applyTextEdits } from '@/lib/textEdits';
+import { fixtures, type MockFixture } from './fixtures';
+
+export interface MockRequest {
+  method: string;
+  // Path without query, e.g. `/api/diagnostics`
+  path: string;
+  query?: URLSearchParams;
+  body?: unknown;
+}
+
+export interface MockResponse {
+  status: number;
+  body: unknown;
+}
+
+// A scripted failure, matched against requests until `times` runs out
+export interface FailureRule {
+  method?: string;
+  // Exact path, or a pattern tested against the path
+  path: string | RegExp;
+  // Respond with this status and an ErrorResponse body
+  status?: number;
+  code?: string;
+  message?: string;
+  // Drop the request without a response (adapters surface a network error)
+  offline?: boolean;
+  // Hold the response this long first
+  delayMs?: number;
+  // Defaults to 1; use Infinity for a persistent failure
+  times?: number;
+}
+
+export interface MockBackendOptions {
+  // Fixture served when a load/clone path does not name one; without it such
+  // paths answer REPO_NOT_FOUND
+  fixture?: string;
+  // Total time a simulated analysis takes
+  analysisDelayMs?: number;
+  // Added to every response
+  latencyMs?: number;
+  // False answers /api/ai/analyze like a server without GROQ_API_KEY
+  aiConfigured?: boolean;
+  failures?: FailureRule[];
+}
+
+// Thrown for `offline` failures; adapters turn it into a network error
+export class MockNetworkError extends Error {
+  constructor(path: string) {
+    super(`Mock backend dropped ${path}`);
+    this.name = 'MockNetworkError';
+  }
+}
+
+export interface MockLiveConnection {
+  receive(text: string): void;
+  close(): void;
+}
+
+type RouteHandler = (request: MockRequest, params: Record<string, string>) => MockResponse | Promise<MockResponse>;
+
+// Kotlin serializes sealed subclasses under their fully qualified name
+const REPO_STATUS_PREFIX = 'com.kmpforge.debugforge.state.RepoStatus.';
+const DIAGNOSTIC_EVENT_PREFIX = 'com.kmpforge.debugforge.diagnostics.DiagnosticEvent.';
+
+const ANALYZERS = [
+  'EXPECT_ACTUAL_ANALYZER',
+  'COROUTINE_LEAK_DETECTOR',
+  'WASM_THREAD_SAFETY_ANALYZER',
+  'API_MISUSE_ANALYZER',
+];
+
+// Canned model output: what a pattern in the code earns as a suggestion
+const AI_RULES: { pattern: RegExp; title: string; rationale: string; fix: (line: string) => string }[] = [
+  {
+    pattern: /GlobalScope\.launch/,
+    title: 'Launch in a structured scope',
+    rationale: 'GlobalScope coroutines outlive their caller and leak on cancellation. Use a scope owned by the component.',
+    fix: (line) => line.replace('GlobalScope.launch', 'scope.launch'),
+  },
+  {
+    pattern: /runBlocking\s*\{/,
+    title: 'Avoid blocking the thread',
+    rationale: 'runBlocking blocks the calling thread, which on wasmJs is the only thread. Make the caller suspend.',
+    fix: (line) => line.replace(/runBlocking\s*\{/, 'withContext(Dispatchers.Default) {'),
+  },
+  {
+    pattern: /!!/,
+    title: 'Replace the not-null assertion',
+    rationale: 'A `!!` throws NullPointerException on platforms that pass null; handle the null case explicitly.',
+    fix: (line) => line.replace(/!!/g, ' ?: return'),
+  },
+];
+
+// Larger files are served cut off, with `truncated` set
+const MAX_FILE_CHARS = 1024 * 1024;
+
+// Longest `sourceSnippet` attached to diagnostic locations
+const SNIPPET_LINES = 5;
+
+const EXPECT_PATTERN = /\bexpect\s+(?:fun|class|interface|object|val|var|enum|annotation|typealias)\b/g;
+const ACTUAL_PATTERN = /\bactual\s+(?:fun|class|interface|object|val|var|enum|annotation|typealias|constructor)\b/g;
+
+const delay = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+function ok(body: unknown, status = 200): MockResponse {
+  return { status, body };
+}
+
+function fail(status: number, code: string, message: string): MockResponse {
+  return { status, body: { code, message } };
+}
+
+// Query values may be repeated (`?severity=a&severity=b`) or comma-joined
+function queryList(query: URLSearchParams | undefined, name: string): string[] {
+  return (query?.getAll(name) ?? []).flatMap((v) => v.split(',')).map((v) => v.trim()).filter(Boolean);
+}
+
+function field(body: unknown, name: string): string | undefined {
+  const value = body && typeof body === 'object' ? (body as Record<string, unknown>)[name] : undefined;
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+// A file as `/api/files/content` serves it. Like the server: NUL bytes mark a binary file
+function fileResponse(path: string, content: string): MockResponse {
+  const size = new TextEncoder().encode(content).length;
+  if (content.includes('\u0000')) return ok({ path, size, binary: true, truncated: false, content: null });
+  const truncated = content.length > MAX_FILE_CHARS;
+  return ok({ path, size, binary: false, truncated, content: truncated ? content.slice(0, MAX_FILE_CHARS) : content });
+}
+
+// Platform bucket of a source set, after the backend's SharedCodeAnalyzer
+function platformLines(sourceSet: string): keyof PlatformCodeBreakdown | null {
+  const name = sourceSet.toLowerCase();
+  if (name.includes('common')) return 'commonLines';
+  if (name.includes('android')) return 'androidLines';
+  if (name.includes('ios')) return 'iosLines';
+  if (name.includes('jvm') || name.includes('desktop')) return 'jvmLines';
+  if (name.includes('wasm')) return 'wasmLines';
+  if (name.includes('js')) return 'jsLines';
+  if (/native|linux|macos|mingw/.test(name)) return 'nativeLines';
+  return null;
+}
+
+// Identity of a text edit, for matching applied edits against diagnostic fixes
+function editKey(file: string, edit: DiagnosticFix['edits'][0]): string {
+  const { startLine, startColumn, endLine, endColumn } = edit.range;
+  return `${file}:${startLine}:${startColumn}:${endLine}:${endColumn}:${edit.newText}`;
+}
+
+class MockBackend {
+  private options: Required<Omit<MockBackendOptions, 'failures' | 'fixture'>> & { fixture: string | null };
+  private failures: FailureRule[];
+  private routes: { method: string; pattern: RegExp; keys: string[]; handler: RouteHandler }[] = [];
+  private connections = new Set<(text: string) => void>();
+
+  private fixture: MockFixture | null = null;
+  private repoStatus: RepoStatus = { type: 'Idle' };
+  private analysisProgress = 0;
+  private loadedAt = 0;
+  private error: string | null = null;
+  private suppressed = new Set<string>();
+  private resolved = new Set<string>();
+  private refactorStatus = new Map<string, 'applied' | 'dismissed'>();
+  // Files changed through `/api/files/edits`, by repo-relative path
+  private edited = new Map<string, string>();
+  // Diagnostics resolved by an applied fix, with the files that fix touched
+  private fixedBy = new Map<string, string[]>();
+  private previewSessions = new Map<string, string>();
+  private pullRequests = 0;
+
+  constructor(options: MockBackendOptions = {}) {
+    this.options = {
+      fixture: options.fixture ?? null,
+      analysisDelayMs: options.analysisDelayMs ?? 1200,
+      latencyMs: options.latencyMs ?? 0,
+      aiConfigured: options.aiConfigured ?? true,
+    };
+    this.failures = [...(options.failures ?? [])];
+    this.registerRoutes();
+  }
+
+  // Script a failure for matching requests
+  injectFailure(rule: FailureRule): void {
+    this.failures.push(rule);
+  }
+
+  clearFailures(): void {
+    this.failures = [];
+  }
+
+  // Forget the loaded repo and everything done to it
+  reset(): void {
+    this.fixture = null;
+    this.repoStatus = { type: 'Idle' };
+    this.analysisProgress = 0;
+    this.error = null;
+    this.suppressed.clear();
+    this.resolved.clear();
+    this.refactorStatus.clear();
+    this.edited.clear();
+    this.fixedBy.clear();
+    this.previewSessions.clear();
+    this.broadcastState();
+  }
+
+  // Answer one REST request
+  async handle(request: MockRequest): Promise<MockResponse> {
+    const failure = this.takeFailure(request);
+    const wait = (failure?.delayMs ?? 0) + this.options.latencyMs;
+    if (wait > 0) await delay(wait);
+    if (failure?.offline) throw new MockNetworkError(request.path);
+    if (failure?.status) {
+      return fail(failure.status, failure.code ?? 'INJECTED_FAILURE', failure.message ?? 'Injected failure');
+    }
+
+    const method = request.method.toUpperCase();
+    for (const route of this.routes) {
+      if (route.method !== method) continue;
+      const match = route.pattern.exec(request.path);
+      if (!match) continue;
+      const params = Object.fromEntries(route.keys.map((key, i) => [key, decodeURIComponent(match[i + 1])]));
+      try {
+        return await route.handler(request, params);
+      } catch (e) {
+        return fail(500, 'INTERNAL_ERROR', e instanceof Error ? e.message : String(e));
+      }
+    }
+    return fail(404, 'NOT_FOUND', `No route for ${method} ${request.path}`);
+  }
+
+  // Open a live channel; `send` receives text frames in the `/ws` format
+  connect(send: (text: string) => void): MockLiveConnection {
+    this.connections.add(send);
+    // Like the server, the first frame is the bare state
+    send(JSON.stringify(this.liveState()));
+
+    return {
+      receive: (text) => this.receiveCommand(text, send),
+      close: () => {
+        this.connections.delete(send);
+      },
+    };
+  }
+
+  private takeFailure(request: MockRequest): FailureRule | undefined {
+    const index = this.failures.findIndex(
+      (rule) =>
+        (!rule.method || rule.method.toUpperCase() === request.method.toUpperCase()) &&
+        (typeof rule.path === 'string' ? rule.path === request.path : rule.path.test(request.path))
+    );
+    if (index < 0) return undefined;
+    const rule = this.failures[index];
+    const times = (rule.times ?? 1) - 1;
+    if (times <= 0) {
+      this.failures.splice(index, 1);
+    } else {
+      this.failures[index] = { ...rule, times };
+    }
+    return rule;
+  }
+
+  private route(method: string, path: string, handler: RouteHandler): void {
+    const keys: string[] = [];
+    const pattern = new RegExp(
+      `^${path.replace(/:(\w+)/g, (_, key: string) => {
+        keys.push(key);
+        return '([^/]+)';
+      })}$`
+    );
+    this.routes.push({ method, pattern, keys, handler });
+  }
+
+  private registerRoutes(): void {
+    this.route('GET', '/health', () => ok({ status: 'ok', version: 'mock' }));
+
+    // The server answers with the DebugForgeState the live channel pushes
+    this.route('GET', '/api/state', () => ok(this.liveState()));
+
+    this.route('POST', '/api/repo/load', async ({ body }) => {
+      const path = field(body, 'path');
+      if (!path) return fail(400, 'BAD_REQUEST', 'Missing repository path');
+      const fixture = this.findFixture(path);
+      if (!fixture) return fail(404, 'REPO_NOT_FOUND', `No repository at ${path}`);
+      await this.analyze(fixture);
+      return ok({ success: true, message: 'Repository loaded', repoId: fixture.name, repo: this.repoInfo() });
+    });
+
+    this.route('POST', '/api/repo/clone', async ({ body }) => {
+      const url = field(body, 'url');
+      if (!url) return fail(400, 'BAD_REQUEST', 'Missing repository URL');
+      const fixture = this.findFixture(url);
+      if (!fixture) return fail(404, 'REPO_NOT_FOUND', `Repository ${url} not found`);
+      await this.clone(url);
+      await this.analyze(fixture);
+      return ok({ success: true, message: 'Repository cloned', repoId: fixture.name, repo: this.repoInfo() });
+    });
+
+    this.route('POST', '/api/repo/refresh', () => {
+      if (!this.fixture) return fail(409, 'NO_REPOSITORY', 'No repository loaded');
+      void this.analyze(this.fixture);
+      return ok({ status: 'refreshing' }, 202);
+    });
+
+    this.route('GET', '/api/modules', () => ok(this.fixture?.modules ?? []));
+
+    this.route('GET', '/api/diagnostics', ({ query }) => {
+      const severities = queryList(query, 'severity').map((s) => s.toUpperCase());
+      const categories = queryList(query, 'category').map((c) => c.toUpperCase());
+      const modules = queryList(query, 'module');
+      const sourceSets = queryList(query, 'sourceSet');
+      const search = query?.get('search')?.toLowerCase() ?? '';
+
+      return ok(
+        this.activeDiagnostics().filter(
+          (d) =>
+            (severities.length === 0 || severities.includes(d.severity)) &&
+            (categories.length === 0 || categories.includes(d.category)) &&
+            (modules.length === 0 || modules.includes(d.location.moduleId)) &&
+            (sourceSets.length === 0 || sourceSets.includes(d.location.sourceSet)) &&
+            (!search || d.location.relativeFilePath.toLowerCase().includes(search))
+        )
+      );
+    });
+
+    this.route('POST', '/api/diagnostics/:id/suppress', (_, { id }) => {
+      if (!this.activeDiagnostics().some((d) => d.id === id)) {
+        return fail(404, 'NOT_FOUND', `Diagnostic ${id} not found`);
+      }
+      this.suppressed.add(id);
+      this.emitDiagnostic({ type: 'Dismissed', diagnosticId: id });
+      this.broadcastState();
+      return ok({ status: 'suppressed' });
+    });
+
+    this.route('GET', '/api/refactors', () => ok(this.pendingRefactors()));
+
+    this.route('POST', '/api/refactors/:id/apply', (_, { id }) => {
+      const refactor = this.fixture?.refactors.find((r) => r.id === id);
+      if (!refactor) return fail(404, 'NOT_FOUND', `Refactoring ${id} not found`);
+      if (this.refactorStatus.has(id)) {
+        return fail(409, 'CONFLICT', `Refactoring ${id} was already ${this.refactorStatus.get(id)}`);
+      }
+      if (!refactor.isAutoApplicable) {
+        return fail(400, 'NOT_AUTO_APPLICABLE', 'Refactoring could not be applied automatically');
+      }
+
+      this.refactorStatus.set(id, 'applied');
+      for (const diagnosticId of refactor.fixesDiagnosticIds) {
+        if (this.resolved.has(diagnosticId)) continue;
+        this.resolved.add(diagnosticId);
+        this.emitDiagnostic({
+          type: 'Resolved',
+          diagnosticId,
+          resolution: { method: 'AUTO_FIX', fixApplied: null, timestamp: Date.now() },
+        });
+      }
+      this.broadcastState();
+      return ok({ status: 'applied' });
+    });
+
+    this.route('POST', '/api/refactors/:id/dismiss', (_, { id }) => {
+      if (!this.fixture?.refactors.some((r) => r.id === id)) {
+        return fail(404, 'NOT_FOUND', `Refactoring ${id} not found`);
+      }
+      this.refactorStatus.set(id, 'dismissed');
+      this.broadcastState();
+      return ok({ status: 'dismissed' });
+    });
+
+    this.route('GET', '/api/metrics', () => ok(this.metrics()));
+
+    this.route('GET', '/api/previews', () =>
+      ok(
+        (this.fixture?.previews ?? []).map((p) => ({
+          ...p,
+          status: [...this.previewSessions.values()].includes(p.id) ? 'running' : p.status,
+        }))
+      )
+    );
+
+    this.route('POST', '/api/previews/:id/start', (_, { id }) => {
+      if (!this.fixture?.previews.some((p) => p.id === id)) {
+        return fail(404, 'NOT_FOUND', 'Preview not found');
+      }
+      const sessionId = `session-${id}-${Date.now().toString(36)}`;
+      this.previewSessions.set(sessionId, id);
+      return ok({ status: 'started', sessionId });
+    });
+
+    this.route('POST', '/api/previews/:sessionId/stop', (_, { sessionId }) => {
+      this.previewSessions.delete(sessionId);
+      return ok({ status: 'stopped' });
+    });
+
+    this.route('POST', '/api/files/changed', ({ body }) => {
+      // One file per request, like the server's FileChangedRequest
+      const path = field(body, 'path');
+      if (!path) return fail(400, 'BAD_REQUEST', 'Missing path');
+      // Re-report the file's diagnostics as a re-analysis would
+      this.emitDiagnostic({ type: 'FileClear', filePath: path });
+      this.activeDiagnostics()
+        .filter((d) => d.location.filePath === path || d.location.relativeFilePath === path)
+        .forEach((diagnostic) => this.emitDiagnostic({ type: 'Added', diagnostic }));
+      return ok({ status: 'acknowledged' });
+    });
+
+    this.route('GET', '/api/files/content', ({ query }) => {
+      const path = query?.get('path');
+      if (!path) return fail(400, 'BAD_REQUEST', 'Missing path');
+      const content = this.fixtureFile(path);
+      if (content === undefined) return fail(404, 'NOT_FOUND', `No file at ${path}`);
+
+      return fileResponse(path, content);
+    });
+
+    this.route('GET', '/api/files/list', ({ query }) => {
+      const path = query?.get('path');
+      if (!path) return fail(400, 'BAD_REQUEST', 'Missing path');
+      const entries = this.fixtureDirectory(path);
+      if (!entries) return fail(404, 'NOT_FOUND', `No directory at ${path}`);
+      return ok({ path, entries });
+    });
+
+    // The fixture as loaded is the committed state; edits only touch the working tree
+    this.route('GET', '/api/git/file', ({ query }) => {
+      const path = query?.get('path');
+      if (!path) return fail(400, 'BAD_REQUEST', 'Missing path');
+      if (!this.fixture?.gitInfo) return fail(404, 'NOT_A_REPOSITORY', 'Repository is not under git');
+      const revision = query?.get('revision') || 'HEAD';
+      if (revision !== 'HEAD' && revision !== this.fixture.gitInfo.commitHash) {
+        return fail(404, 'UNKNOWN_REVISION', `Unknown revision ${revision}`);
+      }
+      const content = this.fixture.files[this.relativePath(path)];
+      if (content === undefined) return fail(404, 'NOT_FOUND', `${path} is not tracked at ${revision}`);
+      return fileResponse(path, content);
+    });
+
+    this.route('POST', '/api/files/edits', ({ body }) => {
+      const raw = body && typeof body === 'object' ? (body as Record<string, unknown>).edits : undefined;
+      if (!Array.isArray(raw) || raw.length === 0) return fail(400, 'BAD_REQUEST', 'Missing edits');
+      const edits = raw as DiagnosticFix['edits'];
+
+      const byFile = new Map<string, DiagnosticFix['edits']>();
+      for (const edit of edits) {
+        if (this.fixtureFile(edit.filePath) === undefined) return fail(404, 'NOT_FOUND', `No file at ${edit.filePath}`);
+        const relative = this.relativePath(edit.filePath);
+        byFile.set(relative, [...(byFile.get(relative) ?? []), edit]);
+      }
+
+      for (const [relative, fileEdits] of byFile) {
+        const content = applyTextEdits(
+          this.fixtureFile(relative)!,
+          fileEdits.map((e) => ({ file: relative, ...e.range, newText: e.newText }))
+        );
+        if (content === this.fixture!.files[relative]) this.edited.delete(relative);
+        else this.edited.set(relative, content);
+      }
+
+      // A diagnostic goes away once every edit of one of its fixes was applied
+      const applied = new Set(edits.map((e) => editKey(this.relativePath(e.filePath), e)));
+      for (const diagnostic of this.activeDiagnostics()) {
+        const fix = diagnostic.fixes.find((f) =>
+          f.edits.length > 0 && f.edits.every((e) => applied.has(editKey(this.relativePath(e.filePath), e)))
+        );
+        if (!fix) continue;
+        this.resolved.add(diagnostic.id);
+        this.fixedBy.set(diagnostic.id, fix.edits.map((e) => this.relativePath(e.filePath)));
+        this.emitDiagnostic({
+          type: 'Resolved',
+          diagnosticId: diagnostic.id,
+          resolution: { method: 'AUTO_FIX', fixApplied: fix, timestamp: Date.now() },
+        });
+      }
+
+      // Restoring a file to its original content (an undo) brings its fixed diagnostics back
+      for (const [id, files] of this.fixedBy) {
+        if (files.some((file) => this.edited.has(file))) continue;
+        this.fixedBy.delete(id);
+        this.resolved.delete(id);
+        const diagnostic = this.activeDiagnostics().find((d) => d.id === id);
+        if (diagnostic) this.emitDiagnostic({ type: 'Added', diagnostic });
+      }
+
+      this.broadcastState();
+      return ok({ success: true, appliedFiles: [...byFile.keys()].map((file) => `${this.fixture!.root}/${file}`) });
+    });
+
+    this.route('POST', '/api/error/clear', () => {
+      this.error = null;
+      this.broadcastState();
+      return ok({ status: 'cleared' });
+    });
+
+    this.route('POST', '/api/ai/analyze', async ({ body }) => {
+      if (!this.options.aiConfigured) {
+        return ok({
+          status: 'error',
+          analysis: '{}',
+          model: '',
+          error: 'AI service not configured. Set GROQ_API_KEY environment variable.',
+        });
+      }
+      const filePath = field(body, 'filePath');
+      const code = field(body, 'code') ?? (filePath ? this.fixtureFile(filePath) : undefined);
+      if (code === undefined) return fail(400, 'BAD_REQUEST', 'Provide code or filePath');
+
+      await delay(this.options.analysisDelayMs / 2);
+      const suggestions = code.split('\n').flatMap((line) =>
+        AI_RULES.filter((rule) => rule.pattern.test(line)).map((rule) => ({
+          title: rule.title,
+          rationale: rule.rationale,
+          beforeCode: line.trim(),
+          afterCode: rule.fix(line).trim(),
+          confidence: 0.8,
+        }))
+      );
+      const summary = suggestions.length
+        ? `Found ${suggestions.length} issue(s) in ${field(body, 'fileName') ?? 'the code'}.`
+        : 'No issues found.';
+      // The server passes the model's text through as a JSON string
+      return ok({ status: 'success', analysis: JSON.stringify({ suggestions, summary }), model: 'mock-llm' });
+    });
+
+    this.route('POST', '/api/github/sync', ({ body }) => {
+      if (!field(body, 'owner') || !field(body, 'repo') || !field(body, 'filePath')) {
+        return ok({ status: 'error', error: 'owner, repo and filePath are required' }, 400);
+      }
+      this.pullRequests += 1;
+      const branch = `debugforge/fix-${this.pullRequests}`;
+      return ok({
+        status: 'success',
+        prNumber: this.pullRequests,
+        prUrl: `https://github.com/${field(body, 'owner')}/${field(body, 'repo')}/pull/${this.pullRequests}`,
+        branch,
+      });
+    });
+  }
+
+  // Content of a file in the loaded fixture, by absolute or repo-relative path
+  private fixtureFile(path: string): string | undefined {
+    if (!this.fixture) return undefined;
+    const relative = this.relativePath(path);
+    return this.edited.get(relative) ?? this.fixture.files[relative];
+  }
+
+  private relativePath(path: string): string {
+    const root = this.fixture?.root;
+    return (root && path.startsWith(`${root}/`) ? path.slice(root.length + 1) : path).replace(/^\/+/, '');
+  }
+
+  // Direct children of a fixture directory, folders first; null if there is no such directory
+  private fixtureDirectory(path: string) {
+    if (!this.fixture) return null;
+    const { root, files } = this.fixture;
+    const relative = (path.startsWith(`${root}/`) ? path.slice(root.length + 1) : path === root ? '' : path)
+      .replace(/^\/+|\/+$/g, '');
+    const prefix = relative ? `${relative}/` : '';
+
+    const entries = new Map<string, { name: string; path: string; type: 'file' | 'directory'; size: number | null }>();
+    for (const [file, original] of Object.entries(files)) {
+      if (!file.startsWith(prefix)) continue;
+      const content = this.edited.get(file) ?? original;
+      const [name, ...rest] = file.slice(prefix.length).split('/');
+      const entryPath = `${root}/${prefix}${name}`;
+      if (rest.length > 0) entries.set(name, { name, path: entryPath, type: 'directory', size: null });
+      else entries.set(name, { name, path: entryPath, type: 'file', size: new TextEncoder().encode(content).length });
+    }
+    if (entries.size === 0 && relative) return null;
+    return [...entries.values()].sort((a, b) => a.type.localeCompare(b.type) || a.name.localeCompare(b.name));
+  }
+
+  // A fixture named by the path's last segment, else the fallback if one was chosen
+  private findFixture(pathOrUrl: string): MockFixture | null {
+    const name = pathOrUrl.replace(/\.git$/, '').split(/[\\/]/).filter(Boolean).pop() ?? '';
+    return fixtures[name] ?? (this.options.fixture ? fixtures[this.options.fixture] : null) ?? null;
+  }
+
+  private async clone(url: string): Promise<void> {
+    const steps = ['Connecting', 'Receiving objects', 'Resolving deltas'];
+    for (let i = 0; i < steps.length; i++) {
+      this.setStatus({ type: 'Cloning', url, progress: i / steps.length, currentOperation: steps[i] });
+      await delay(this.options.analysisDelayMs / 8);
+    }
+  }
+
+  // Walk through the server's load stages, emitting progress like the real analyzers
+  private async analyze(fixture: MockFixture): Promise<void> {
+    const files = Object.keys(fixture.files);
+    const step = this.options.analysisDelayMs / (files.length + ANALYZERS.length + 1);
+
+    this.setStatus({ type: 'Loading', path: fixture.root, filesScanned: 0 });
+    await delay(step);
+
+    for (let i = 0; i < files.length; i++) {
+      this.setStatus({ type: 'Indexing', totalFiles: files.length, indexedFiles: i + 1, currentFile: files[i] });
+      await delay(step);
+    }
+
+    // Edits survive a refresh of the same repo, as they would on disk
+    if (this.fixture !== fixture) {
+      this.edited.clear();
+      this.fixedBy.clear();
+    }
+    this.fixture = fixture;
+    for (let i = 0; i < ANALYZERS.length; i++) {
+      this.analysisProgress = i / ANALYZERS.length;
+      this.setStatus({ type: 'Analyzing', currentAnalyzer: ANALYZERS[i], progress: this.analysisProgress });
+      const progress: AnalysisProgress = {
+        phase: ANALYZERS[i],
+        currentFile: files[i % files.length] ?? null,
+        filesProcessed: Math.round((files.length * (i + 1)) / ANALYZERS.length),
+        totalFiles: files.length,
+        diagnosticsFound: this.activeDiagnostics().filter((d) => d.source === ANALYZERS[i]).length,
+      };
+      this.emitDiagnostic({ type: 'Progress', progress });
+      await delay(step);
+    }
+
+    this.analysisProgress = 1;
+    this.loadedAt = Date.now();
+    this.setStatus({
+      type: 'Ready',
+      repoPath: fixture.root,
+      repoName: fixture.name,
+      totalFiles: files.length,
+      totalModules: fixture.modules.length,
+      loadedAt: this.loadedAt,
+    });
+  }
+
+  private activeDiagnostics(): DiagnosticResponse[] {
+    if (!this.fixture) return [];
+    return this.fixture.diagnostics
+      .filter((d) => !this.suppressed.has(d.id) && !this.resolved.has(d.id))
+      .map((d) => ({
+        ...d,
+        location: this.withSnippet(d.location),
+        relatedLocations: d.relatedLocations.map((l) => this.withSnippet(l)),
+        timestamp: d.timestamp || this.loadedAt,
+      }));
+  }
+
+  // Like the server, quote the first lines a location covers
+  private withSnippet(location: DiagnosticLocation): DiagnosticLocation {
+    if (location.sourceSnippet !== undefined) return location;
+    const lines = this.fixtureFile(location.filePath)?.split('\n');
+    if (!lines) return location;
+    const end = Math.min(Math.max(location.endLine, location.startLine), location.startLine + SNIPPET_LINES - 1);
+    return { ...location, sourceSnippet: lines.slice(location.startLine - 1, end).join('\n') };
+  }
+
+  private pendingRefactors(): RefactorSuggestion[] {
+    if (!this.fixture) return [];
+    return this.fixture.refactors
+      .filter((r) => !this.refactorStatus.has(r.id))
+      .map((r) => ({ ...r, generatedAt: r.generatedAt || this.loadedAt }));
+  }
+
+  private repoInfo(): RepoInfo | null {
+    if (!this.fixture) return null;
+    return {
+      id: this.fixture.name,
+      path: this.fixture.root,
+      name: this.fixture.name,
+      gitInfo: this.fixture.gitInfo && { ...this.fixture.gitInfo, isDirty: this.fixture.gitInfo.isDirty || this.edited.size > 0 },
+      modules: this.fixture.modules.map((m) => ({
+        id: m.id,
+        name: m.name,
+        path: m.path,
+        gradlePath: m.gradlePath,
+        type: 'module',
+        targets: m.targets,
+        dependencies: m.dependencies.map((d) => d.targetModuleId),
+      })),
+      buildSystem: 'gradle',
+      lastAnalyzed: this.loadedAt || null,
+    };
+  }
+
+  // SharedCodeMetrics from the fixture's Kotlin sources, with per-module expect/actual counts
+  private metrics(): SharedCodeMetrics {
+    const breakdown: PlatformCodeBreakdown = {
+      commonLines: 0,
+      androidLines: 0,
+      iosLines: 0,
+      jvmLines: 0,
+      jsLines: 0,
+      wasmLines: 0,
+      nativeLines: 0,
+    };
+    const modules = this.fixture?.modules ?? [];
+    // Deepest first, so `shared/data/...` is counted for `:shared:data` rather than `:shared`
+    const owners = modules
+      .map((module) => ({ module, dir: this.relativePath(module.path) }))
+      .sort((a, b) => b.dir.length - a.dir.length);
+    const counts = new Map(modules.map((m) => [m.id, { shared: 0, total: 0, expect: 0, actual: 0 }]));
+
+    for (const path of Object.keys(this.fixture?.files ?? {}).filter((f) => f.endsWith('.kt'))) {
+      const owner = owners.find(({ dir }) => path.startsWith(`${dir}/`));
+      const sourceSet = /(?:^|\/)src\/([^/]+)\//.exec(path)?.[1];
+      if (!owner || !sourceSet) continue;
+      const content = this.fixtureFile(path) ?? '';
+      const lines = content.split('\n').length;
+      const bucket = platformLines(sourceSet);
+      if (bucket) breakdown[bucket] += lines;
+
+      const count = counts.get(owner.module.id)!;
+      count.total += lines;
+      if (bucket === 'commonLines') count.shared += lines;
+      count.expect += content.match(EXPECT_PATTERN)?.length ?? 0;
+      count.actual += content.match(ACTUAL_PATTERN)?.length ?? 0;
+    }
+
+    const all = [...counts.values()];
+    const total = all.reduce((sum, c) => sum + c.total, 0);
+    const shared = all.reduce((sum, c) => sum + c.shared, 0);
+    const expect = all.reduce((sum, c) => sum + c.expect, 0);
+    const actual = all.reduce((sum, c) => sum + c.actual, 0);
+    const percentage = (part: number, whole: number) => (whole > 0 ? (part / whole) * 100 : 0);
+
+    return {
+      totalLinesOfCode: total,
+      sharedLinesOfCode: shared,
+      sharedCodePercentage: percentage(shared, total),
+      platformBreakdown: breakdown,
+      expectDeclarations: expect,
+      actualImplementations: actual,
+      expectActualCoverage: expect > 0 ? Math.min(actual / expect, 1) : 0,
+      moduleRankings: modules
+        .filter((m) => counts.get(m.id)!.total > 0)
+        .map((m) => ({ module: m, count: counts.get(m.id)! }))
+        .sort((a, b) => percentage(b.count.shared, b.count.total) - percentage(a.count.shared, a.count.total))
+        .map(({ module, count }, i) => ({
+          moduleId: module.id,
+          moduleName: module.name,
+          sharedPercentage: percentage(count.shared, count.total),
+          sharedLines: count.shared,
+          totalLines: count.total,
+          rank: i + 1,
+          expectDeclarations: count.expect,
+          actualImplementations: count.actual,
+        })),
+      sharableCandidates: [],
+    };
+  }
+
+  // DebugForgeState as the live channel serializes it
+  private liveState(): LiveState {
+    return {
+      repoStatus: { ...this.repoStatus, type: `${REPO_STATUS_PREFIX}${this.repoStatus.type}` } as unknown as RepoStatus,
+      modules: this.fixture?.modules ?? [],
+      diagnostics: this.activeDiagnostics(),
+      sharedCodeMetrics: this.metrics(),
+      refactorSuggestions: this.pendingRefactors(),
+      lastUpdated: Date.now(),
+      analysisProgress: this.analysisProgress,
+      fatalError: this.error ? { code: 'ANALYSIS_FAILED', message: this.error, timestamp: Date.now() } : null,
+    };
+  }
+
+  private setStatus(status: RepoStatus): void {
+    this.repoStatus = status;
+    this.broadcastState();
+  }
+
+  private broadcastState(): void {
+    this.broadcast({ type: 'state', payload: JSON.stringify(this.liveState()) });
+  }
+
+  private emitDiagnostic(event: { type: string } & Record<string, unknown>): void {
+    const payload = { ...event, type: `${DIAGNOSTIC_EVENT_PREFIX}${event.type}` };
+    this.broadcast({ type: 'diagnostic', payload: JSON.stringify(payload) });
+  }
+
+  private broadcast(message: unknown): void {
+    const text = JSON.stringify(message);
+    this.connections.forEach((send) => send(text));
+  }
+
+  private receiveCommand(text: string, send: (text: string) => void): void {
+    let message: { command?: string; args?: Record<string, string> };
+    try {
+      message = JSON.parse(text);
+    } catch {
+      return;
+    }
+    const args = message.args ?? {};
+    switch (message.command) {
+      case 'ping':
+        send('{"type":"pong"}');
+        break;
+      case 'load': {
+        const fixture = args.path ? this.findFixture(args.path) : null;
+        if (fixture) void this.analyze(fixture);
+        break;
+      }
+      case 'clone': {
+        const fixture = args.url ? this.findFixture(args.url) : null;
+        if (fixture) void this.clone(args.url).then(() => this.analyze(fixture));
+        break;
+      }
+      case 'refresh':
+        if (this.fixture) void this.analyze(this.fixture);
+        break;
+    }
+  }
+}
+
+export { MockBackend };
@@ -0,0 +1,130 @@
+/**
+ * In-browser transport for the mock backend
+ * Intercepts fetch and WebSocket traffic to the mock host and
+ * answers it from a MockBackend; all other traffic goes to the network.
+ */
+import { MockBackend, MockNetworkError, type MockBackendOptions, type MockLiveConnection } from './backend';
+import { MOCK_HOST } from './endpoint';
+
+declare global {
+  interface Window {
+    // Exposed for scripting failures from the console
+    debugforgeMock?: MockBackend;
+  }
+}
+
+function mockUrl(url: string | URL): URL | null {
+  try {
+    const parsed = new URL(String(url), window.location.href);
+    return parsed.host === MOCK_HOST ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+function abortError(): DOMException {
+  return new DOMException('The operation was aborted.', 'AbortError');
+}
+
+// Reject as soon as the signal fires, like a real fetch
+function raceAbort<T>(promise: Promise<T>, signal?: AbortSignal | null): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(abortError());
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(abortError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+/**
+ * The subset of WebSocket that DebugForgeSocket uses, wired to the backend.
+ */
+class MockSocket {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSING = 2;
+  static readonly CLOSED = 3;
+
+  readonly url: string;
+  readyState = MockSocket.CONNECTING;
+  onopen: ((event: Event) => void) | null = null;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onclose: ((event: CloseEvent) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+  private connection: MockLiveConnection | null = null;
+
+  constructor(url: string, backend: MockBackend) {
+    this.url = url;
+    setTimeout(() => {
+      if (this.readyState !== MockSocket.CONNECTING) return;
+      this.readyState = MockSocket.OPEN;
+      this.onopen?.(new Event('open'));
+      this.connection = backend.connect((text) =>
+        setTimeout(() => {
+          if (this.readyState === MockSocket.OPEN) this.onmessage?.(new MessageEvent('message', { data: text }));
+        })
+      );
+    });
+  }
+
+  send(text: string): void {
+    if (this.readyState !== MockSocket.OPEN) throw new DOMException('WebSocket is not open', 'InvalidStateError');
+    setTimeout(() => this.connection?.receive(text));
+  }
+
+  close(): void {
+    if (this.readyState === MockSocket.CLOSED) return;
+    this.readyState = MockSocket.CLOSED;
+    this.connection?.close();
+    this.connection = null;
+    setTimeout(() => this.onclose?.(new CloseEvent('close', { code: 1000, wasClean: true })));
+  }
+}
+
+let installed: MockBackend | null = null;
+
+// Route the mock host to a MockBackend; returns the backend for scripting
+export function installMockBackend(options: MockBackendOptions = {}): MockBackend {
+  if (installed) return installed;
+  const backend = new MockBackend(options);
+  installed = backend;
+
+  const networkFetch = window.fetch.bind(window);
+  window.fetch = async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = mockUrl(input instanceof Request ? input.url : input);
+    if (!url) return networkFetch(input, init);
+
+    const text = typeof init?.body === 'string' ? init.body : '';
+    let body: unknown;
+    try {
+      body = text ? JSON.parse(text) : undefined;
+    } catch {
+      body = text;
+    }
+
+    try {
+      const response = await raceAbort(
+        backend.handle({ method: init?.method ?? 'GET', path: url.pathname, query: url.searchParams, body }),
+        init?.signal
+      );
+      return new Response(JSON.stringify(response.body), {
+        status: response.status,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    } catch (e) {
+      // What fetch does when the server is unreachable
+      if (e instanceof MockNetworkError) throw new TypeError('Failed to fetch');
+      throw e;
+    }
+  };
+
+  window.WebSocket = new Proxy(window.WebSocket, {
+    construct(target, args: [string | URL, (string | string[])?]) {
+      return mockUrl(args[0]) ? new MockSocket(String(args[0]), backend) : new target(...args);
+    },
+  });
+
+  window.debugforgeMock = backend;
+  return backend;
+}
@@ -0,0 +1,12 @@
+/**
+ * Address of the in-browser mock backend
+ * Nothing listens here; browser.ts intercepts requests to this host.
+ */
+import type { BackendEndpoint } from '@/services/api';
+
+export const MOCK_HOST = 'debugforge.mock';
+
+export const MOCK_ENDPOINT: BackendEndpoint = {
+  baseUrl: `http://${MOCK_HOST}`,
+  wsUrl: `ws://${MOCK_HOST}/ws`,
+};
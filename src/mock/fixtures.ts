@@ -0,0 +1,611 @@
+/**
+ * Fixture repositories for the mock backend
+ * Bodies follow the backend's wire format (module dependencies as objects,
+ * defaults present), so they exercise the same normalization as the real
+ * server.
+ */
+import type {
+  DiagnosticFix,
+  DiagnosticLocation,
+  DiagnosticResponse,
+  DiffHunk,
+  FileChange,
+  GitInfo,
+  PreviewInfo,
+  RefactorSuggestion,
+} from '@/services/api';
+
+// Core ModuleInfo as the backend serializes it
+export interface MockModule {
+  id: string;
+  name: string;
+  path: string;
+  gradlePath: string;
+  targets: string[];
+  hasCommonCode: boolean;
+  dependencies: { targetModuleId: string; configuration: string }[];
+}
+
+export interface MockFixture {
+  name: string;
+  root: string;
+  gitInfo: GitInfo | null;
+  // File contents keyed by path relative to root
+  files: Record<string, string>;
+  modules: MockModule[];
+  diagnostics: DiagnosticResponse[];
+  refactors: RefactorSuggestion[];
+  previews: PreviewInfo[];
+}
+
+function location(
+  root: string,
+  relativeFilePath: string,
+  moduleId: string,
+  sourceSet: string,
+  [startLine, startColumn, endLine, endColumn]: [number, number, number, number]
+): DiagnosticLocation {
+  return {
+    filePath: `${root}/${relativeFilePath}`,
+    relativeFilePath,
+    moduleId,
+    sourceSet,
+    startLine,
+    startColumn,
+    endLine,
+    endColumn,
+  };
+}
+
+function module(root: string, gradlePath: string, targets: string[], dependsOn: string[] = []): MockModule {
+  const segments = gradlePath.split(':').filter(Boolean);
+  return {
+    id: gradlePath,
+    name: segments[segments.length - 1],
+    path: `${root}/${segments.join('/')}`,
+    gradlePath,
+    targets,
+    hasCommonCode: true,
+    dependencies: dependsOn.map((targetModuleId) => ({ targetModuleId, configuration: 'commonMainImplementation' })),
+  };
+}
+
+// Build a hunk from unified diff lines (' ' context, '-' removed, '+' added)
+function hunk(oldStart: number, newStart: number, lines: string[]): DiffHunk {
+  let oldLine = oldStart;
+  let newLine = newStart;
+  const parsed = lines.map((line) => {
+    const content = line.slice(1);
+    if (line.startsWith('-')) return { type: 'REMOVE' as const, content, oldLineNumber: oldLine++ };
+    if (line.startsWith('+')) return { type: 'ADD' as const, content, newLineNumber: newLine++ };
+    return { type: 'CONTEXT' as const, content, oldLineNumber: oldLine++, newLineNumber: newLine++ };
+  });
+  return {
+    oldStart,
+    oldCount: oldLine - oldStart,
+    newStart,
+    newCount: newLine - newStart,
+    lines: parsed,
+  };
+}
+
+function unifiedDiff(changes: FileChange[]): string {
+  return changes
+    .map((change) => {
+      const header = [`--- a/${change.oldPath ?? change.filePath}`, `+++ b/${change.filePath}`];
+      const body = change.hunks.flatMap((h) => [
+        `@@ -${h.oldStart},${h.oldCount} +${h.newStart},${h.newCount} @@`,
+        ...h.lines.map((l) => (l.type === 'ADD' ? '+' : l.type === 'REMOVE' ? '-' : ' ') + l.content),
+      ]);
+      return [...header, ...body].join('\n');
+    })
+    .join('\n');
+}
+
+function fix(title: string, description: string, filePath: string, range: DiagnosticFix['edits'][0]['range'], newText: string): DiagnosticFix {
+  return { title, description, edits: [{ filePath, range, newText }], isPreferred: true, confidence: 90 };
+}
+
+const NOTES_ROOT = '/mock/repos/kmp-notes';
+const notesPath = (relative: string) => `${NOTES_ROOT}/${relative}`;
+
+// A generated resource accessor file, `entries` properties long
+function generatedStrings(entries: number): string {
+  const lines = ['package com.example.notes.generated', '', 'object Strings {'];
+  for (let i = 0; i < entries; i++) lines.push(`    const val STRING_${i} = "String resource ${i}"`);
+  return `${lines.join('\n')}\n}\n`;
+}
+
+const NOTES_FILES: Record<string, string> = {
+  'settings.gradle.kts': `rootProject.name = "kmp-notes"
+
+include(":shared", ":shared:data", ":composeApp")
+`,
+  'gradle/libs.versions.toml': `[versions]
+kotlin = "2.0.21"
+coroutines = "1.9.0"
+ktor = "3.0.1"
+
+[libraries]
+kotlinx-coroutines-core = { module = "org.jetbrains.kotlinx:kotlinx-coroutines-core", version.ref = "coroutines" }
+ktor-client-core = { module = "io.ktor:ktor-client-core", version.ref = "ktor" }
+`,
+  'shared/build.gradle.kts': `plugins {
+    alias(libs.plugins.kotlinMultiplatform)
+    alias(libs.plugins.androidLibrary)
+}
+
+kotlin {
+    androidTarget()
+    iosArm64()
+    iosSimulatorArm64()
+    wasmJs { browser() }
+
+    sourceSets {
+        commonMain.dependencies {
+            implementation(project(":shared:data"))
+        }
+    }
+}
+`,
+  'shared/src/commonMain/kotlin/com/example/notes/Platform.kt': `package com.example.notes
+
+expect class Platform() {
+    val name: String
+}
+
+expect fun currentTimeMillis(): Long
+`,
+  'shared/src/androidMain/kotlin/com/example/notes/Platform.android.kt': `package com.example.notes
+
+import android.os.Build
+
+actual class Platform actual constructor() {
+    actual val name: String = "Android \${Build.VERSION.SDK_INT}"
+}
+
+actual fun currentTimeMillis(): Long = System.currentTimeMillis()
+`,
+  'shared/src/iosMain/kotlin/com/example/notes/Platform.ios.kt': `package com.example.notes
+
+import platform.UIKit.UIDevice
+
+actual class Platform actual constructor() {
+    actual val name: String = UIDevice.currentDevice.systemName()
+}
+`,
+  'shared/src/wasmJsMain/kotlin/com/example/notes/Platform.wasmJs.kt': `package com.example.notes
+
+actual class Platform actual constructor() {
+    actual val name: String = "Web with Kotlin/Wasm"
+}
+
+actual fun currentTimeMillis(): Long = kotlinx.browser.window.performance.now().toLong()
+`,
+  'shared/data/src/commonMain/kotlin/com/example/notes/data/NotesRepository.kt': `package com.example.notes.data
+
+import kotlinx.coroutines.GlobalScope
+import kotlinx.coroutines.flow.MutableStateFlow
+import kotlinx.coroutines.flow.StateFlow
+import kotlinx.coroutines.launch
+
+class NotesRepository(private val api: NotesApi) {
+    private val _notes = MutableStateFlow<List<Note>>(emptyList())
+    val notes: StateFlow<List<Note>> = _notes
+
+    fun refresh() {
+        GlobalScope.launch {
+            _notes.value = api.fetchNotes()
+        }
+    }
+
+    fun search(query: String): List<Note> =
+        _notes.value.filter { it.title.contains(query) || it.body.contains(query) }
+}
+`,
+  'shared/data/src/commonMain/kotlin/com/example/notes/data/NotesApi.kt': `package com.example.notes.data
+
+import io.ktor.client.HttpClient
+import io.ktor.client.call.body
+import io.ktor.client.request.get
+
+class NotesApi(private val client: HttpClient) {
+    suspend fun fetchNotes(): List<Note> = client.get("https://api.example.com/notes").body()
+}
+
+data class Note(val id: String, val title: String, val body: String)
+`,
+  'shared/data/src/wasmJsMain/kotlin/com/example/notes/data/NoteCache.wasmJs.kt': `package com.example.notes.data
+
+import kotlinx.coroutines.Dispatchers
+import kotlinx.coroutines.runBlocking
+import kotlinx.coroutines.withContext
+
+object NoteCache {
+    private val entries = mutableMapOf<String, Note>()
+
+    fun get(id: String): Note? = runBlocking {
+        withContext(Dispatchers.Default) { entries[id] }
+    }
+}
+`,
+  'composeApp/src/commonMain/kotlin/com/example/notes/App.kt': `package com.example.notes
+
+import androidx.compose.material3.MaterialTheme
+import androidx.compose.material3.Text
+import androidx.compose.runtime.Composable
+
+@Composable
+fun App() {
+    MaterialTheme {
+        Text("Hello from \${Platform().name}")
+    }
+}
+`,
+  'composeApp/src/androidMain/kotlin/com/example/notes/android/MainActivity.kt': `package com.example.notes.android
+
+import android.os.Bundle
+import androidx.activity.ComponentActivity
+import androidx.activity.compose.setContent
+import com.example.notes.App
+
+class MainActivity : ComponentActivity() {
+    override fun onCreate(savedInstanceState: Bundle?) {
+        super.onCreate(savedInstanceState)
+        setContent { App() }
+    }
+
+    override fun onBackPressed() {
+        super.onBackPressed()
+    }
+}
+`,
+  'shared/data/build.gradle.kts': `plugins {
+    alias(libs.plugins.kotlinMultiplatform)
+    alias(libs.plugins.androidLibrary)
+}
+
+kotlin {
+    androidTarget()
+    iosArm64()
+    iosSimulatorArm64()
+    wasmJs { browser() }
+
+    sourceSets {
+        commonMain.dependencies {
+            implementation(libs.kotlinx.coroutines.core)
+            implementation(libs.ktor.client.core)
+        }
+    }
+}
+`,
+  'composeApp/build.gradle.kts': `plugins {
+    alias(libs.plugins.kotlinMultiplatform)
+    alias(libs.plugins.androidApplication)
+    alias(libs.plugins.composeMultiplatform)
+}
+
+kotlin {
+    androidTarget()
+    wasmJs { browser() }
+
+    sourceSets {
+        commonMain.dependencies {
+            implementation(project(":shared"))
+            implementation(compose.material3)
+        }
+    }
+}
+`,
+  'composeApp/src/androidMain/AndroidManifest.xml': `<?xml version="1.0" encoding="utf-8"?>
+<manifest xmlns:android="http://schemas.android.com/apk/res/android">
+    <!-- Notes needs network access for sync -->
+    <uses-permission android:name="android.permission.INTERNET" />
+
+    <application
+        android:label="Notes"
+        android:theme="@android:style/Theme.Material.Light.NoActionBar">
+        <activity
+            android:name=".android.MainActivity"
+            android:exported="true">
+            <intent-filter>
+                <action android:name="android.intent.action.MAIN" />
+                <category android:name="android.intent.category.LAUNCHER" />
+            </intent-filter>
+        </activity>
+    </application>
+</manifest>
+`,
+  // Not text: exercises the binary-file path of the file viewer
+  'gradle/wrapper/gradle-wrapper.jar': 'PK\u0003\u0004\u0014\u0000\u0008\u0000\u0008\u0000',
+  // Large enough to exercise the viewer's line limit
+  'shared/src/commonMain/kotlin/com/example/notes/generated/Strings.kt': generatedStrings(12000),
+};
+
+const PLATFORM_KT = 'shared/src/commonMain/kotlin/com/example/notes/Platform.kt';
+const PLATFORM_IOS_KT = 'shared/src/iosMain/kotlin/com/example/notes/Platform.ios.kt';
+const REPOSITORY_KT = 'shared/data/src/commonMain/kotlin/com/example/notes/data/NotesRepository.kt';
+const NOTES_API_KT = 'shared/data/src/commonMain/kotlin/com/example/notes/data/NotesApi.kt';
+const NOTE_CACHE_KT = 'shared/data/src/wasmJsMain/kotlin/com/example/notes/data/NoteCache.wasmJs.kt';
+const APP_KT = 'composeApp/src/commonMain/kotlin/com/example/notes/App.kt';
+const MAIN_ACTIVITY_KT = 'composeApp/src/androidMain/kotlin/com/example/notes/android/MainActivity.kt';
+
+const notesDiagnostics: DiagnosticResponse[] = [
+  {
+    id: 'notes-expect-actual-1',
+    severity: 'ERROR',
+    category: 'EXPECT_ACTUAL',
+    message: "Expected function 'currentTimeMillis' has no actual declaration for iOS",
+    explanation:
+      'Every expect declaration in commonMain needs an actual implementation in each target source set. ' +
+      'The iosMain source set does not declare currentTimeMillis, so iOS compilation fails.',
+    location: location(NOTES_ROOT, PLATFORM_KT, ':shared', 'commonMain', [7, 1, 7, 34]),
+    relatedLocations: [
+      location(NOTES_ROOT, PLATFORM_IOS_KT, ':shared', 'iosMain', [1, 1, 7, 2]),
+      location(NOTES_ROOT, 'shared/src/androidMain/kotlin/com/example/notes/Platform.android.kt', ':shared', 'androidMain', [9, 1, 9, 62]),
+    ],
+    fixes: [
+      fix(
+        'Add actual for iOS',
+        'Declare currentTimeMillis in iosMain using NSDate.',
+        notesPath(PLATFORM_IOS_KT),
+        { startLine: 8, startColumn: 1, endLine: 8, endColumn: 1 },
+        '\nactual fun currentTimeMillis(): Long = (platform.Foundation.NSDate().timeIntervalSince1970 * 1000).toLong()\n'
+      ),
+    ],
+    source: 'EXPECT_ACTUAL_ANALYZER',
+    timestamp: 0,
+    isActive: true,
+    tags: ['FIXABLE', 'CROSS_PLATFORM'],
+  },
+  {
+    id: 'notes-coroutine-1',
+    severity: 'WARNING',
+    category: 'COROUTINE_SAFETY',
+    message: 'GlobalScope.launch outlives the repository',
+    explanation:
+      'Coroutines launched in GlobalScope are not cancelled with their owner and can leak work and memory. ' +
+      'Launch in a scope tied to the repository lifecycle instead.',
+    location: location(NOTES_ROOT, REPOSITORY_KT, ':shared:data', 'commonMain', [13, 9, 13, 27]),
+    relatedLocations: [],
+    fixes: [
+      fix(
+        'Launch in an injected scope',
+        'Replace GlobalScope with a CoroutineScope constructor parameter.',
+        notesPath(REPOSITORY_KT),
+        { startLine: 13, startColumn: 9, endLine: 13, endColumn: 20 },
+        'scope'
+      ),
+    ],
+    source: 'COROUTINE_LEAK_DETECTOR',
+    timestamp: 0,
+    isActive: true,
+    tags: ['FIXABLE'],
+  },
+  {
+    id: 'notes-wasm-1',
+    severity: 'ERROR',
+    category: 'WASM_THREADING',
+    message: 'runBlocking is not supported on Kotlin/Wasm',
+    explanation:
+      'The Wasm target runs on a single thread and has no blocking primitives; runBlocking fails at runtime. ' +
+      'Expose a suspend function instead.',
+    location: location(NOTES_ROOT, NOTE_CACHE_KT, ':shared:data', 'wasmJsMain', [10, 34, 10, 45]),
+    relatedLocations: [],
+    fixes: [],
+    source: 'WASM_THREAD_SAFETY_ANALYZER',
+    timestamp: 0,
+    isActive: true,
+    tags: [],
+  },
+  {
+    id: 'notes-api-1',
+    severity: 'HINT',
+    category: 'STYLE',
+    message: 'Hard-coded base URL',
+    explanation: 'Pass the base URL in through configuration so each environment can point at its own server.',
+    location: location(NOTES_ROOT, NOTES_API_KT, ':shared:data', 'commonMain', [8, 55, 8, 86]),
+    relatedLocations: [],
+    fixes: [],
+    source: 'API_MISUSE_ANALYZER',
+    timestamp: 0,
+    isActive: true,
+    tags: [],
+  },
+  {
+    id: 'notes-perf-1',
+    severity: 'INFO',
+    category: 'PERFORMANCE',
+    message: 'Platform() is created on every recomposition',
+    explanation: 'Wrap the instance in remember { } so it is created once per composition.',
+    location: location(NOTES_ROOT, APP_KT, ':composeApp', 'commonMain', [10, 28, 10, 38]),
+    relatedLocations: [],
+    fixes: [],
+    source: 'API_MISUSE_ANALYZER',
+    timestamp: 0,
+    isActive: true,
+    tags: [],
+  },
+  {
+    id: 'notes-deprecation-1',
+    severity: 'WARNING',
+    category: 'DEPRECATION',
+    message: "'onBackPressed' is deprecated",
+    explanation: 'Use OnBackPressedDispatcher to handle back navigation on Android 13 and later.',
+    location: location(NOTES_ROOT, MAIN_ACTIVITY_KT, ':composeApp', 'androidMain', [14, 5, 16, 6]),
+    relatedLocations: [],
+    fixes: [],
+    source: 'API_MISUSE_ANALYZER',
+    timestamp: 0,
+    isActive: true,
+    tags: ['DEPRECATED'],
+  },
+];
+
+const scopeChanges: FileChange[] = [
+  {
+    filePath: REPOSITORY_KT,
+    changeType: 'MODIFY',
+    hunks: [
+      hunk(1, 1, [
+        ' package com.example.notes.data',
+        ' ',
+        '-import kotlinx.coroutines.GlobalScope',
+        '+import kotlinx.coroutines.CoroutineScope',
+        ' import kotlinx.coroutines.flow.MutableStateFlow',
+      ]),
+      hunk(7, 7, [
+        ' ',
+        '-class NotesRepository(private val api: NotesApi) {',
+        '+class NotesRepository(',
+        '+    private val api: NotesApi,',
+        '+    private val scope: CoroutineScope,',
+        '+) {',
+        '     private val _notes = MutableStateFlow<List<Note>>(emptyList())',
+      ]),
+      hunk(12, 15, [
+        '     fun refresh() {',
+        '-        GlobalScope.launch {',
+        '+        scope.launch {',
+        '             _notes.value = api.fetchNotes()',
+      ]),
+    ],
+  },
+];
+
+const iosActualChanges: FileChange[] = [
+  {
+    filePath: PLATFORM_IOS_KT,
+    changeType: 'MODIFY',
+    hunks: [
+      hunk(6, 6, [
+        '     actual val name: String = UIDevice.currentDevice.systemName()',
+        ' }',
+        '+',
+        '+actual fun currentTimeMillis(): Long = (platform.Foundation.NSDate().timeIntervalSince1970 * 1000).toLong()',
+      ]),
+    ],
+  },
+];
+
+const cacheChanges: FileChange[] = [
+  {
+    filePath: NOTE_CACHE_KT,
+    changeType: 'MODIFY',
+    hunks: [
+      hunk(1, 1, [
+        ' package com.example.notes.data',
+        ' ',
+        '-import kotlinx.coroutines.Dispatchers',
+        '-import kotlinx.coroutines.runBlocking',
+        '-import kotlinx.coroutines.withContext',
+        '-',
+        ' object NoteCache {',
+      ]),
+      hunk(9, 5, [
+        ' ',
+        '-    fun get(id: String): Note? = runBlocking {',
+        '-        withContext(Dispatchers.Default) { entries[id] }',
+        '-    }',
+        '+    fun get(id: String): Note? = entries[id]',
+        ' }',
+      ]),
+    ],
+  },
+];
+
+const notesRefactors: RefactorSuggestion[] = [
+  {
+    id: 'notes-refactor-scope',
+    title: 'Inject a CoroutineScope into NotesRepository',
+    rationale: 'Launching in an owned scope lets callers cancel refreshes when the screen goes away.',
+    confidence: 0.92,
+    category: 'COROUTINE_SAFETY',
+    priority: 'HIGH',
+    unifiedDiff: unifiedDiff(scopeChanges),
+    changes: scopeChanges,
+    affectedLocations: [location(NOTES_ROOT, REPOSITORY_KT, ':shared:data', 'commonMain', [8, 1, 16, 6])],
+    fixesDiagnosticIds: ['notes-coroutine-1'],
+    sharedCodeImpact: null,
+    isAutoApplicable: true,
+    risks: [
+      {
+        level: 'MEDIUM',
+        description: 'Every NotesRepository call site must now pass a scope.',
+        mitigation: 'Provide the scope from your DI graph.',
+      },
+    ],
+    source: 'RULE_ENGINE',
+    generatedAt: 0,
+  },
+  {
+    id: 'notes-refactor-ios-actual',
+    title: 'Add the missing iOS actual for currentTimeMillis',
+    rationale: 'iosMain lacks an actual for an expect function, which breaks the iOS build.',
+    confidence: 0.97,
+    category: 'EXPECT_ACTUAL_FIX',
+    priority: 'CRITICAL',
+    unifiedDiff: unifiedDiff(iosActualChanges),
+    changes: iosActualChanges,
+    affectedLocations: [location(NOTES_ROOT, PLATFORM_IOS_KT, ':shared', 'iosMain', [6, 1, 7, 2])],
+    fixesDiagnosticIds: ['notes-expect-actual-1'],
+    sharedCodeImpact: null,
+    isAutoApplicable: true,
+    risks: [],
+    source: 'RULE_ENGINE',
+    generatedAt: 0,
+  },
+  {
+    id: 'notes-refactor-cache',
+    title: 'Drop runBlocking from NoteCache',
+    rationale: 'The cache is a plain map lookup; it needs no dispatcher and must not block on Wasm.',
+    confidence: 0.74,
+    category: 'WASM_COMPATIBILITY',
+    priority: 'HIGH',
+    unifiedDiff: unifiedDiff(cacheChanges),
+    changes: cacheChanges,
+    affectedLocations: [location(NOTES_ROOT, NOTE_CACHE_KT, ':shared:data', 'wasmJsMain', [10, 5, 12, 6])],
+    fixesDiagnosticIds: ['notes-wasm-1'],
+    sharedCodeImpact: 2.5,
+    isAutoApplicable: false,
+    risks: [{ level: 'LOW', description: 'Callers relying on the dispatcher switch lose it.' }],
+    source: 'RULE_ENGINE',
+    generatedAt: 0,
+  },
+];
+
+const EMPTY_ROOT = '/mock/repos/kmp-empty';
+
+export const fixtures: Record<string, MockFixture> = {
+  'kmp-notes': {
+    name: 'kmp-notes',
+    root: NOTES_ROOT,
+    gitInfo: { branch: 'main', commitHash: '3f9c2e1', remoteUrl: 'https://github.com/example/kmp-notes', isDirty: false },
+    files: NOTES_FILES,
+    modules: [
+      module(NOTES_ROOT, ':shared', ['android', 'iosArm64', 'iosSimulatorArm64', 'wasmJs'], [':shared:data']),
+      module(NOTES_ROOT, ':shared:data', ['android', 'iosArm64', 'iosSimulatorArm64', 'wasmJs']),
+      module(NOTES_ROOT, ':composeApp', ['android', 'wasmJs'], [':shared']),
+    ],
+    diagnostics: notesDiagnostics,
+    refactors: notesRefactors,
+    previews: [
+      { id: 'composeApp-android', platform: 'android', status: 'stopped' },
+      { id: 'composeApp-wasm', platform: 'wasm', status: 'stopped' },
+    ],
+  },
+  // A clean project, for empty states
+  'kmp-empty': {
+    name: 'kmp-empty',
+    root: EMPTY_ROOT,
+    gitInfo: null,
+    files: {
+      'settings.gradle.kts': 'rootProject.name = "kmp-empty"\n\ninclude(":shared")\n',
+      'shared/src/commonMain/kotlin/Greeting.kt': 'class Greeting {\n    fun greet(): String = "Hello"\n}\n',
+    },
+    modules: [module(EMPTY_ROOT, ':shared', ['android', 'iosArm64'])],
+    diagnostics: [],
+    refactors: [],
+    previews: [],
+  },
+};
@@ -0,0 +1,155 @@
+/**
+ * Node transport for the mock backend
+ * Serves REST and the `/ws` live channel from one HTTP
+ * server, so a browser can point `?backend=` at it like a real backend.
+ */
+import { createHash } from 'node:crypto';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { Duplex } from 'node:stream';
+import { MockBackend, MockNetworkError, type MockBackendOptions } from './backend';
+
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': '*',
+};
+
+function readBody(req: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('error', reject);
+    req.on('end', () => {
+      const text = Buffer.concat(chunks).toString('utf8');
+      try {
+        resolve(text ? JSON.parse(text) : undefined);
+      } catch {
+        resolve(text);
+      }
+    });
+  });
+}
+
+async function answer(backend: MockBackend, req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, CORS_HEADERS).end();
+    return;
+  }
+
+  try {
+    const response = await backend.handle({
+      method: req.method ?? 'GET',
+      path: url.pathname,
+      query: url.searchParams,
+      body: await readBody(req),
+    });
+    res.writeHead(response.status, { ...CORS_HEADERS, 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(response.body));
+  } catch (e) {
+    // An injected outage drops the connection without a response
+    if (e instanceof MockNetworkError) {
+      req.socket.destroy();
+      return;
+    }
+    res.writeHead(500, CORS_HEADERS).end();
+  }
+}
+
+function encodeFrame(opcode: number, payload: Buffer): Buffer {
+  const length = payload.length;
+  const header =
+    length < 126
+      ? Buffer.from([0x80 | opcode, length])
+      : length < 65536
+        ? Buffer.from([0x80 | opcode, 126, length >> 8, length & 0xff])
+        : Buffer.concat([Buffer.from([0x80 | opcode, 127, 0, 0, 0, 0]), uint32(length)]);
+  return Buffer.concat([header, payload]);
+}
+
+function uint32(value: number): Buffer {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32BE(value);
+  return buffer;
+}
+
+// Minimal RFC 6455 server side: unfragmented text, ping and close frames
+function acceptWebSocket(backend: MockBackend, req: IncomingMessage, socket: Duplex): void {
+  const key = req.headers['sec-websocket-key'];
+  if (typeof key !== 'string') {
+    socket.destroy();
+    return;
+  }
+  const accept = createHash('sha1').update(key + WS_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n' +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+
+  const connection = backend.connect((text) => socket.write(encodeFrame(0x1, Buffer.from(text, 'utf8'))));
+  let pending = Buffer.alloc(0);
+
+  socket.on('data', (chunk: Buffer) => {
+    pending = Buffer.concat([pending, chunk]);
+    while (pending.length >= 2) {
+      const opcode = pending[0] & 0x0f;
+      const masked = (pending[1] & 0x80) !== 0;
+      let length = pending[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (pending.length < 4) return;
+        length = pending.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (pending.length < 10) return;
+        length = pending.readUInt32BE(6);
+        offset = 10;
+      }
+      const maskOffset = offset;
+      if (masked) offset += 4;
+      if (pending.length < offset + length) return;
+
+      const payload = Buffer.from(pending.subarray(offset, offset + length));
+      if (masked) {
+        for (let i = 0; i < payload.length; i++) payload[i] ^= pending[maskOffset + (i % 4)];
+      }
+      pending = pending.subarray(offset + length);
+
+      if (opcode === 0x1) connection.receive(payload.toString('utf8'));
+      else if (opcode === 0x9) socket.write(encodeFrame(0xa, payload));
+      else if (opcode === 0x8) {
+        socket.end(encodeFrame(0x8, Buffer.alloc(0)));
+        return;
+      }
+    }
+  });
+  socket.on('close', () => connection.close());
+  socket.on('error', () => connection.close());
+}
+
+// HTTP server answering REST and `/ws` from one backend
+export function createMockServer(backend: MockBackend = new MockBackend()): Server {
+  const server = createServer((req, res) => {
+    void answer(backend, req, res);
+  });
+  server.on('upgrade', (req, socket) => {
+    if (new URL(req.url ?? '/', 'http://localhost').pathname === '/ws') acceptWebSocket(backend, req, socket);
+    else socket.destroy();
+  });
+  return server;
+}
+
+// Start a mock backend on `port`; resolves once it is listening
+export function startMockServer(
+  port: number,
+  options: MockBackendOptions = {}
+): Promise<{ backend: MockBackend; server: Server }> {
+  const backend = new MockBackend(options);
+  const server = createMockServer(backend);
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, '127.0.0.1', () => resolve({ backend, server }));
+  });
+}
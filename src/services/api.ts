@@ -18,9 +18,43 @@ export interface GitHubPRResponse {
  * API Service Layer for DebugForge
  * Connects frontend to backend at port 18999
  */
+import type { z } from 'zod';
+import { DebugForgeSocket } from './liveSocket';
+import { DebugForgeApiError } from './errors';
+import {
+  aiAnalysisSchema,
+  aiAnalyzeResponseSchema,
+  appStateSchema,
+  applyEditsSchema,
+  applyRefactorSchema,
+  diagnosticSchema,
+  fileContentSchema,
+  directoryListingSchema,
+  gitHubPRSchema,
+  healthSchema,
+  moduleInfoSchema,
+  parseList,
+  parseResponse,
+  previewSchema,
+  refactorSchema,
+  repoResponseSchema,
+  sharedCodeMetricsSchema,
+  startPreviewSchema,
+} from './schemas';
 
 const API_BASE = 'http://127.0.0.1:8081';
+const WS_URL = 'ws://127.0.0.1:18999/ws';
 
+// Where the REST and live endpoints of one backend live
+export interface BackendEndpoint {
+  baseUrl: string;
+  wsUrl: string;
+  headers?: Record<string, string>;
+}
+
+export const DEFAULT_ENDPOINT: BackendEndpoint = { baseUrl: API_BASE, wsUrl: WS_URL };
+
+// Error body sent by the backend (ErrorResponse)
 export interface ApiError {
   code: string;
   message: string;
@@ -31,12 +65,17 @@ export interface HealthResponse {
   version: string;
 }
 
+// `/api/state`: the server's DebugForgeState, as the live channel also pushes it
 export interface AppState {
-  loadedRepos: RepoInfo[];
-  activeRepoId: string | null;
-  isAnalyzing: boolean;
+  repoStatus: RepoStatus;
+  modules: ModuleInfo[];
+  diagnostics: DiagnosticResponse[];
+  // null before the first analysis
+  sharedCodeMetrics: SharedCodeMetrics | null;
+  refactorSuggestions: RefactorSuggestion[];
+  lastUpdated: number;
   analysisProgress: number;
-  error: string | null;
+  fatalError: { code: string; message: string; stackTrace: string | null; timestamp: number } | null;
 }
 
 export interface RepoInfo {
@@ -60,6 +99,8 @@ export interface ModuleInfo {
   id: string;
   name: string;
   path: string;
+  // e.g. ":shared:data"; the id when the backend does not send it
+  gradlePath: string;
   type: string;
   targets: string[];
   dependencies: string[];
@@ -106,33 +147,6 @@ export interface DiagnosticResponse {
   tags: string[];
 }
 
-// Helper to extract flat fields for compatibility
-export function flattenDiagnostic(d: DiagnosticResponse): {
-  id: string;
-  severity: string;
-  category: string;
-  message: string;
-  filePath: string;
-  line: number;
-  column: number;
-  source: string;
-  fixes: DiagnosticFix[];
-  tags: string[];
-} {
-  return {
-    id: d.id,
-    severity: d.severity,
-    category: d.category,
-    message: d.message,
-    filePath: d.location.filePath,
-    line: d.location.startLine,
-    column: d.location.startColumn,
-    source: d.source,
-    fixes: d.fixes,
-    tags: d.tags,
-  };
-}
-
 export interface RefactorSuggestion {
   id: string;
   title: string;
@@ -179,6 +193,126 @@ export interface RefactorRisk {
   mitigation?: string;
 }
 
+// Lines of Kotlin code per platform family
+export interface PlatformCodeBreakdown {
+  commonLines: number;
+  androidLines: number;
+  iosLines: number;
+  jvmLines: number;
+  jsLines: number;
+  wasmLines: number;
+  nativeLines: number;
+}
+
+export interface ModuleSharedRanking {
+  moduleId: string;
+  moduleName: string;
+  sharedPercentage: number;
+  sharedLines: number;
+  totalLines: number;
+  rank: number;
+  // Per-module expect/actual counts; null when the backend does not report them
+  expectDeclarations: number | null;
+  actualImplementations: number | null;
+}
+
+export interface SharableCandidate {
+  filePath: string;
+  currentSourceSet: string;
+  confidence: number;
+  reasons: string[];
+  blockers: { type: string; description: string; lineNumber: number | null; symbol: string | null }[];
+}
+
+// `/api/metrics`: how much of the project's code is shared, overall and per module
+export interface SharedCodeMetrics {
+  totalLinesOfCode: number;
+  sharedLinesOfCode: number;
+  sharedCodePercentage: number;
+  platformBreakdown: PlatformCodeBreakdown;
+  expectDeclarations: number;
+  actualImplementations: number;
+  expectActualCoverage: number;
+  moduleRankings: ModuleSharedRanking[];
+  sharableCandidates: SharableCandidate[];
+}
+
+export interface PreviewInfo {
+  id: string;
+  platform: string;
+  status: string;
+}
+
+export interface ApplyRefactorResponse {
+  status: 'applied';
+}
+
+export interface ApplyEditsResponse {
+  success: boolean;
+  appliedFiles: string[];
+}
+
+export interface StartPreviewResponse {
+  sessionId: string;
+}
+
+// A source file as served by `/api/files/content`
+export interface FileContent {
+  path: string;
+  // Size on disk in bytes
+  size: number;
+  // Binary files come without content
+  binary: boolean;
+  // Content was cut off at the server's size limit
+  truncated: boolean;
+  content: string | null;
+}
+
+export interface DirectoryEntry {
+  name: string;
+  // Absolute path, usable with readFile and listDirectory
+  path: string;
+  type: 'file' | 'directory';
+  // Bytes, for files
+  size: number | null;
+}
+
+// One directory level as served by `/api/files/list`
+export interface DirectoryListing {
+  path: string;
+  entries: DirectoryEntry[];
+}
+
+// Code to analyze: either inline `code` or a `filePath` the server reads
+export interface AIAnalyzeRequest {
+  code?: string;
+  filePath?: string;
+  fileName: string;
+  context?: string;
+}
+
+export interface AIAnalyzeResponse {
+  status: 'success' | 'error';
+  // JSON text produced by the model (AIAnalysis on success)
+  analysis: string;
+  model: string;
+  error?: string;
+}
+
+export interface AISuggestion {
+  title: string;
+  rationale: string;
+  beforeCode: string;
+  afterCode: string;
+  confidence: number;
+}
+
+export interface AIAnalysis {
+  suggestions: AISuggestion[];
+  summary: string;
+  model: string;
+}
+
 export interface LoadRepoRequest {
   path: string;
 }
@@ -189,77 +323,189 @@ export interface CloneRepoRequest {
   branch?: string;
 }
 
+// Per-call options
+export interface CallOptions {
+  // Abort the call, e.g. with the signal react-query passes to queryFn
+  signal?: AbortSignal;
+  // Give up after this many milliseconds
+  timeoutMs?: number;
+  // Retries for retryable failures; GETs default to DEFAULT_GET_RETRIES, others to 0
+  retries?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 15000;
+const REPO_TIMEOUT_MS = 10 * 60 * 1000;
+const AI_TIMEOUT_MS = 90 * 1000;
+const DEFAULT_GET_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 300;
+
+// Wait before the next retry, giving up early if the caller aborts
+function backoff(attempt: number, endpoint: string, signal?: AbortSignal): Promise<void> {
+  const delay = RETRY_BASE_DELAY_MS * 2 ** attempt;
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, delay);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DebugForgeApiError('ABORTED', 'Request was cancelled', endpoint));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
 class DebugForgeApi {
 
     // Create a GitHub PR for a code change
-    async createGitHubPR(data: GitHubPRRequest): Promise<GitHubPRResponse> {
-      return this.fetch<GitHubPRResponse>(`/api/github/sync`, {
+    async createGitHubPR(data: GitHubPRRequest, call?: CallOptions): Promise<GitHubPRResponse> {
+      return this.fetch<GitHubPRResponse>(`/api/github/sync`, gitHubPRSchema, {
         method: 'POST',
         body: JSON.stringify(data),
-      });
+      }, { timeoutMs: REPO_TIMEOUT_MS, ...call });
     }
   private baseUrl: string;
+  private headers: Record<string, string>;
 
-  constructor(baseUrl: string = API_BASE) {
+  constructor(baseUrl: string = API_BASE, headers: Record<string, string> = {}) {
     this.baseUrl = baseUrl;
+    this.headers = headers;
+  }
+
+  // Run a request, retrying retryable failures with exponential backoff.
+  // Resolves with the parsed JSON body (null when empty) before validation.
+  protected async request(endpoint: string, init: RequestInit = {}, call: CallOptions = {}): Promise<unknown> {
+    const method = (init.method ?? 'GET').toUpperCase();
+    const retries = call.retries ?? (method === 'GET' ? DEFAULT_GET_RETRIES : 0);
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.attempt(endpoint, init, call);
+      } catch (e) {
+        if (!(e instanceof DebugForgeApiError) || !e.retryable || attempt >= retries) throw e;
+        await backoff(attempt, endpoint, call.signal);
+      }
+    }
   }
 
-  private async fetch<T>(endpoint: string, options?: RequestInit): Promise<T> {
-    const response = await fetch(`${this.baseUrl}${endpoint}`, {
-      ...options,
-      headers: {
-        'Content-Type': 'application/json',
-        ...options?.headers,
-      },
-    });
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ 
-        code: 'UNKNOWN', 
-        message: response.statusText 
-      }));
-      throw new Error(error.message || 'API request failed');
+  private async attempt(endpoint: string, init: RequestInit, call: CallOptions): Promise<unknown> {
+    const { signal, timeoutMs = DEFAULT_TIMEOUT_MS } = call;
+    if (signal?.aborted) throw new DebugForgeApiError('ABORTED', 'Request was cancelled', endpoint);
+
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    // Explain why the request stopped short of a response
+    const interrupted = (cause: unknown) => {
+      if (timedOut) {
+        return new DebugForgeApiError('TIMEOUT', `No response within ${timeoutMs / 1000}s`, endpoint, null, true);
+      }
+      if (signal?.aborted) return new DebugForgeApiError('ABORTED', 'Request was cancelled', endpoint);
+      const reason = cause instanceof Error ? cause.message : String(cause);
+      return new DebugForgeApiError('BACKEND_OFFLINE', `Backend unreachable at ${this.baseUrl} (${reason})`, endpoint, null, true);
+    };
+
+    try {
+      let response: Response;
+      try {
+        response = await fetch(`${this.baseUrl}${endpoint}`, {
+          ...init,
+          signal: controller.signal,
+          headers: {
+            'Content-Type': 'application/json',
+            ...this.headers,
+            ...init.headers,
+          },
+        });
+      } catch (e) {
+        throw interrupted(e);
+      }
+
+      let text: string;
+      try {
+        text = await response.text();
+      } catch (e) {
+        throw interrupted(e);
+      }
+
+      let body: unknown = null;
+      if (text) {
+        try {
+          body = JSON.parse(text);
+        } catch {
+          if (response.ok) {
+            throw new DebugForgeApiError('INVALID_RESPONSE', 'Backend returned a non-JSON body', endpoint, response.status);
+          }
+        }
+      }
+
+      if (!response.ok) {
+        throw DebugForgeApiError.fromResponse(endpoint, response.status, response.statusText, body);
+      }
+      return body;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
     }
+  }
+
+  // Fetch and validate a response body
+  private async fetch<T>(endpoint: string, schema: z.ZodTypeAny, init?: RequestInit, call?: CallOptions): Promise<T> {
+    return parseResponse<T>(schema, await this.request(endpoint, init, call), endpoint);
+  }
+
+  // Fetch a list, dropping items that fail validation
+  private async fetchList<T>(endpoint: string, itemSchema: z.ZodTypeAny, init?: RequestInit, call?: CallOptions): Promise<T[]> {
+    return parseList<T>(itemSchema, await this.request(endpoint, init, call), endpoint);
+  }
 
-    return response.json();
+  // Fetch an acknowledgement whose body carries no data
+  private async send(endpoint: string, init?: RequestInit, call?: CallOptions): Promise<void> {
+    await this.request(endpoint, init, call);
   }
 
   // Health check
-  async health(): Promise<HealthResponse> {
-    return this.fetch<HealthResponse>('/health');
+  async health(call?: CallOptions): Promise<HealthResponse> {
+    return this.fetch<HealthResponse>('/health', healthSchema, undefined, { timeoutMs: 5000, ...call });
   }
 
   // Get current application state
-  async getState(): Promise<AppState> {
-    return this.fetch<AppState>('/api/state');
+  async getState(call?: CallOptions): Promise<AppState> {
+    return this.fetch<AppState>('/api/state', appStateSchema, undefined, call);
   }
 
   // Load a local repository
-  async loadRepo(path: string): Promise<RepoInfo> {
-    return this.fetch<RepoInfo>('/api/repo/load', {
+  async loadRepo(path: string, call?: CallOptions): Promise<RepoInfo> {
+    return this.fetch<RepoInfo>('/api/repo/load', repoResponseSchema, {
       method: 'POST',
       body: JSON.stringify({ path }),
-    });
+    }, { timeoutMs: REPO_TIMEOUT_MS, ...call });
   }
 
   // Clone a GitHub repository
-  async cloneRepo(url: string, targetPath: string, branch?: string): Promise<RepoInfo> {
-    return this.fetch<RepoInfo>('/api/repo/clone', {
+  async cloneRepo(url: string, targetPath: string, branch?: string, call?: CallOptions): Promise<RepoInfo> {
+    return this.fetch<RepoInfo>('/api/repo/clone', repoResponseSchema, {
       method: 'POST',
       body: JSON.stringify({ url, targetPath, branch }),
-    });
+    }, { timeoutMs: REPO_TIMEOUT_MS, ...call });
   }
 
   // Refresh/rescan current repository
-  async refreshRepo(): Promise<void> {
-    return this.fetch<void>('/api/repo/refresh', {
+  async refreshRepo(call?: CallOptions): Promise<void> {
+    return this.send('/api/repo/refresh', {
       method: 'POST',
-    });
+    }, call);
   }
 
   // Get all modules
-  async getModules(): Promise<ModuleInfo[]> {
-    return this.fetch<ModuleInfo[]>('/api/modules');
+  async getModules(call?: CallOptions): Promise<ModuleInfo[]> {
+    return this.fetchList<ModuleInfo>('/api/modules', moduleInfoSchema, undefined, call);
   }
 
   // Get diagnostics with optional filters
@@ -267,127 +513,133 @@ class DebugForgeApi {
     severity?: string[];
     category?: string[];
     module?: string;
-  }): Promise<DiagnosticResponse[]> {
+  }, call?: CallOptions): Promise<DiagnosticResponse[]> {
     const params = new URLSearchParams();
     if (filters?.severity) params.set('severity', filters.severity.join(','));
     if (filters?.category) params.set('category', filters.category.join(','));
     if (filters?.module) params.set('module', filters.module);
     
     const query = params.toString();
-    return this.fetch<DiagnosticResponse[]>(`/api/diagnostics${query ? `?${query}` : ''}`);
+    return this.fetchList<DiagnosticResponse>(`/api/diagnostics${query ? `?${query}` : ''}`, diagnosticSchema, undefined, call);
   }
 
   // Suppress a diagnostic
-  async suppressDiagnostic(id: string): Promise<void> {
-    return this.fetch<void>(`/api/diagnostics/${id}/suppress`, {
+  async suppressDiagnostic(id: string, call?: CallOptions): Promise<void> {
+    return this.send(`/api/diagnostics/${id}/suppress`, {
       method: 'POST',
-    });
+    }, call);
   }
 
   // Get refactoring suggestions
-  async getRefactors(): Promise<RefactorSuggestion[]> {
-    return this.fetch<RefactorSuggestion[]>('/api/refactors');
+  async getRefactors(call?: CallOptions): Promise<RefactorSuggestion[]> {
+    return this.fetchList<RefactorSuggestion>('/api/refactors', refactorSchema, undefined, call);
   }
 
   // Apply a refactoring suggestion
-  async applyRefactor(id: string): Promise<{ success: boolean; appliedFiles: string[] }> {
-    return this.fetch<{ success: boolean; appliedFiles: string[] }>(`/api/refactors/${id}/apply`, {
+  async applyRefactor(id: string, call?: CallOptions): Promise<ApplyRefactorResponse> {
+    return this.fetch<ApplyRefactorResponse>(`/api/refactors/${id}/apply`, applyRefactorSchema, {
       method: 'POST',
-    });
+    }, call);
   }
 
   // Dismiss a refactoring suggestion
-  async dismissRefactor(id: string): Promise<void> {
-    return this.fetch<void>(`/api/refactors/${id}/dismiss`, {
+  async dismissRefactor(id: string, call?: CallOptions): Promise<void> {
+    return this.send(`/api/refactors/${id}/dismiss`, {
       method: 'POST',
-    });
+    }, call);
   }
 
   // Get metrics
-  async getMetrics(): Promise<{
-    totalFiles: number;
-    sharedCodePercent: number;
-    diagnosticsCount: { error: number; warning: number; info: number };
-  }> {
-    return this.fetch('/api/metrics');
+  async getMetrics(call?: CallOptions): Promise<SharedCodeMetrics> {
+    return this.fetch<SharedCodeMetrics>('/api/metrics', sharedCodeMetricsSchema, undefined, call);
   }
 
   // Get preview configurations
-  async getPreviews(): Promise<Array<{
-    id: string;
-    platform: string;
-    status: string;
-  }>> {
-    return this.fetch('/api/previews');
+  async getPreviews(call?: CallOptions): Promise<PreviewInfo[]> {
+    return this.fetchList<PreviewInfo>('/api/previews', previewSchema, undefined, call);
   }
 
   // Start a preview
-  async startPreview(id: string): Promise<{ sessionId: string }> {
-    return this.fetch<{ sessionId: string }>(`/api/previews/${id}/start`, {
+  async startPreview(id: string, call?: CallOptions): Promise<StartPreviewResponse> {
+    return this.fetch<StartPreviewResponse>(`/api/previews/${id}/start`, startPreviewSchema, {
       method: 'POST',
-    });
+    }, call);
   }
 
   // Stop a preview
-  async stopPreview(sessionId: string): Promise<void> {
-    return this.fetch<void>(`/api/previews/${sessionId}/stop`, {
+  async stopPreview(sessionId: string, call?: CallOptions): Promise<void> {
+    return this.send(`/api/previews/${sessionId}/stop`, {
       method: 'POST',
-    });
+    }, call);
   }
 
-  // Report file changes (for live updates)
-  async reportFileChanges(paths: string[]): Promise<void> {
-    return this.fetch<void>('/api/files/changed', {
-      method: 'POST',
-      body: JSON.stringify({ paths }),
-    });
+  // Read a file of the loaded repository (absolute or repo-relative path)
+  async readFile(path: string, call?: CallOptions): Promise<FileContent> {
+    const query = new URLSearchParams({ path });
+    return this.fetch<FileContent>(`/api/files/content?${query}`, fileContentSchema, undefined, call);
   }
 
-  // Clear errors
-  async clearErrors(): Promise<void> {
-    return this.fetch<void>('/api/error/clear', {
-      method: 'POST',
-    });
+  // A file as committed at `revision` (a ref or commit); 404 if it is not tracked there
+  async readFileAtRevision(path: string, revision = 'HEAD', call?: CallOptions): Promise<FileContent> {
+    const query = new URLSearchParams({ path, revision });
+    return this.fetch<FileContent>(`/api/git/file?${query}`, fileContentSchema, undefined, call);
   }
 
-  // WebSocket connection for real-time diagnostics
-  connectDiagnosticsStream(onEvent: (event: DiagnosticEvent) => void): WebSocket {
-    const ws = new WebSocket(`ws://127.0.0.1:18999/ws/diagnostics`);
-    
-    ws.onmessage = (event) => {
-      try {
-        const data = JSON.parse(event.data);
-        onEvent(data);
-      } catch (e) {
-        console.error('Failed to parse diagnostic event:', e);
-      }
-    };
+  async listDirectory(path: string, call?: CallOptions): Promise<DirectoryListing> {
+    const query = new URLSearchParams({ path });
+    return this.fetch<DirectoryListing>(`/api/files/list?${query}`, directoryListingSchema, undefined, call);
+  }
 
-    ws.onerror = (error) => {
-      console.error('WebSocket error:', error);
-    };
+  // Apply text edits to files on disk (quick fixes, undo)
+  async applyEdits(edits: TextEdit[], call?: CallOptions): Promise<ApplyEditsResponse> {
+    return this.fetch<ApplyEditsResponse>('/api/files/edits', applyEditsSchema, {
+      method: 'POST',
+      body: JSON.stringify({ edits }),
+    }, call);
+  }
 
-    return ws;
+  // Report a changed file so the server re-analyzes it (for live updates)
+  async reportFileChange(path: string, call?: CallOptions): Promise<void> {
+    return this.send('/api/files/changed', {
+      method: 'POST',
+      body: JSON.stringify({ path }),
+    }, call);
   }
 
-  // SSE connection for analysis progress
-  connectAnalysisStream(onProgress: (progress: AnalysisProgress) => void): EventSource {
-    const es = new EventSource(`${this.baseUrl}/sse/analysis`);
-    
-    es.onmessage = (event) => {
-      try {
-        const data = JSON.parse(event.data);
-        onProgress(data);
-      } catch (e) {
-        console.error('Failed to parse analysis event:', e);
-      }
-    };
+  // The server takes one path per request
+  async reportFileChanges(paths: string[], call?: CallOptions): Promise<void> {
+    await Promise.all(paths.map((path) => this.reportFileChange(path, call)));
+  }
 
-    es.onerror = (error) => {
-      console.error('SSE error:', error);
-    };
+  // Ask the server's LLM for suggestions on a file or snippet
+  async analyzeWithAI(request: AIAnalyzeRequest, call?: CallOptions): Promise<AIAnalysis> {
+    const endpoint = '/api/ai/analyze';
+    const response = await this.fetch<AIAnalyzeResponse>(endpoint, aiAnalyzeResponseSchema, {
+      method: 'POST',
+      body: JSON.stringify(request),
+    }, { timeoutMs: AI_TIMEOUT_MS, ...call });
+
+    if (response.status === 'error') {
+      const message = response.error ?? 'AI analysis failed';
+      const code = /not configured|GROQ_API_KEY/i.test(message) ? 'AI_NOT_CONFIGURED' : 'AI_ANALYSIS_FAILED';
+      throw new DebugForgeApiError(code, message, endpoint);
+    }
+
+    let analysis: unknown;
+    try {
+      analysis = JSON.parse(response.analysis);
+    } catch {
+      throw new DebugForgeApiError('AI_ANALYSIS_FAILED', 'The model did not return valid JSON', endpoint);
+    }
+    const result = parseResponse<Omit<AIAnalysis, 'model'>>(aiAnalysisSchema, analysis, endpoint);
+    return { ...result, model: response.model };
+  }
 
-    return es;
+  // Clear errors
+  async clearErrors(call?: CallOptions): Promise<void> {
+    return this.send('/api/error/clear', {
+      method: 'POST',
+    }, call);
   }
 }
 
@@ -397,6 +649,35 @@ export interface DiagnosticEvent {
   diagnosticId?: string;
   filePath?: string;
   progress?: AnalysisProgress;
+  resolution?: DiagnosticResolution;
+}
+
+export interface DiagnosticResolution {
+  method: 'AUTO_FIX' | 'MANUAL_EDIT' | 'CODE_DELETED' | 'FALSE_POSITIVE';
+  fixApplied: DiagnosticFix | null;
+  timestamp: number;
+}
+
+// Repository status as pushed over the live channel
+export type RepoStatus =
+  | { type: 'Idle' }
+  | { type: 'Cloning'; url: string; progress: number; currentOperation: string }
+  | { type: 'Loading'; path: string; filesScanned: number }
+  | { type: 'Indexing'; totalFiles: number; indexedFiles: number; currentFile: string }
+  | { type: 'Analyzing'; currentAnalyzer: string; progress: number }
+  | { type: 'Ready'; repoPath: string; repoName: string; totalFiles: number; totalModules: number; loadedAt: number }
+  | { type: 'Failed'; error: string; recoverable: boolean };
+
+// Full backend state as pushed over the live channel
+export interface LiveState {
+  repoStatus: RepoStatus;
+  modules?: unknown[];
+  diagnostics?: DiagnosticResponse[];
+  sharedCodeMetrics?: SharedCodeMetrics;
+  refactorSuggestions?: RefactorSuggestion[];
+  lastUpdated?: number;
+  analysisProgress?: number;
+  fatalError?: { code: string; message: string; stackTrace?: string | null; timestamp: number } | null;
 }
 
 export interface AnalysisProgress {
@@ -407,8 +688,30 @@ export interface AnalysisProgress {
   diagnosticsFound: number;
 }
 
-// Export singleton instance
-export const api = new DebugForgeApi();
+type ApiFactory = (endpoint: BackendEndpoint) => DebugForgeApi;
+
+const defaultFactory: ApiFactory = (endpoint) => new DebugForgeApi(endpoint.baseUrl, endpoint.headers);
+let currentEndpoint = DEFAULT_ENDPOINT;
+let createApi = defaultFactory;
+
+// Export singleton instance (replaced by configureBackend and setApiFactory)
+export let api = new DebugForgeApi();
+
+// Export live channel singleton
+export const liveSocket = new DebugForgeSocket(WS_URL);
+
+// Point the singletons at another backend
+export function configureBackend(endpoint: BackendEndpoint) {
+  currentEndpoint = endpoint;
+  api = createApi(endpoint);
+  liveSocket.setUrl(endpoint.wsUrl);
+}
+
+// Swap the client implementation (recording, replay); null restores the plain client
+export function setApiFactory(factory: ApiFactory | null) {
+  createApi = factory ?? defaultFactory;
+  api = createApi(currentEndpoint);
+}
 
 // Export class for testing/custom instances
-export { DebugForgeApi };
+export { DebugForgeApi, DebugForgeApiError };
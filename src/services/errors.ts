@@ -0,0 +1,107 @@
+/**
+ * Error types for DebugForge API calls
+ */
+
+export type ApiErrorCode =
+  | 'BACKEND_OFFLINE'
+  | 'TIMEOUT'
+  | 'ABORTED'
+  | 'CONTRACT_MISMATCH'
+  | 'INVALID_RESPONSE'
+  | 'REPO_NOT_FOUND'
+  | 'ANALYSIS_FAILED'
+  | 'NOT_FOUND'
+  | 'BAD_REQUEST'
+  | 'SERVER_ERROR'
+  | 'NOT_RECORDED'
+  | 'REPLAY_READ_ONLY'
+  | 'AI_NOT_CONFIGURED'
+  | 'AI_ANALYSIS_FAILED'
+  // Codes sent by the backend in an ErrorResponse body pass through as-is
+  | (string & {});
+
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+/**
+ * A failed DebugForge API call.
+ * `status` is null when no HTTP response was received.
+ */
+export class DebugForgeApiError extends Error {
+  readonly code: ApiErrorCode;
+  readonly status: number | null;
+  readonly endpoint: string;
+  readonly retryable: boolean;
+
+  constructor(
+    code: ApiErrorCode,
+    message: string,
+    endpoint: string,
+    status: number | null = null,
+    retryable = false
+  ) {
+    super(message);
+    this.name = 'DebugForgeApiError';
+    this.code = code;
+    this.status = status;
+    this.endpoint = endpoint;
+    this.retryable = retryable;
+  }
+
+  // Build an error from a non-2xx response and its (possibly missing) JSON body
+  static fromResponse(endpoint: string, status: number, statusText: string, body: unknown): DebugForgeApiError {
+    const fields = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+    const text = (value: unknown) => (typeof value === 'string' && value ? value : undefined);
+    const message = text(fields.message) ?? text(fields.error) ?? (statusText || `HTTP ${status}`);
+    const detail = [text(fields.message), text(fields.error)].filter(Boolean).join(' ');
+
+    return new DebugForgeApiError(
+      text(fields.code) ?? classifyStatus(endpoint, status, detail),
+      message,
+      endpoint,
+      status,
+      RETRYABLE_STATUSES.has(status)
+    );
+  }
+}
+
+function classifyStatus(endpoint: string, status: number, detail: string): ApiErrorCode {
+  const repoEndpoint = endpoint.startsWith('/api/repo/');
+  if (repoEndpoint && (status === 404 || /not found|does not exist|no such file/i.test(detail))) {
+    return 'REPO_NOT_FOUND';
+  }
+  if (repoEndpoint && status >= 500) return 'ANALYSIS_FAILED';
+  if (status === 404) return 'NOT_FOUND';
+  if (status === 408) return 'TIMEOUT';
+  if (status >= 500) return 'SERVER_ERROR';
+  return 'BAD_REQUEST';
+}
+
+// Short, user-facing title for an error from any API call
+export function apiErrorTitle(error: unknown): string {
+  if (!(error instanceof DebugForgeApiError)) return 'Request failed';
+  switch (error.code) {
+    case 'BACKEND_OFFLINE':
+      return 'Backend offline';
+    case 'TIMEOUT':
+      return 'Request timed out';
+    case 'ABORTED':
+      return 'Request cancelled';
+    case 'CONTRACT_MISMATCH':
+    case 'INVALID_RESPONSE':
+      return 'Backend contract mismatch';
+    case 'REPO_NOT_FOUND':
+      return 'Repository not found';
+    case 'ANALYSIS_FAILED':
+      return 'Analysis failed';
+    case 'NOT_RECORDED':
+      return 'Not in recording';
+    case 'REPLAY_READ_ONLY':
+      return 'Replay is read-only';
+    case 'AI_NOT_CONFIGURED':
+      return 'AI analysis not configured';
+    case 'AI_ANALYSIS_FAILED':
+      return 'AI analysis failed';
+    default:
+      return 'Request failed';
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * Watching a local repository for edits made outside DebugForge
+ * Chromium browsers read the folder through the File System Access API and
+ * poll it for modified files. Elsewhere the Vite dev server can watch the path
+ * on disk and stream the changes as server-sent events, when started with
+ * VITE_DEBUGFORGE_WATCH_ROOT set to the repository (or a folder above it).
+ */
+import { isIgnoredDirectory, isWatchedPath } from '@/lib/watchedPaths';
+
+// Not in the DOM typings TypeScript ships with
+declare global {
+  interface Window {
+    showDirectoryPicker?: (options?: { id?: string; mode?: 'read' | 'readwrite' }) => Promise<FileSystemDirectoryHandle>;
+  }
+  interface FileSystemDirectoryHandle {
+    values(): AsyncIterableIterator<FileSystemHandle>;
+  }
+}
+
+export type FolderWatchSource = 'folder' | 'dev-server';
+
+// Served by the dev server plugin in vite.config.ts
+export const DEV_WATCH_PATH = '/__debugforge/watch';
+
+const POLL_MS = 2000;
+
+export function canPickFolder(): boolean {
+  return typeof window !== 'undefined' && typeof window.showDirectoryPicker === 'function';
+}
+
+// The dev server only watches inside VITE_DEBUGFORGE_WATCH_ROOT, and only when it is set
+export function hasDevWatcher(root: string): boolean {
+  const watchRoot: string | undefined = import.meta.env.VITE_DEBUGFORGE_WATCH_ROOT?.replace(/[\\/]+$/, '');
+  return import.meta.env.DEV && !!watchRoot && (root === watchRoot || root.startsWith(`${watchRoot}/`));
+}
+
+// Ask for read access to a folder; null when the picker is dismissed
+export async function pickFolder(): Promise<FileSystemDirectoryHandle | null> {
+  try {
+    return await window.showDirectoryPicker({ id: 'debugforge-repository', mode: 'read' });
+  } catch (e) {
+    if (e instanceof DOMException && e.name === 'AbortError') return null;
+    throw e;
+  }
+}
+
+// Modification stamp of every file below `dir`, keyed by path relative to it
+async function snapshot(
+  dir: FileSystemDirectoryHandle,
+  prefix = '',
+  into = new Map<string, string>()
+): Promise<Map<string, string>> {
+  for await (const entry of dir.values()) {
+    const path = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (entry.kind === 'directory') {
+      if (!isIgnoredDirectory(entry.name)) await snapshot(entry as FileSystemDirectoryHandle, path, into);
+    } else {
+      const file = await (entry as FileSystemFileHandle).getFile();
+      into.set(path, `${file.lastModified}:${file.size}`);
+    }
+  }
+  return into;
+}
+
+// Poll a picked folder; reports relative paths of files that changed, appeared or went away
+export function watchFolder(
+  dir: FileSystemDirectoryHandle,
+  onChange: (paths: string[]) => void,
+  onError: (error: unknown) => void
+): () => void {
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let previous: Map<string, string> | null = null;
+
+  const poll = async () => {
+    try {
+      const current = await snapshot(dir);
+      if (stopped) return;
+      if (previous) {
+        const changed = [...current].filter(([path, stamp]) => previous.get(path) !== stamp).map(([path]) => path);
+        for (const path of previous.keys()) if (!current.has(path)) changed.push(path);
+        if (changed.length > 0) onChange(changed);
+      }
+      previous = current;
+      timer = setTimeout(poll, POLL_MS);
+    } catch (e) {
+      // Permission revoked or the folder is gone
+      if (!stopped) onError(e);
+    }
+  };
+
+  void poll();
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+  };
+}
+
+// Have the dev server watch `root` on disk; reports paths relative to it
+export function watchOnDevServer(
+  root: string,
+  onChange: (paths: string[]) => void,
+  onError: (error: unknown) => void
+): () => void {
+  const source = new EventSource(`${DEV_WATCH_PATH}?root=${encodeURIComponent(root)}`);
+  source.onmessage = (e) => {
+    try {
+      const { paths } = JSON.parse(e.data);
+      if (Array.isArray(paths)) onChange(paths.map(String).filter(isWatchedPath));
+    } catch {
+      // Ignore malformed frames
+    }
+  };
+  // EventSource retries dropped connections itself; CLOSED means it gave up
+  source.onerror = () => {
+    if (source.readyState === EventSource.CLOSED) onError(new Error(`The dev server cannot watch ${root}`));
+  };
+  return () => source.close();
+}
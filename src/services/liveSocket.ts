@@ -0,0 +1,282 @@
+/**
+ * Live channel for DebugForge
+ * Speaks the backend `/ws` protocol: decodes state and diagnostic envelopes,
+ * sends commands, heartbeats with `ping` and reconnects with backoff.
+ */
+import type { DiagnosticEvent, DiagnosticResponse, LiveState } from './api';
+import { diagnosticSchema, parseResponse, sealedTypeName } from './schemas';
+
+export type LiveConnectionState = 'idle' | 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+export type LiveCommand =
+  | { command: 'load'; args: { path: string } }
+  | { command: 'clone'; args: { url: string; localPath: string } }
+  | { command: 'refresh'; args?: Record<string, string> }
+  | { command: 'ping'; args?: Record<string, string> };
+
+export type LiveEvent =
+  | { kind: 'state'; state: LiveState }
+  | { kind: 'diagnostic'; event: DiagnosticEvent }
+  | { kind: 'pong' };
+
+export interface LiveSocketOptions {
+  heartbeatInterval?: number;
+  heartbeatTimeout?: number;
+  initialBackoff?: number;
+  maxBackoff?: number;
+}
+
+const DEFAULT_OPTIONS: Required<LiveSocketOptions> = {
+  heartbeatInterval: 15000,
+  heartbeatTimeout: 5000,
+  initialBackoff: 500,
+  maxBackoff: 30000,
+};
+
+function normalizeState(raw: Record<string, unknown>): LiveState {
+  const state = raw as unknown as LiveState;
+  const repoStatus = raw.repoStatus as { type?: unknown } | undefined;
+  return {
+    ...state,
+    repoStatus: repoStatus
+      ? ({ ...repoStatus, type: sealedTypeName(repoStatus.type) || 'Idle' } as LiveState['repoStatus'])
+      : { type: 'Idle' },
+  };
+}
+
+function normalizeDiagnosticEvent(raw: Record<string, unknown>): DiagnosticEvent {
+  const event = { ...raw, type: sealedTypeName(raw.type) } as DiagnosticEvent;
+  if (raw.diagnostic !== undefined) {
+    event.diagnostic = parseResponse<DiagnosticResponse>(diagnosticSchema, raw.diagnostic, '/ws');
+  }
+  return event;
+}
+
+// Decode one text frame into a typed event, or null if it is not understood
+export function decodeLiveFrame(text: string): LiveEvent | null {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (!data || typeof data !== 'object') return null;
+  const message = data as Record<string, unknown>;
+
+  switch (message.type) {
+    case 'pong':
+      return { kind: 'pong' };
+    case 'state':
+    case 'diagnostic': {
+      let payload: unknown = message.payload;
+      if (typeof payload === 'string') {
+        try {
+          payload = JSON.parse(payload);
+        } catch {
+          return null;
+        }
+      }
+      if (!payload || typeof payload !== 'object') return null;
+      const body = payload as Record<string, unknown>;
+      if (message.type === 'state') return { kind: 'state', state: normalizeState(body) };
+      try {
+        return { kind: 'diagnostic', event: normalizeDiagnosticEvent(body) };
+      } catch (e) {
+        console.warn(e instanceof Error ? e.message : e);
+        return null;
+      }
+    }
+    default:
+      // The first frame after connecting is a bare state object
+      if (message.type === undefined && 'repoStatus' in message) {
+        return { kind: 'state', state: normalizeState(message) };
+      }
+      return null;
+  }
+}
+
+class DebugForgeSocket {
+  private url: string;
+  private options: Required<LiveSocketOptions>;
+  private ws: WebSocket | null = null;
+  private connectionState: LiveConnectionState = 'idle';
+  private attempts = 0;
+  private wanted = false;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private pongTimer: ReturnType<typeof setTimeout> | null = null;
+  private pending: LiveCommand[] = [];
+  private listeners = new Set<(event: LiveEvent) => void>();
+  private stateListeners = new Set<(state: LiveConnectionState) => void>();
+
+  constructor(url: string, options: LiveSocketOptions = {}) {
+    this.url = url;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  getUrl(): string {
+    return this.url;
+  }
+
+  // Switch to another endpoint, reconnecting if the channel is in use
+  setUrl(url: string): void {
+    if (url === this.url) return;
+    this.url = url;
+    if (!this.wanted) return;
+    this.disconnect();
+    this.connect();
+  }
+
+  getConnectionState(): LiveConnectionState {
+    return this.connectionState;
+  }
+
+  // Open the channel; reconnects automatically until disconnect() is called
+  connect(): void {
+    this.wanted = true;
+    if (this.ws || this.reconnectTimer) return;
+    this.open();
+  }
+
+  disconnect(): void {
+    this.wanted = false;
+    this.clearTimers();
+    this.pending = [];
+    if (this.ws) {
+      const ws = this.ws;
+      this.ws = null;
+      ws.onopen = ws.onmessage = ws.onclose = ws.onerror = null;
+      ws.close();
+    }
+    this.attempts = 0;
+    this.setConnectionState('closed');
+  }
+
+  // Listen for decoded events; returns an unsubscribe function
+  subscribe(listener: (event: LiveEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Listen for connection state changes; returns an unsubscribe function
+  onConnectionChange(listener: (state: LiveConnectionState) => void): () => void {
+    this.stateListeners.add(listener);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  }
+
+  // Send a command; queued until the socket is open
+  send(command: LiveCommand): void {
+    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
+      this.ws.send(JSON.stringify({ command: command.command, args: command.args ?? {} }));
+    } else if (command.command !== 'ping') {
+      this.pending.push(command);
+    }
+  }
+
+  load(path: string): void {
+    this.send({ command: 'load', args: { path } });
+  }
+
+  clone(url: string, localPath: string): void {
+    this.send({ command: 'clone', args: { url, localPath } });
+  }
+
+  refresh(): void {
+    this.send({ command: 'refresh' });
+  }
+
+  private open(): void {
+    this.reconnectTimer = null;
+    this.setConnectionState(this.attempts === 0 ? 'connecting' : 'reconnecting');
+
+    let ws: WebSocket;
+    try {
+      ws = new WebSocket(this.url);
+    } catch (e) {
+      console.error('Failed to open live channel:', e);
+      this.scheduleReconnect();
+      return;
+    }
+    this.ws = ws;
+
+    ws.onopen = () => {
+      this.attempts = 0;
+      this.setConnectionState('open');
+      this.startHeartbeat();
+      const queued = this.pending;
+      this.pending = [];
+      queued.forEach((command) => this.send(command));
+    };
+
+    ws.onmessage = (message) => {
+      if (typeof message.data !== 'string') return;
+      const event = decodeLiveFrame(message.data);
+      if (!event) {
+        console.error('Failed to decode live event:', message.data);
+        return;
+      }
+      if (event.kind === 'pong' && this.pongTimer) {
+        clearTimeout(this.pongTimer);
+        this.pongTimer = null;
+      }
+      this.listeners.forEach((listener) => listener(event));
+    };
+
+    ws.onerror = (error) => {
+      console.error('WebSocket error:', error);
+    };
+
+    ws.onclose = () => {
+      this.ws = null;
+      this.clearTimers();
+      if (this.wanted) {
+        this.scheduleReconnect();
+      } else {
+        this.setConnectionState('closed');
+      }
+    };
+  }
+
+  private scheduleReconnect(): void {
+    const { initialBackoff, maxBackoff } = this.options;
+    const base = Math.min(initialBackoff * 2 ** this.attempts, maxBackoff);
+    const delay = base / 2 + Math.random() * (base / 2);
+    this.attempts += 1;
+    this.setConnectionState('reconnecting');
+    this.reconnectTimer = setTimeout(() => this.open(), delay);
+  }
+
+  private startHeartbeat(): void {
+    const { heartbeatInterval, heartbeatTimeout } = this.options;
+    this.heartbeatTimer = setInterval(() => {
+      if (this.pongTimer) return;
+      this.send({ command: 'ping' });
+      this.pongTimer = setTimeout(() => {
+        // No pong in time: drop the socket and let onclose reconnect
+        this.pongTimer = null;
+        this.ws?.close();
+      }, heartbeatTimeout);
+    }, heartbeatInterval);
+  }
+
+  private clearTimers(): void {
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
+    if (this.pongTimer) clearTimeout(this.pongTimer);
+    this.reconnectTimer = null;
+    this.heartbeatTimer = null;
+    this.pongTimer = null;
+  }
+
+  private setConnectionState(state: LiveConnectionState): void {
+    if (this.connectionState === state) return;
+    this.connectionState = state;
+    this.stateListeners.forEach((listener) => listener(state));
+  }
+}
+
+export { DebugForgeSocket };
@@ -0,0 +1,394 @@
+/**
+ * Runtime schemas for DebugForge API responses
+ * Mirror the interfaces in api.ts so backend model drift surfaces as a
+ * contract error at the boundary instead of a crash inside render.
+ * (The tsconfig is not strict, so zod cannot infer the interfaces; callers
+ * name the type they expect.)
+ */
+import { z } from 'zod';
+import { DebugForgeApiError } from './errors';
+
+// Kotlin omits properties that still hold their default value, so those are
+// optional here and filled with the same default.
+
+// Kotlin serializes sealed classes with their fully qualified name as `type`
+export function sealedTypeName(type: unknown): string {
+  if (typeof type !== 'string') return '';
+  const dot = type.lastIndexOf('.');
+  return dot >= 0 ? type.slice(dot + 1) : type;
+}
+
+const gitInfoSchema = z.object({
+  branch: z.string(),
+  commitHash: z.string(),
+  remoteUrl: z.string().nullable().default(null),
+  isDirty: z.boolean().default(false),
+});
+
+// `/api/modules` serializes the core ModuleInfo, which has no `type` and
+// describes dependencies as objects
+export const moduleInfoSchema = z
+  .object({
+    id: z.string(),
+    name: z.string(),
+    path: z.string(),
+    gradlePath: z.string().optional(),
+    type: z.string().default('module'),
+    targets: z.array(z.string()).default([]),
+    dependencies: z
+      .array(z.union([z.string(), z.object({ targetModuleId: z.string() }).transform((d) => d.targetModuleId)]))
+      .default([]),
+  })
+  .transform((m) => ({ ...m, gradlePath: m.gradlePath ?? m.id }));
+
+export const repoInfoSchema = z.object({
+  id: z.string(),
+  path: z.string(),
+  name: z.string(),
+  gitInfo: gitInfoSchema.nullable().default(null),
+  modules: z.array(moduleInfoSchema).default([]),
+  buildSystem: z.string().default('gradle'),
+  lastAnalyzed: z.number().nullable().default(null),
+});
+
+// `/api/repo/load` and `/api/repo/clone` wrap the repo in a response envelope
+export const repoResponseSchema = z.union([
+  z.object({ repo: repoInfoSchema }).transform((r) => r.repo),
+  repoInfoSchema,
+]);
+
+export const healthSchema = z.object({
+  status: z.string(),
+  version: z.string(),
+});
+
+const diagnosticLocationSchema = z.object({
+  filePath: z.string(),
+  relativeFilePath: z.string(),
+  moduleId: z.string(),
+  sourceSet: z.string(),
+  startLine: z.number().int(),
+  startColumn: z.number().int(),
+  endLine: z.number().int(),
+  endColumn: z.number().int(),
+  sourceSnippet: z.string().nullish().transform((s) => s ?? undefined),
+});
+
+const textEditSchema = z.object({
+  filePath: z.string(),
+  range: z.object({
+    startLine: z.number().int(),
+    startColumn: z.number().int(),
+    endLine: z.number().int(),
+    endColumn: z.number().int(),
+  }),
+  newText: z.string(),
+});
+
+const diagnosticFixSchema = z.object({
+  title: z.string(),
+  description: z.string(),
+  edits: z.array(textEditSchema),
+  isPreferred: z.boolean(),
+  confidence: z.number(),
+});
+
+export const diagnosticSchema = z.object({
+  id: z.string(),
+  severity: z.enum(['ERROR', 'WARNING', 'INFO', 'HINT']),
+  category: z.string(),
+  message: z.string(),
+  explanation: z.string(),
+  location: diagnosticLocationSchema,
+  relatedLocations: z.array(diagnosticLocationSchema).default([]),
+  fixes: z.array(diagnosticFixSchema).default([]),
+  source: z.string(),
+  timestamp: z.number(),
+  isActive: z.boolean().default(true),
+  tags: z.array(z.string()).default([]),
+});
+
+const diffLineSchema = z.object({
+  type: z.enum(['CONTEXT', 'ADD', 'REMOVE']),
+  content: z.string(),
+  oldLineNumber: z.number().int().nullish().transform((n) => n ?? undefined),
+  newLineNumber: z.number().int().nullish().transform((n) => n ?? undefined),
+});
+
+const fileChangeSchema = z.object({
+  filePath: z.string(),
+  changeType: z.enum(['CREATE', 'MODIFY', 'DELETE', 'RENAME']),
+  hunks: z.array(
+    z.object({
+      oldStart: z.number().int(),
+      oldCount: z.number().int(),
+      newStart: z.number().int(),
+      newCount: z.number().int(),
+      lines: z.array(diffLineSchema),
+    })
+  ),
+  oldPath: z.string().nullish().transform((p) => p ?? undefined),
+});
+
+export const refactorSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  rationale: z.string(),
+  confidence: z.number(),
+  category: z.string(),
+  priority: z.string(),
+  unifiedDiff: z.string(),
+  changes: z.array(fileChangeSchema).default([]),
+  affectedLocations: z.array(diagnosticLocationSchema).default([]),
+  fixesDiagnosticIds: z.array(z.string()).default([]),
+  sharedCodeImpact: z.number().nullable().default(null),
+  isAutoApplicable: z.boolean().default(false),
+  risks: z
+    .array(
+      z.object({
+        level: z.enum(['LOW', 'MEDIUM', 'HIGH']),
+        description: z.string(),
+        mitigation: z.string().nullish().transform((m) => m ?? undefined),
+      })
+    )
+    .default([]),
+  source: z.string(),
+  generatedAt: z.number(),
+});
+
+// The Kotlin SharedCodeMetrics; an empty analysis sends zeros and empty lists
+export const sharedCodeMetricsSchema = z.object({
+  totalLinesOfCode: z.number(),
+  sharedLinesOfCode: z.number(),
+  sharedCodePercentage: z.number(),
+  platformBreakdown: z.object({
+    commonLines: z.number(),
+    androidLines: z.number(),
+    iosLines: z.number(),
+    jvmLines: z.number(),
+    jsLines: z.number(),
+    wasmLines: z.number(),
+    nativeLines: z.number(),
+  }),
+  expectDeclarations: z.number(),
+  actualImplementations: z.number(),
+  expectActualCoverage: z.number(),
+  moduleRankings: z
+    .array(
+      z.object({
+        moduleId: z.string(),
+        moduleName: z.string(),
+        sharedPercentage: z.number(),
+        sharedLines: z.number(),
+        totalLines: z.number(),
+        rank: z.number(),
+        // Not in the Kotlin ModuleSharedRanking yet
+        expectDeclarations: z.number().nullable().default(null),
+        actualImplementations: z.number().nullable().default(null),
+      })
+    )
+    .default([]),
+  sharableCandidates: z
+    .array(
+      z.object({
+        filePath: z.string(),
+        currentSourceSet: z.string(),
+        confidence: z.number(),
+        reasons: z.array(z.string()).default([]),
+        blockers: z
+          .array(
+            z.object({
+              type: z.string(),
+              description: z.string(),
+              lineNumber: z.number().nullable().default(null),
+              symbol: z.string().nullable().default(null),
+            })
+          )
+          .default([]),
+      })
+    )
+    .default([]),
+});
+
+export const previewSchema = z.object({
+  id: z.string(),
+  platform: z.string(),
+  status: z.string(),
+});
+
+// `/api/refactors/{id}/apply` answers `{"status":"applied"}`; failures come back as errors
+export const applyRefactorSchema = z.object({
+  status: z.literal('applied'),
+});
+
+// `/api/files/edits`: the files written, as absolute paths
+export const applyEditsSchema = z.object({
+  success: z.boolean(),
+  appliedFiles: z.array(z.string()).default([]),
+});
+
+// `/api/state` serializes the server's DebugForgeState, the object the live
+// channel pushes too; `previews` is left out as nothing reads it
+export const appStateSchema = z.object({
+  repoStatus: z
+    .object({ type: z.unknown() })
+    .passthrough()
+    .default({ type: 'Idle' })
+    .transform((status) => ({ ...status, type: sealedTypeName(status.type) || 'Idle' })),
+  modules: z.array(moduleInfoSchema).default([]),
+  diagnostics: z.array(diagnosticSchema).default([]),
+  sharedCodeMetrics: sharedCodeMetricsSchema.nullable().default(null),
+  refactorSuggestions: z.array(refactorSchema).default([]),
+  lastUpdated: z.number().default(0),
+  analysisProgress: z.number().default(0),
+  fatalError: z
+    .object({
+      code: z.string(),
+      message: z.string(),
+      stackTrace: z.string().nullable().default(null),
+      timestamp: z.number(),
+    })
+    .nullable()
+    .default(null),
+});
+
+export const startPreviewSchema = z.object({
+  sessionId: z.string(),
+});
+
+export const gitHubPRSchema = z.object({
+  status: z.enum(['success', 'error']),
+  prNumber: z.number().int().nullish().transform((n) => n ?? undefined),
+  prUrl: z.string().nullish().transform((u) => u ?? undefined),
+  branch: z.string().nullish().transform((b) => b ?? undefined),
+  error: z.string().nullish().transform((e) => e ?? undefined),
+});
+
+// `/api/files/content` and `/api/git/file`; binary files come without content
+export const fileContentSchema = z.object({
+  path: z.string(),
+  size: z.number().int(),
+  binary: z.boolean().default(false),
+  truncated: z.boolean().default(false),
+  content: z.string().nullable().default(null),
+});
+
+export const directoryListingSchema = z.object({
+  path: z.string(),
+  entries: z.array(
+    z.object({
+      name: z.string(),
+      path: z.string(),
+      type: z.enum(['file', 'directory']),
+      size: z.number().int().nullable().default(null),
+    })
+  ),
+});
+
+// `/api/ai/analyze` always answers 200; `analysis` is the model's JSON as a string
+export const aiAnalyzeResponseSchema = z.object({
+  status: z.enum(['success', 'error']),
+  analysis: z.string().default('{}'),
+  model: z.string().default(''),
+  error: z.string().nullish().transform((e) => e ?? undefined),
+});
+
+// The model is prompted for this shape but may stray from it, so be lenient
+export const aiAnalysisSchema = z.object({
+  suggestions: z
+    .array(
+      z.object({
+        title: z.string(),
+        rationale: z.string().default(''),
+        beforeCode: z.string().default(''),
+        afterCode: z.string().default(''),
+        confidence: z.coerce.number().min(0).max(1).catch(0.5),
+      })
+    )
+    .default([]),
+  summary: z.string().default(''),
+});
+
+// Render a zod path as `[3].location.startLine`
+export function formatIssuePath(path: (string | number)[]): string {
+  const rendered = path
+    .map((segment) => (typeof segment === 'number' ? `[${segment}]` : `.${segment}`))
+    .join('')
+    .replace(/^\./, '');
+  return rendered || '(root)';
+}
+
+/**
+ * The backend answered with a body that does not match the expected model.
+ */
+export class ContractMismatchError extends DebugForgeApiError {
+  readonly path: string;
+  readonly issues: z.ZodIssue[];
+
+  constructor(endpoint: string, issues: z.ZodIssue[], pathPrefix: (string | number)[] = []) {
+    const first = issues[0];
+    const path = formatIssuePath([...pathPrefix, ...(first?.path ?? [])]);
+    super(
+      'CONTRACT_MISMATCH',
+      `Backend contract mismatch in ${endpoint} at ${path}: ${first?.message ?? 'invalid response'}`,
+      endpoint
+    );
+    this.name = 'ContractMismatchError';
+    this.path = path;
+    this.issues = issues;
+  }
+}
+
+export interface ContractWarning {
+  endpoint: string;
+  skipped: number;
+  total: number;
+  firstError: ContractMismatchError;
+}
+
+const warningListeners = new Set<(warning: ContractWarning) => void>();
+
+// Listen for list responses that had invalid items dropped
+export function onContractWarning(listener: (warning: ContractWarning) => void): () => void {
+  warningListeners.add(listener);
+  return () => {
+    warningListeners.delete(listener);
+  };
+}
+
+// Validate a whole response body, throwing on mismatch
+export function parseResponse<T>(schema: z.ZodTypeAny, data: unknown, endpoint: string): T {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    throw new ContractMismatchError(endpoint, result.error.issues);
+  }
+  return result.data as T;
+}
+
+// Validate a list body item by item, skipping the items that do not match
+export function parseList<T>(itemSchema: z.ZodTypeAny, data: unknown, endpoint: string): T[] {
+  if (!Array.isArray(data)) {
+    throw new ContractMismatchError(endpoint, [
+      { code: 'custom', path: [], message: `Expected array, received ${data === null ? 'null' : typeof data}` },
+    ]);
+  }
+
+  const items: T[] = [];
+  let firstError: ContractMismatchError | null = null;
+  for (let index = 0; index < data.length; index++) {
+    const result = itemSchema.safeParse(data[index]);
+    if (result.success) {
+      items.push(result.data as T);
+    } else {
+      const error = new ContractMismatchError(endpoint, result.error.issues, [index]);
+      firstError = firstError ?? error;
+      console.warn(error.message);
+    }
+  }
+
+  if (firstError) {
+    const warning = { endpoint, skipped: data.length - items.length, total: data.length, firstError };
+    warningListeners.forEach((listener) => listener(warning));
+  }
+  return items;
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { DebugForgeApiError } from './errors';
+import { ReplayApi, SESSION_FORMAT, type SessionBundle } from './session';
+
+function bundle(responses: Record<string, unknown>): SessionBundle {
+  return {
+    format: SESSION_FORMAT,
+    version: 1,
+    recordedAt: 1,
+    backend: 'http://127.0.0.1:18999',
+    repository: null,
+    responses,
+  };
+}
+
+async function errorCode(promise: Promise<unknown>): Promise<string | undefined> {
+  try {
+    await promise;
+  } catch (e) {
+    return e instanceof DebugForgeApiError ? e.code : undefined;
+  }
+  return undefined;
+}
+
+describe('ReplayApi', () => {
+  it('serves a recorded DebugForgeState from /api/state', async () => {
+    const api = new ReplayApi(
+      bundle({
+        'GET /api/state': {
+          repoStatus: {
+            type: 'com.kmpforge.debugforge.state.RepoStatus.Ready',
+            repoPath: '/x/notes',
+            repoName: 'notes',
+            totalFiles: 3,
+            totalModules: 1,
+            loadedAt: 5,
+          },
+          lastUpdated: 5,
+        },
+      })
+    );
+    const state = await api.getState();
+    expect(state.repoStatus).toMatchObject({ type: 'Ready', repoName: 'notes' });
+    expect(state.modules).toEqual([]);
+  });
+
+  it('refuses non-GET requests, even recorded ones', async () => {
+    const api = new ReplayApi(
+      bundle({
+        'POST /api/refactors/r1/apply': { status: 'applied' },
+        'POST /api/repo/refresh': null,
+      })
+    );
+    expect(await errorCode(api.applyRefactor('r1'))).toBe('REPLAY_READ_ONLY');
+    expect(await errorCode(api.refreshRepo())).toBe('REPLAY_READ_ONLY');
+    expect(await errorCode(api.suppressDiagnostic('d1'))).toBe('REPLAY_READ_ONLY');
+  });
+
+  it('reports GETs missing from the recording', async () => {
+    expect(await errorCode(new ReplayApi(bundle({})).getModules())).toBe('NOT_RECORDED');
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Record and replay of DebugForge API sessions
+ * A recording keeps the raw response bodies of a live session in a JSON
+ * bundle; replaying serves them back through the DebugForgeApi interface.
+ * Bodies are stored before validation, so a replay reproduces contract
+ * errors exactly as the recorded backend produced them.
+ */
+import { z } from 'zod';
+import { DebugForgeApi, type BackendEndpoint, type CallOptions } from './api';
+import { DebugForgeApiError } from './errors';
+import { formatIssuePath } from './schemas';
+import type { Repository } from '@/types/debug';
+
+export const SESSION_FORMAT = 'debugforge-session';
+
+export interface SessionBundle {
+  format: typeof SESSION_FORMAT;
+  version: 1;
+  recordedAt: number;
+  // Base URL of the backend the session was recorded against
+  backend: string;
+  repository: Repository | null;
+  // Raw response bodies keyed by `METHOD /path?query`
+  responses: Record<string, unknown>;
+}
+
+const sessionBundleSchema = z.object({
+  format: z.literal(SESSION_FORMAT),
+  version: z.literal(1),
+  recordedAt: z.number(),
+  backend: z.string(),
+  repository: z
+    .object({
+      url: z.string(),
+      name: z.string(),
+      owner: z.string(),
+      branch: z.string(),
+      targets: z.array(z.enum(['android', 'ios', 'desktop', 'web'])),
+      lastCommit: z.string().optional(),
+      stars: z.number().optional(),
+      path: z.string().optional(),
+    })
+    .nullable(),
+  responses: z.record(z.unknown()),
+});
+
+function responseKey(method: string | undefined, endpoint: string): string {
+  return `${(method ?? 'GET').toUpperCase()} ${endpoint}`;
+}
+
+// Read a bundle from an exported file, throwing if it is not one
+export function parseSessionBundle(text: string): SessionBundle {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Session file is not valid JSON');
+  }
+  const result = sessionBundleSchema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Not a DebugForge session recording (${formatIssuePath(issue.path)}: ${issue.message})`);
+  }
+  return result.data as SessionBundle;
+}
+
+/**
+ * Collects response bodies; the latest response per request wins.
+ */
+export class SessionRecorder {
+  private responses = new Map<string, unknown>();
+
+  record(method: string | undefined, endpoint: string, body: unknown): void {
+    this.responses.set(responseKey(method, endpoint), body);
+  }
+
+  get size(): number {
+    return this.responses.size;
+  }
+
+  toBundle(backend: string, repository: Repository | null): SessionBundle {
+    return {
+      format: SESSION_FORMAT,
+      version: 1,
+      recordedAt: Date.now(),
+      backend,
+      repository,
+      responses: Object.fromEntries(this.responses),
+    };
+  }
+}
+
+/**
+ * A live client that copies every successful response into a recorder.
+ */
+export class RecordingApi extends DebugForgeApi {
+  private recorder: SessionRecorder;
+
+  constructor(endpoint: BackendEndpoint, recorder: SessionRecorder) {
+    super(endpoint.baseUrl, endpoint.headers);
+    this.recorder = recorder;
+  }
+
+  protected async request(endpoint: string, init: RequestInit = {}, call: CallOptions = {}): Promise<unknown> {
+    const body = await super.request(endpoint, init, call);
+    this.recorder.record(init.method, endpoint, body);
+    return body;
+  }
+}
+
+/**
+ * Serves a recorded bundle instead of talking to a backend. Only GETs are
+ * served; anything else would change backend state and is refused, even when
+ * the recording happens to hold its response.
+ */
+export class ReplayApi extends DebugForgeApi {
+  private bundle: SessionBundle;
+
+  constructor(bundle: SessionBundle) {
+    super(bundle.backend);
+    this.bundle = bundle;
+  }
+
+  protected async request(endpoint: string, init: RequestInit = {}, call: CallOptions = {}): Promise<unknown> {
+    if (call.signal?.aborted) throw new DebugForgeApiError('ABORTED', 'Request was cancelled', endpoint);
+
+    if ((init.method ?? 'GET').toUpperCase() !== 'GET') {
+      throw new DebugForgeApiError('REPLAY_READ_ONLY', 'Changes are disabled while replaying a recording', endpoint);
+    }
+
+    const key = responseKey(init.method, endpoint);
+    if (key in this.bundle.responses) return this.bundle.responses[key];
+    throw new DebugForgeApiError('NOT_RECORDED', `${endpoint} was not captured in this recording`, endpoint, 404);
+  }
+}
+
+// Fetch everything the workspace shows so the recording covers it. `/api/state`
+// is the DebugForgeState that appStateSchema models, so it replays cleanly
+export async function captureSnapshot(client: DebugForgeApi): Promise<void> {
+  await Promise.allSettled([
+    client.health(),
+    client.getState(),
+    client.getModules(),
+    client.getDiagnostics(),
+    client.getRefactors(),
+    client.getMetrics(),
+  ]);
+}
@@ -0,0 +1,29 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import type { Baseline } from "@/lib/baselines";
+
+interface BaselineState {
+  // The baseline per repository URL
+  baselines: Record<string, Baseline>;
+
+  setBaseline: (repository: string, baseline: Baseline) => void;
+  clearBaseline: (repository: string) => void;
+}
+
+export const useBaselineStore = create<BaselineState>()(
+  persist(
+    (set) => ({
+      baselines: {},
+
+      setBaseline: (repository, baseline) =>
+        set((state) => ({ baselines: { ...state.baselines, [repository]: baseline } })),
+
+      clearBaseline: (repository) =>
+        set((state) => {
+          const { [repository]: _removed, ...rest } = state.baselines;
+          return { baselines: rest };
+        }),
+    }),
+    { name: "debugforge-baselines" }
+  )
+);
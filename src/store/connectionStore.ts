@@ -0,0 +1,178 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { configureBackend, DEFAULT_ENDPOINT, type BackendEndpoint } from "@/services/api";
+import { MOCK_ENDPOINT } from "@/mock/endpoint";
+
+export interface ConnectionProfile {
+  id: string;
+  name: string;
+  baseUrl: string;
+  wsUrl: string;
+  authHeader: { name: string; value: string } | null;
+}
+
+interface ConnectionState {
+  profiles: ConnectionProfile[];
+  activeProfileId: string;
+  // Session-only profile from the ?backend= query parameter
+  override: ConnectionProfile | null;
+
+  saveProfile: (profile: ConnectionProfile) => void;
+  removeProfile: (id: string) => void;
+  activateProfile: (id: string) => void;
+  clearOverride: () => void;
+}
+
+const DEFAULT_PROFILE: ConnectionProfile = {
+  id: "local",
+  name: "Local",
+  baseUrl: DEFAULT_ENDPOINT.baseUrl,
+  wsUrl: DEFAULT_ENDPOINT.wsUrl,
+  authHeader: null,
+};
+
+// Live channel URL served by a backend at the given base URL
+export function deriveWsUrl(baseUrl: string): string {
+  try {
+    const url = new URL(baseUrl);
+    url.protocol = url.protocol === "https:" ? "wss:" : "ws:";
+    url.pathname = "/ws";
+    url.search = "";
+    return url.toString();
+  } catch {
+    return DEFAULT_ENDPOINT.wsUrl;
+  }
+}
+
+// Served in-page by src/mock/browser.ts, installed from main.tsx
+const MOCK_PROFILE: ConnectionProfile = {
+  id: "mock",
+  name: "Mock backend",
+  baseUrl: MOCK_ENDPOINT.baseUrl,
+  wsUrl: MOCK_ENDPOINT.wsUrl,
+  authHeader: null,
+};
+
+// `?backend=` names a saved profile (id or name), `mock`, or a base URL
+function readQueryOverride(profiles: ConnectionProfile[]): ConnectionProfile | null {
+  if (typeof window === "undefined") return null;
+  const value = new URLSearchParams(window.location.search).get("backend");
+  if (!value) return null;
+  if (value === MOCK_PROFILE.id) return MOCK_PROFILE;
+
+  const saved = profiles.find((p) => p.id === value || p.name === value);
+  if (saved) return saved;
+
+  const baseUrl = value.replace(/\/+$/, "");
+  return { id: "query", name: baseUrl, baseUrl, wsUrl: deriveWsUrl(baseUrl), authHeader: null };
+}
+
+export function activeProfile(state: Pick<ConnectionState, "profiles" | "activeProfileId" | "override">) {
+  return (
+    state.override ??
+    state.profiles.find((p) => p.id === state.activeProfileId) ??
+    state.profiles[0] ??
+    DEFAULT_PROFILE
+  );
+}
+
+export function profileEndpoint(profile: ConnectionProfile): BackendEndpoint {
+  return {
+    baseUrl: profile.baseUrl,
+    wsUrl: profile.wsUrl,
+    headers: profile.authHeader?.name ? { [profile.authHeader.name]: profile.authHeader.value } : {},
+  };
+}
+
+// Header values are secrets: localStorage only gets the header name, and the
+// value lives in sessionStorage, which the browser drops with the tab
+const SECRETS_KEY = "debugforge-connection-secrets";
+
+function readSecrets(): Record<string, string> {
+  if (typeof window === "undefined") return {};
+  try {
+    return JSON.parse(window.sessionStorage.getItem(SECRETS_KEY) ?? "{}");
+  } catch {
+    return {};
+  }
+}
+
+function writeSecrets(profiles: ConnectionProfile[]): void {
+  if (typeof window === "undefined") return;
+  const secrets = Object.fromEntries(
+    profiles.filter((p) => p.authHeader?.value).map((p) => [p.id, p.authHeader!.value])
+  );
+  window.sessionStorage.setItem(SECRETS_KEY, JSON.stringify(secrets));
+}
+
+function withSecret(profile: ConnectionProfile, secrets: Record<string, string>): ConnectionProfile {
+  if (!profile.authHeader) return profile;
+  return { ...profile, authHeader: { ...profile.authHeader, value: secrets[profile.id] ?? "" } };
+}
+
+export const useConnectionStore = create<ConnectionState>()(
+  persist(
+    (set) => ({
+      profiles: [DEFAULT_PROFILE],
+      activeProfileId: DEFAULT_PROFILE.id,
+      override: null,
+
+      saveProfile: (profile) =>
+        set((state) => ({
+          profiles: state.profiles.some((p) => p.id === profile.id)
+            ? state.profiles.map((p) => (p.id === profile.id ? profile : p))
+            : [...state.profiles, profile],
+        })),
+
+      removeProfile: (id) =>
+        set((state) => {
+          const profiles = state.profiles.filter((p) => p.id !== id);
+          if (profiles.length === 0) return state;
+          return {
+            profiles,
+            activeProfileId: state.activeProfileId === id ? profiles[0].id : state.activeProfileId,
+          };
+        }),
+
+      activateProfile: (id) => set({ activeProfileId: id, override: null }),
+
+      clearOverride: () => set({ override: null }),
+    }),
+    {
+      name: "debugforge-connection",
+      partialize: (state) => ({
+        profiles: state.profiles.map((profile) => withSecret(profile, {})),
+        activeProfileId: state.activeProfileId,
+      }),
+      merge: (persisted, current) => {
+        const saved = persisted as Partial<ConnectionState> | undefined;
+        const secrets = readSecrets();
+        return {
+          ...current,
+          ...saved,
+          profiles: (saved?.profiles ?? current.profiles).map((profile) => withSecret(profile, secrets)),
+        };
+      },
+    }
+  )
+);
+
+// Call listener whenever the effective backend endpoint changes
+export function onBackendChange(listener: (endpoint: BackendEndpoint) => void): () => void {
+  return useConnectionStore.subscribe((state, previous) => {
+    const next = profileEndpoint(activeProfile(state));
+    if (JSON.stringify(next) !== JSON.stringify(profileEndpoint(activeProfile(previous)))) {
+      listener(next);
+    }
+  });
+}
+
+useConnectionStore.subscribe((state, previous) => {
+  if (state.profiles !== previous.profiles) writeSecrets(state.profiles);
+});
+
+useConnectionStore.setState({ override: readQueryOverride(useConnectionStore.getState().profiles) });
+
+// Keep the API and live channel singletons pointed at the active profile
+configureBackend(profileEndpoint(activeProfile(useConnectionStore.getState())));
+onBackendChange(configureBackend);
@@ -4,29 +4,60 @@ import type {
   Module,
   Diagnostic,
   AIRefactorSuggestion,
-  SourceFile,
   Platform,
   ScanResult,
+  ScanStatus,
 } from "@/types/debug";
 
+// A file to show in the code viewer, optionally with lines to reveal
+export interface FileLocation {
+  path: string;
+  startLine?: number;
+  endLine?: number;
+}
+
+// A fix the user applied, with each touched file before and after, so it can be undone
+export interface AppliedFix {
+  diagnosticId: string;
+  title: string;
+  files: { path: string; before: string; after: string }[];
+  appliedAt: number;
+}
+
 interface DebugState {
   // Repository state
   repository: Repository | null;
   isScanning: boolean;
   scanProgress: number;
+  scanStatus: ScanStatus | null;
+  scanStartedAt: number | null;
+  scanError: string | null;
+  // Aborts the load or clone request of the running scan
+  scanAbort: AbortController | null;
+  // Set by cancelScan until the backend reports the cancelled scan ended; the
+  // backend cannot stop it, so the live state it pushes meanwhile is dropped
+  scanCancelled: boolean;
   
   // Module tree
   modules: Module[];
   selectedModuleId: string | null;
   
   // Source files
-  currentFile: SourceFile | null;
+  openLocation: FileLocation | null;
   showDiff: boolean;
+  // File contents as first seen since the last scan started, by path; the
+  // diff base when the backend cannot serve HEAD
+  scanSnapshots: Record<string, string>;
   
   // Diagnostics
   diagnostics: Diagnostic[];
   selectedDiagnosticId: string | null;
   
+  // Quick fixes and suppression, by the diagnostic their dialog is open for
+  quickFixDiagnosticId: string | null;
+  suppressDiagnosticId: string | null;
+  appliedFixes: AppliedFix[];
+  
   // AI Suggestions
   suggestions: AIRefactorSuggestion[];
   selectedSuggestionId: string | null;
@@ -37,14 +68,27 @@ interface DebugState {
   
   // Actions
   setRepository: (repo: Repository) => void;
-  startScan: () => void;
+  startScan: () => AbortSignal;
   setScanProgress: (progress: number) => void;
+  updateScan: (status: ScanStatus, progress: number | null) => void;
+  finishScan: () => void;
+  failScan: (error: string) => void;
+  cancelScan: () => void;
+  endCancelledScan: () => void;
+  clearScanError: () => void;
   setScanResult: (result: ScanResult) => void;
   selectModule: (id: string) => void;
-  setCurrentFile: (file: SourceFile) => void;
+  openFile: (location: FileLocation) => void;
   toggleDiff: () => void;
+  recordSnapshot: (path: string, content: string) => void;
   selectDiagnostic: (id: string) => void;
+  openQuickFix: (diagnosticId: string | null) => void;
+  openSuppress: (diagnosticId: string | null) => void;
+  pushAppliedFix: (fix: AppliedFix) => void;
+  popAppliedFix: () => void;
   selectSuggestion: (id: string) => void;
+  setSuggestions: (suggestions: AIRefactorSuggestion[]) => void;
+  addAISuggestions: (suggestions: AIRefactorSuggestion[]) => void;
   updateSuggestionStatus: (id: string, status: AIRefactorSuggestion["status"]) => void;
   setActiveView: (view: "workspace" | "preview" | "refactor") => void;
   reset: () => void;
@@ -54,30 +98,86 @@ const initialState = {
   repository: null,
   isScanning: false,
   scanProgress: 0,
+  scanStatus: null,
+  scanStartedAt: null,
+  scanError: null,
+  scanAbort: null,
+  scanCancelled: false,
   modules: [],
   selectedModuleId: null,
-  currentFile: null,
+  openLocation: null,
   showDiff: false,
+  scanSnapshots: {},
   diagnostics: [],
   selectedDiagnosticId: null,
+  quickFixDiagnosticId: null,
+  suppressDiagnosticId: null,
+  appliedFixes: [],
   suggestions: [],
   selectedSuggestionId: null,
   activeView: "workspace" as const,
 };
 
-export const useDebugStore = create<DebugState>((set) => ({
+export const useDebugStore = create<DebugState>((set, get) => ({
   ...initialState,
   
   setRepository: (repo) => set({ repository: repo }),
   
-  startScan: () => set({ isScanning: true, scanProgress: 0 }),
+  // Returns the signal to pass to the scan's requests; cancelScan aborts it
+  startScan: () => {
+    get().scanAbort?.abort();
+    const scanAbort = new AbortController();
+    set({
+      isScanning: true,
+      scanProgress: 0,
+      scanStatus: { stage: "waiting" },
+      scanStartedAt: Date.now(),
+      scanError: null,
+      scanAbort,
+      scanCancelled: false,
+      scanSnapshots: {},
+    });
+    return scanAbort.signal;
+  },
   
   setScanProgress: (progress) => set({ scanProgress: progress }),
   
+  // A null progress keeps the last known percentage (stage without counts)
+  updateScan: (status, progress) =>
+    set((state) => ({
+      scanStatus: status,
+      scanProgress: progress ?? state.scanProgress,
+    })),
+  
+  finishScan: () =>
+    set({ isScanning: false, scanProgress: 100, scanStatus: null, scanStartedAt: null, scanAbort: null }),
+  
+  failScan: (error) =>
+    set({ isScanning: false, scanStatus: null, scanStartedAt: null, scanAbort: null, scanError: error }),
+  
+  cancelScan: () => {
+    get().scanAbort?.abort();
+    set({
+      isScanning: false,
+      scanProgress: 0,
+      scanStatus: null,
+      scanStartedAt: null,
+      scanAbort: null,
+      scanCancelled: true,
+    });
+  },
+  
+  endCancelledScan: () => set({ scanCancelled: false }),
+  
+  clearScanError: () => set({ scanError: null }),
+  
   setScanResult: (result) =>
     set({
       isScanning: false,
       scanProgress: 100,
+      scanStatus: null,
+      scanStartedAt: null,
+      scanAbort: null,
       modules: result.modules,
       diagnostics: result.diagnostics,
       suggestions: result.suggestions,
@@ -85,14 +185,48 @@ export const useDebugStore = create<DebugState>((set) => ({
   
   selectModule: (id) => set({ selectedModuleId: id }),
   
-  setCurrentFile: (file) => set({ currentFile: file }),
+  openFile: (location) => set({ openLocation: location }),
   
   toggleDiff: () => set((state) => ({ showDiff: !state.showDiff })),
   
+  // Keeps the first snapshot of a path; later contents are what it is diffed against
+  recordSnapshot: (path, content) =>
+    set((state) =>
+      path in state.scanSnapshots ? state : { scanSnapshots: { ...state.scanSnapshots, [path]: content } }
+    ),
+  
   selectDiagnostic: (id) => set({ selectedDiagnosticId: id }),
   
+  openQuickFix: (diagnosticId) => set({ quickFixDiagnosticId: diagnosticId }),
+  
+  openSuppress: (diagnosticId) => set({ suppressDiagnosticId: diagnosticId }),
+  
+  // Most recent last; undo takes from the end
+  pushAppliedFix: (fix) => set((state) => ({ appliedFixes: [...state.appliedFixes, fix] })),
+  
+  popAppliedFix: () => set((state) => ({ appliedFixes: state.appliedFixes.slice(0, -1) })),
+  
   selectSuggestion: (id) => set({ selectedSuggestionId: id }),
   
+  // Replace the engine's suggestions, keeping statuses the user already set on
+  // known ones and any AI results
+  setSuggestions: (suggestions) =>
+    set((state) => ({
+      suggestions: [
+        ...state.suggestions.filter((s) => s.origin === "ai"),
+        ...suggestions.map((s) => {
+          const existing = state.suggestions.find((e) => e.id === s.id);
+          return existing ? { ...s, status: existing.status } : s;
+        }),
+      ],
+    })),
+  
+  // Newest AI results go first
+  addAISuggestions: (suggestions) =>
+    set((state) => ({
+      suggestions: [...suggestions.map((s) => ({ ...s, origin: "ai" as const })), ...state.suggestions],
+    })),
+  
   updateSuggestionStatus: (id, status) =>
     set((state) => ({
       suggestions: state.suggestions.map((s) =>
@@ -0,0 +1,112 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { EMPTY_FILTERS, type DiagnosticFilters, type FacetKey, type GroupBy, type SortBy } from "@/lib/diagnosticFilters";
+import type { DiagnosticView, SavedView } from "@/lib/diagnosticViews";
+
+interface DiagnosticsViewState {
+  filters: DiagnosticFilters;
+  groupBy: GroupBy;
+  sortBy: SortBy;
+  // Keys of groups the user folded
+  collapsedGroups: string[];
+  // Saved views per repository URL
+  savedViews: Record<string, SavedView[]>;
+
+  toggleFacetValue: (key: FacetKey, value: string) => void;
+  clearFacet: (key: FacetKey) => void;
+  setSearch: (search: string) => void;
+  clearFilters: () => void;
+  setGroupBy: (groupBy: GroupBy) => void;
+  setSortBy: (sortBy: SortBy) => void;
+  toggleGroup: (key: string) => void;
+  applyView: (view: DiagnosticView) => void;
+  saveView: (repository: string, name: string) => SavedView;
+  deleteView: (repository: string, id: string) => void;
+  importViews: (repository: string, views: SavedView[]) => void;
+}
+
+// Views with the same name are replaced rather than duplicated
+function mergeViews(existing: SavedView[], incoming: SavedView[]): SavedView[] {
+  const names = new Set(incoming.map((v) => v.name));
+  return [...existing.filter((v) => !names.has(v.name)), ...incoming];
+}
+
+const newViewId = (index = 0) => `view-${Date.now().toString(36)}-${index}`;
+
+export const useDiagnosticsViewStore = create<DiagnosticsViewState>()(
+  persist(
+    (set, get) => ({
+      filters: EMPTY_FILTERS,
+      groupBy: "none",
+      sortBy: "severity",
+      collapsedGroups: [],
+      savedViews: {},
+
+      toggleFacetValue: (key, value) =>
+        set((state) => {
+          const selected: string[] = state.filters[key];
+          return {
+            filters: {
+              ...state.filters,
+              [key]: selected.includes(value) ? selected.filter((v) => v !== value) : [...selected, value],
+            },
+          };
+        }),
+
+      clearFacet: (key) => set((state) => ({ filters: { ...state.filters, [key]: [] } })),
+
+      setSearch: (search) => set((state) => ({ filters: { ...state.filters, search } })),
+
+      clearFilters: () => set({ filters: EMPTY_FILTERS }),
+
+      // Folded groups only make sense for the grouping they were folded in
+      setGroupBy: (groupBy) => set({ groupBy, collapsedGroups: [] }),
+
+      setSortBy: (sortBy) => set({ sortBy }),
+
+      toggleGroup: (key) =>
+        set((state) => ({
+          collapsedGroups: state.collapsedGroups.includes(key)
+            ? state.collapsedGroups.filter((k) => k !== key)
+            : [...state.collapsedGroups, key],
+        })),
+
+      // Views saved before a facet existed lack it
+      applyView: (view) =>
+        set({ filters: { ...EMPTY_FILTERS, ...view.filters }, groupBy: view.groupBy, sortBy: view.sortBy, collapsedGroups: [] }),
+
+      saveView: (repository, name) => {
+        const { filters, groupBy, sortBy } = get();
+        const view: SavedView = { id: newViewId(), name, filters, groupBy, sortBy };
+        set((state) => ({
+          savedViews: { ...state.savedViews, [repository]: mergeViews(state.savedViews[repository] ?? [], [view]) },
+        }));
+        return view;
+      },
+
+      deleteView: (repository, id) =>
+        set((state) => ({
+          savedViews: {
+            ...state.savedViews,
+            [repository]: (state.savedViews[repository] ?? []).filter((v) => v.id !== id),
+          },
+        })),
+
+      // Imported views get fresh ids so they never collide with local ones
+      importViews: (repository, views) =>
+        set((state) => ({
+          savedViews: {
+            ...state.savedViews,
+            [repository]: mergeViews(
+              state.savedViews[repository] ?? [],
+              views.map((v, i) => ({ ...v, id: newViewId(i) }))
+            ),
+          },
+        })),
+    }),
+    {
+      name: "debugforge-diagnostic-views",
+      partialize: (state) => ({ savedViews: state.savedViews }),
+    }
+  )
+);
@@ -0,0 +1,27 @@
+import { create } from "zustand";
+
+// Diagnostics that just arrived or are on their way out, for row animations
+interface LiveDiagnosticsState {
+  entering: string[];
+  leaving: string[];
+
+  markEntering: (ids: string[]) => void;
+  markLeaving: (ids: string[]) => void;
+  // Drop ids from both lists once their animation is over
+  settle: (ids: string[]) => void;
+}
+
+export const useLiveDiagnosticsStore = create<LiveDiagnosticsState>((set) => ({
+  entering: [],
+  leaving: [],
+
+  markEntering: (ids) => set((state) => ({ entering: [...state.entering, ...ids] })),
+
+  markLeaving: (ids) => set((state) => ({ leaving: [...state.leaving, ...ids] })),
+
+  settle: (ids) =>
+    set((state) => ({
+      entering: state.entering.filter((id) => !ids.includes(id)),
+      leaving: state.leaving.filter((id) => !ids.includes(id)),
+    })),
+}));
@@ -0,0 +1,72 @@
+import { create } from "zustand";
+import { api, setApiFactory } from "@/services/api";
+import {
+  RecordingApi,
+  ReplayApi,
+  SessionRecorder,
+  captureSnapshot,
+  type SessionBundle,
+} from "@/services/session";
+import type { Repository } from "@/types/debug";
+
+export type SessionMode = "live" | "recording" | "replay";
+
+interface SessionState {
+  mode: SessionMode;
+  recorder: SessionRecorder | null;
+  // Base URL of the backend being recorded
+  recordingBackend: string | null;
+  replay: SessionBundle | null;
+
+  startRecording: () => void;
+  stopRecording: (repository: Repository | null) => Promise<SessionBundle | null>;
+  startReplay: (bundle: SessionBundle) => void;
+  stopReplay: () => void;
+}
+
+export const useSessionStore = create<SessionState>((set, get) => ({
+  mode: "live",
+  recorder: null,
+  recordingBackend: null,
+  replay: null,
+
+  startRecording: () => {
+    if (get().mode !== "live") return;
+    const recorder = new SessionRecorder();
+    setApiFactory((endpoint) => {
+      set({ recordingBackend: endpoint.baseUrl });
+      return new RecordingApi(endpoint, recorder);
+    });
+    set({ mode: "recording", recorder });
+  },
+
+  // Fill in anything the session did not fetch yet, then go back to live
+  stopRecording: async (repository) => {
+    const { mode, recorder, recordingBackend } = get();
+    if (mode !== "recording" || !recorder) return null;
+    await captureSnapshot(api);
+    setApiFactory(null);
+    set({ mode: "live", recorder: null, recordingBackend: null });
+    return recorder.toBundle(recordingBackend ?? "", repository);
+  },
+
+  startReplay: (bundle) => {
+    setApiFactory(() => new ReplayApi(bundle));
+    set({ mode: "replay", recorder: null, recordingBackend: null, replay: bundle });
+  },
+
+  stopReplay: () => {
+    if (get().mode !== "replay") return;
+    setApiFactory(null);
+    set({ mode: "live", replay: null });
+  },
+}));
+
+// Call listener when a replay starts or ends (cached data changes source)
+export function onReplayChange(listener: (replaying: boolean) => void): () => void {
+  return useSessionStore.subscribe((state, previous) => {
+    if ((state.mode === "replay") !== (previous.mode === "replay")) {
+      listener(state.mode === "replay");
+    }
+  });
+}
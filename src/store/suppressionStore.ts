@@ -0,0 +1,68 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { mergeSuppressions, type Suppression } from "@/lib/suppressions";
+
+/**
+ * Suppressions stay in the client: the server's per-diagnostic suppress call
+ * cannot be undone and is forgotten when the server restarts, so it could not
+ * back scopes, the audit view or unsuppressing. The checked-in file is what
+ * makes them last and shared.
+ */
+interface SuppressionState {
+  // Suppressions made or imported in this browser, per repository URL
+  suppressions: Record<string, Suppression[]>;
+  // The repository's checked-in suppressions file as last read; not persisted,
+  // and only changed by editing the file
+  checkedIn: Record<string, Suppression[]>;
+  // Name recorded as the author of new suppressions
+  author: string;
+
+  suppress: (repository: string, suppression: Suppression) => void;
+  unsuppress: (repository: string, id: string) => void;
+  importSuppressions: (repository: string, suppressions: Suppression[]) => void;
+  setCheckedIn: (repository: string, suppressions: Suppression[]) => void;
+  setAuthor: (author: string) => void;
+}
+
+export const useSuppressionStore = create<SuppressionState>()(
+  persist(
+    (set) => ({
+      suppressions: {},
+      checkedIn: {},
+      author: "",
+
+      suppress: (repository, suppression) =>
+        set((state) => ({
+          suppressions: {
+            ...state.suppressions,
+            [repository]: mergeSuppressions(state.suppressions[repository] ?? [], [suppression]),
+          },
+        })),
+
+      unsuppress: (repository, id) =>
+        set((state) => ({
+          suppressions: {
+            ...state.suppressions,
+            [repository]: (state.suppressions[repository] ?? []).filter((s) => s.id !== id),
+          },
+        })),
+
+      importSuppressions: (repository, suppressions) =>
+        set((state) => ({
+          suppressions: {
+            ...state.suppressions,
+            [repository]: mergeSuppressions(state.suppressions[repository] ?? [], suppressions),
+          },
+        })),
+
+      setCheckedIn: (repository, suppressions) =>
+        set((state) => ({ checkedIn: { ...state.checkedIn, [repository]: suppressions } })),
+
+      setAuthor: (author) => set({ author }),
+    }),
+    {
+      name: "debugforge-suppressions",
+      partialize: (state) => ({ suppressions: state.suppressions, author: state.author }),
+    }
+  )
+);
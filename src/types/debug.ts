@@ -1,6 +1,19 @@
 export type Platform = "android" | "ios" | "desktop" | "web";
 
-export type DiagnosticSeverity = "error" | "warning" | "info";
+export type DiagnosticSeverity = "error" | "warning" | "info" | "hint";
+
+// Backend DiagnosticCategory values; unknown ones from newer backends pass through
+export type DiagnosticCategory =
+  | "EXPECT_ACTUAL"
+  | "COROUTINE_SAFETY"
+  | "WASM_THREADING"
+  | "API_MISUSE"
+  | "PERFORMANCE"
+  | "MEMORY"
+  | "COMPATIBILITY"
+  | "DEPRECATION"
+  | "STYLE"
+  | (string & {});
 
 export interface Repository {
   url: string;
@@ -10,26 +23,45 @@ export interface Repository {
   targets: Platform[];
   lastCommit?: string;
   stars?: number;
+  // Where the backend keeps the checkout; the local path, or where a clone went
+  path?: string;
 }
 
 export interface Module {
   id: string;
   name: string;
   path: string;
-  sharedCodePercent: number;
-  expectCount: number;
-  actualCount: number;
-  coverage: number;
+  // e.g. ":shared:data"; nesting in the module tree follows it
+  gradlePath: string;
+  // "group" for a Gradle path that only holds other modules
+  type: string;
+  // Kotlin target names as reported by Gradle (e.g. "iosArm64", "wasmJs")
+  targets: string[];
+  platforms: Platform[];
+  dependencies: string[];
+  // null until the backend reports it; in the module tree they include nested modules
+  sharedCodePercent: number | null;
+  sharedLines: number | null;
+  totalLines: number | null;
+  expectCount: number | null;
+  actualCount: number | null;
   children?: Module[];
   hasErrors?: boolean;
   hasWarnings?: boolean;
 }
 
+// Lines and columns are 1-based; the end column is exclusive. Without a
+// column the annotation covers the line's code, without an end the rest of it.
 export interface CodeAnnotation {
   line: number;
+  column?: number;
+  endLine?: number;
+  endColumn?: number;
   type: "error" | "warning" | "ai-suggestion" | "info";
   message: string;
   suggestion?: string;
+  // Diagnostic the annotation was made from
+  diagnosticId?: string;
 }
 
 export interface SourceFile {
@@ -39,18 +71,83 @@ export interface SourceFile {
   annotations: CodeAnnotation[];
 }
 
+// Lines and columns are 1-based
+export interface SourceLocation {
+  file: string;
+  relativePath: string;
+  moduleId: string;
+  sourceSet: string;
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+  snippet?: string;
+}
+
+export interface TextEdit {
+  file: string;
+  startLine: number;
+  startColumn: number;
+  endLine: number;
+  endColumn: number;
+  newText: string;
+}
+
+export interface CodeFix {
+  title: string;
+  description: string;
+  edits: TextEdit[];
+  preferred: boolean;
+  confidence: number;
+}
+
+// How a diagnostic relates to the repository's baseline, when one is set
+export type BaselineStatus = "new" | "unchanged";
+
 export interface Diagnostic {
   id: string;
   severity: DiagnosticSeverity;
-  category: "coroutine" | "wasm" | "platform-api" | "memory" | "threading";
+  category: DiagnosticCategory;
   title: string;
   description: string;
-  location: {
-    file: string;
-    line: number;
-    column?: number;
-  };
+  location: SourceLocation;
+  relatedLocations: SourceLocation[];
+  fixes: CodeFix[];
+  // Backend DiagnosticTag values, e.g. "FIXABLE", "BREAKING_CHANGE"
+  tags: string[];
+  // Analyzer that reported it
+  source: string;
+  timestamp: number;
   platforms: Platform[];
+  baselineStatus?: BaselineStatus;
+}
+
+export interface DiffLine {
+  type: "context" | "add" | "remove";
+  content: string;
+  oldLine?: number;
+  newLine?: number;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldCount: number;
+  newStart: number;
+  newCount: number;
+  lines: DiffLine[];
+}
+
+export interface FileChange {
+  file: string;
+  changeType: "create" | "modify" | "delete" | "rename";
+  hunks: DiffHunk[];
+  oldFile?: string;
+}
+
+export interface RefactorRisk {
+  level: "low" | "medium" | "high";
+  description: string;
+  mitigation?: string;
 }
 
 export interface AIRefactorSuggestion {
@@ -66,6 +163,17 @@ export interface AIRefactorSuggestion {
     endLine: number;
   };
   status: "pending" | "applied" | "rejected" | "edited";
+  // "ai" for on-demand LLM results; absent for the backend's refactor engine
+  origin?: "ai";
+  category?: string;
+  priority?: "critical" | "high" | "medium" | "low";
+  unifiedDiff?: string;
+  changes: FileChange[];
+  risks: RefactorRisk[];
+  fixesDiagnosticIds: string[];
+  autoApplicable: boolean;
+  // Change in shared-code percentage if applied
+  sharedCodeImpact?: number;
 }
 
 export interface PreviewState {
@@ -75,14 +183,26 @@ export interface PreviewState {
   highlightedComponent?: string;
 }
 
+export type ScanStage = "waiting" | "cloning" | "loading" | "indexing" | "analyzing";
+
+export interface ScanStatus {
+  stage: ScanStage;
+  phase?: string;
+  detail?: string;
+  filesProcessed?: number;
+  totalFiles?: number;
+  diagnosticsFound?: number;
+}
+
 export interface ScanResult {
   modules: Module[];
   diagnostics: Diagnostic[];
   suggestions: AIRefactorSuggestion[];
   stats: {
-    totalFiles: number;
-    sharedFiles: number;
-    platformSpecificFiles: number;
+    // Lines of Kotlin code
+    totalLines: number;
+    sharedLines: number;
+    platformSpecificLines: number;
     errorsCount: number;
     warningsCount: number;
     suggestionsCount: number;
@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Repository folder the dev server may watch for the folder watcher fallback
+  readonly VITE_DEBUGFORGE_WATCH_ROOT?: string;
+}
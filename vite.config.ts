@@ -1,21 +1,93 @@
-import { defineConfig } from "vite";
+import { defineConfig, loadEnv, type Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
+import fs from "fs";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
+import { isWatchedPath } from "./src/lib/watchedPaths";
+
+const MOCK_BACKEND_PORT = 18999;
+
+// `vite --mode mock` also serves the mock backend on MOCK_BACKEND_PORT
+function mockBackend(): Plugin {
+  return {
+    name: "debugforge-mock-backend",
+    apply: "serve",
+    async configureServer(server) {
+      const { startMockServer } = await server.ssrLoadModule("/src/mock/node.ts");
+      const mock = await startMockServer(MOCK_BACKEND_PORT);
+      server.config.logger.info(`  Mock backend: http://127.0.0.1:${MOCK_BACKEND_PORT}`);
+      server.httpServer?.once("close", () => mock.server.close());
+    },
+  };
+}
+
+const LOOPBACK_ADDRESSES = new Set(["127.0.0.1", "::1", "::ffff:127.0.0.1"]);
+
+// Whether `dir` is `root` or below it, after resolving symlinks; false if either does not exist
+function isInside(root: string, dir: string): boolean {
+  try {
+    const relative = path.relative(fs.realpathSync(root), fs.realpathSync(dir));
+    return !relative.startsWith("..") && !path.isAbsolute(relative) && fs.statSync(dir).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+// Folder watcher fallback for browsers without the File System Access API:
+// streams paths changed below `?root=` as server-sent events. Opt-in, as it
+// reveals file names: only registered when VITE_DEBUGFORGE_WATCH_ROOT names
+// the repository, only for directories inside it and only for local clients.
+function folderWatcher(watchRoot: string): Plugin {
+  return {
+    name: "debugforge-folder-watcher",
+    apply: "serve",
+    configureServer(server) {
+      server.middlewares.use("/__debugforge/watch", (req, res) => {
+        if (!LOOPBACK_ADDRESSES.has(req.socket.remoteAddress ?? "")) {
+          res.statusCode = 403;
+          res.end();
+          return;
+        }
+        const root = new URL(req.url ?? "/", "http://localhost").searchParams.get("root");
+        if (!root || !path.isAbsolute(root) || !isInside(watchRoot, root)) {
+          res.statusCode = 403;
+          res.end();
+          return;
+        }
+
+        res.writeHead(200, { "Content-Type": "text/event-stream", "Cache-Control": "no-cache" });
+        const watcher = fs.watch(root, { recursive: true }, (_event, file) => {
+          if (!file || !isWatchedPath(file)) return;
+          res.write(`data: ${JSON.stringify({ paths: [file.split(path.sep).join("/")] })}\n\n`);
+        });
+        watcher.on("error", () => res.end());
+        req.on("close", () => watcher.close());
+      });
+    },
+  };
+}
 
 // https://vitejs.dev/config/
-export default defineConfig(({ mode }) => ({
-  server: {
-    host: "::",
-    port: 8080,
-    hmr: {
-      overlay: false,
+export default defineConfig(({ mode }) => {
+  const watchRoot = loadEnv(mode, process.cwd(), "VITE_").VITE_DEBUGFORGE_WATCH_ROOT;
+  return {
+    server: {
+      host: "::",
+      port: 8080,
+      hmr: {
+        overlay: false,
+      },
     },
-  },
-  plugins: [react(), mode === "development" && componentTagger()].filter(Boolean),
-  resolve: {
-    alias: {
-      "@": path.resolve(__dirname, "./src"),
+    plugins: [
+      react(),
+      !!watchRoot && folderWatcher(watchRoot),
+      mode === "development" && componentTagger(),
+      mode === "mock" && mockBackend(),
+    ].filter(Boolean),
+    resolve: {
+      alias: {
+        "@": path.resolve(__dirname, "./src"),
+      },
     },
-  },
-}));
+  };
+});